@@ -0,0 +1,123 @@
+// Keeps the app shell (the page and its build assets) available without a
+// connection and serves content saved with "Make available offline" (see
+// src/lib/offline.ts) from Cache Storage.
+const SHELL_CACHE = "app-shell-v2";
+// Must match OFFLINE_CACHE in src/lib/offline.ts
+const OFFLINE_CACHE = "offline-content-v1";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(["/", "/manifest.webmanifest", "/favicon.ico"]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== OFFLINE_CACHE).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Audio elements ask for byte ranges; answer them from the saved file
+const rangeResponse = async (request, response) => {
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get("Range") || "");
+  if (!range || (!range[1] && !range[2])) return response;
+
+  const blob = await response.blob();
+  const start = range[1] ? Number(range[1]) : Math.max(0, blob.size - Number(range[2]));
+  const end = range[1] && range[2] ? Math.min(Number(range[2]), blob.size - 1) : blob.size - 1;
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": response.headers.get("Content-Type") || "application/octet-stream",
+      "Content-Range": `bytes ${start}-${end}/${blob.size}`,
+      "Content-Length": String(end - start + 1),
+    },
+  });
+};
+
+// Only complete responses: cache.put rejects partial (206) ones
+const putInShell = (request, response) => {
+  if (response.status === 200) {
+    const copy = response.clone();
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.put(request, copy))
+      .catch((error) => console.warn("Failed to cache", request.url || request, error));
+  }
+  return response;
+};
+
+const getAssetPaths = (html) => new Set(html.match(/\/assets\/[^"'\s)]+/g) || []);
+
+// A page from a new build drops the previous build's assets. Ones loaded by its
+// scripts and styles rather than the page itself are cached again as they are requested.
+const pruneAssets = async (page) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const previous = await cache.match("/");
+  if (!previous) return;
+  const current = getAssetPaths(await page.clone().text());
+  const cached = getAssetPaths(await previous.text());
+  if (current.size === cached.size && [...current].every((asset) => cached.has(asset))) return;
+
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const { pathname } = new URL(request.url);
+        return pathname.startsWith("/assets/") && !current.has(pathname);
+      })
+      .map((request) => cache.delete(request))
+  );
+};
+
+const handleFetch = async (request) => {
+  const offline = await caches.open(OFFLINE_CACHE);
+  const saved = await offline.match(request.url, { ignoreVary: true });
+  if (saved) return rangeResponse(request, saved);
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return fetch(request);
+
+  // Pages: always try for the latest build, fall back to the cached shell
+  if (request.mode === "navigate") {
+    let page;
+    try {
+      page = await fetch(request);
+    } catch (error) {
+      const shell = await caches.match("/");
+      if (shell) return shell;
+      throw error;
+    }
+    if (page.status === 200) await pruneAssets(page).catch((error) => console.warn("Failed to prune assets", error));
+    return putInShell("/", page);
+  }
+
+  // Hashed build output never changes, so the cached copy is always right
+  if (url.pathname.startsWith("/assets/")) {
+    const cached = await caches.match(request);
+    return cached || putInShell(request, await fetch(request));
+  }
+
+  // Everything else is only available offline when saved with a tab, or among the
+  // files stored on install
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  if (event.request.method !== "GET") return;
+  event.respondWith(handleFetch(event.request));
+});
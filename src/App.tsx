@@ -7,17 +7,26 @@ import { Navigation } from "./components/Navigation";
 import { MusicPlayer } from "./components/MusicPlayer";
 import { RainEffect } from "./components/RainEffect";
 import { AuthProvider } from "./hooks/useAuth";
+import { ShortcutProvider } from "./components/ShortcutProvider";
+import { AudioFocusProvider } from "./components/AudioFocusProvider";
+import KeyboardShortcutsDialog from "./components/KeyboardShortcutsDialog";
 import Home from "./pages/Home";
 import GuitarPro from "./pages/GuitarPro";
 import GuitarDetail from "./pages/GuitarDetail";
 import Recordings from "./pages/Recordings";
 import FoodGallery from "./pages/FoodGallery";
 import GuestBook from "./pages/GuestBook";
+import Setlists from "./pages/Setlists";
+import SetlistDetail from "./pages/SetlistDetail";
+import SetlistPerformance from "./pages/SetlistPerformance";
+import OfflineStorage from "./pages/OfflineStorage";
+import MyPractice from "./pages/MyPractice";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/admin/Dashboard";
 import MusicManager from "./pages/admin/MusicManager";
 import FoodManager from "./pages/admin/FoodManager";
 import GuitarManager from "./pages/admin/GuitarManager";
+import TabEditor from "./pages/admin/TabEditor";
 import SoundfontManager from "./pages/admin/SoundfontManager";
 import Settings from "./pages/admin/Settings";
 import NotFound from "./pages/NotFound";
@@ -31,30 +40,42 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <div className="relative">
-            <RainEffect />
-            <div className="relative" style={{ zIndex: 10 }}>
-              <Navigation />
-              <MusicPlayer />
-              <Routes>
-                <Route path="/" element={<Home />} />
-                <Route path="/guitar" element={<GuitarPro />} />
-                <Route path="/guitar/:id" element={<GuitarDetail />} />
-                <Route path="/recordings" element={<Recordings />} />
-                <Route path="/food" element={<FoodGallery />} />
-                <Route path="/guestbook" element={<GuestBook />} />
-                <Route path="/auth" element={<Auth />} />
-                <Route path="/admin" element={<Dashboard />} />
-                <Route path="/admin/music" element={<MusicManager />} />
-                <Route path="/admin/food" element={<FoodManager />} />
-                <Route path="/admin/guitar" element={<GuitarManager />} />
-                <Route path="/admin/soundfonts" element={<SoundfontManager />} />
-                <Route path="/admin/settings" element={<Settings />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </div>
-          </div>
+          <ShortcutProvider>
+            <AudioFocusProvider>
+              <div className="relative">
+                <RainEffect />
+                <div className="relative" style={{ zIndex: 10 }}>
+                  <Navigation />
+                  <MusicPlayer />
+                  <KeyboardShortcutsDialog />
+                  <Routes>
+                    <Route path="/" element={<Home />} />
+                    <Route path="/guitar" element={<GuitarPro />} />
+                    <Route path="/guitar/:id" element={<GuitarDetail />} />
+                    <Route path="/recordings" element={<Recordings />} />
+                    <Route path="/food" element={<FoodGallery />} />
+                    <Route path="/guestbook" element={<GuestBook />} />
+                    <Route path="/setlists" element={<Setlists />} />
+                    <Route path="/setlists/:id" element={<SetlistDetail />} />
+                    <Route path="/setlists/:id/perform" element={<SetlistPerformance />} />
+                    <Route path="/offline" element={<OfflineStorage />} />
+                    <Route path="/practice" element={<MyPractice />} />
+                    <Route path="/auth" element={<Auth />} />
+                    <Route path="/admin" element={<Dashboard />} />
+                    <Route path="/admin/music" element={<MusicManager />} />
+                    <Route path="/admin/food" element={<FoodManager />} />
+                    <Route path="/admin/guitar" element={<GuitarManager />} />
+                    <Route path="/admin/guitar/editor" element={<TabEditor />} />
+                    <Route path="/admin/guitar/editor/:id" element={<TabEditor />} />
+                    <Route path="/admin/soundfonts" element={<SoundfontManager />} />
+                    <Route path="/admin/settings" element={<Settings />} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </div>
+              </div>
+            </AudioFocusProvider>
+          </ShortcutProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
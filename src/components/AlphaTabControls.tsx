@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useCallback, useState, useEffect, useRef } from "react";
 import {
   SkipBack,
   Play,
@@ -21,6 +21,18 @@ import {
   Maximize2,
   Menu,
   Music,
+  Gauge,
+  SlidersHorizontal,
+  Bookmark,
+  Grid3x3,
+  Piano,
+  FileAudio,
+  FileOutput,
+  Link2,
+  Settings2,
+  Drum,
+  ArrowUpDown,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -30,8 +42,32 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { INSTRUMENTS, INSTRUMENT_CATEGORIES, getInstrumentsByCategory } from "@/constants/instruments";
+import PracticeLoopPanel from "./PracticeLoopPanel";
+import TrackMixerPanel from "./TrackMixerPanel";
+import TabAnnotationsPanel from "./TabAnnotationsPanel";
+import BackingTrackPanel from "./BackingTrackPanel";
+import FretboardPanel from "./FretboardPanel";
+import PianoRollPanel from "./PianoRollPanel";
+import MetronomePanel from "./MetronomePanel";
+import { AudioExportHandle, exportScoreToWav } from "@/lib/audioExport";
+import { downloadBlob } from "@/lib/scoreExport";
+import ScoreExportDialog from "./ScoreExportDialog";
+import GuitarTransposeDialog from "./GuitarTransposeDialog";
+import { BarRange, findBarAtTick, seekToBar } from "@/lib/barRange";
+import { PlayerDeepLink, buildDeepLink } from "@/lib/deepLink";
+import PlayerPreferencesMenu from "./PlayerPreferencesMenu";
+import type { PlayerPreferencesState } from "@/hooks/usePlayerPreferences";
+import type { PlayerLayout, PlayerPreferences } from "@/lib/playerPreferences";
+import { TrackInstrument, getTrackPrograms, rewriteProgramChanges } from "@/lib/trackInstruments";
+import { DEFAULT_METRONOME_SETTINGS, MetronomeSettings, addMetronomeClicks, createCountIn } from "@/lib/metronome";
+import { useShortcutHandlers } from "@/hooks/useShortcuts";
+import { TrackMix, getExportTrackVolumes } from "@/lib/trackMixer";
+import type { BackingTrack } from "@/lib/backingTrack";
+import { alphaTab } from "@/lib/alphaTab";
 
 interface AlphaTabControlsProps {
   api: any;
@@ -42,8 +78,14 @@ interface AlphaTabControlsProps {
   onOpenFile?: () => void;
   tracks?: any[];
   defaultInstrument?: { name: string; program: number } | null;
+  trackInstruments?: TrackInstrument[];
   scaleControls?: boolean;
   onToggleScale?: () => void;
+  embedId?: string;
+  deepLink?: PlayerDeepLink | null;
+  playerPreferences?: PlayerPreferencesState;
+  shortcutPlayerId?: string;
+  backingTrack?: BackingTrack | null;
 }
 
 const AlphaTabControls = ({
@@ -55,30 +97,75 @@ const AlphaTabControls = ({
   onOpenFile,
   tracks = [],
   defaultInstrument,
+  trackInstruments,
   scaleControls = false,
   onToggleScale,
+  embedId,
+  deepLink,
+  playerPreferences,
+  shortcutPlayerId,
+  backingTrack,
 }: AlphaTabControlsProps) => {
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [originalBPM, setOriginalBPM] = useState<number | null>(null);
-  const [currentBPM, setCurrentBPM] = useState<number | null>(null);
   const lastTimeRef = useRef(0);
   const ignoreBackwardOnPauseRef = useRef(false);
   const resumeGuardRef = useRef(false);
   const [zoom, setZoom] = useState(100);
+  const [layout, setLayout] = useState<PlayerLayout>("page");
   const [countIn, setCountIn] = useState(false);
   const [metronome, setMetronome] = useState(false);
+  const [metronomeSettings, setMetronomeSettings] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+  const [metronomeOpen, setMetronomeOpen] = useState(false);
+  const [countingIn, setCountingIn] = useState(false);
+  const countInTimerRef = useRef<number | null>(null);
   const [loop, setLoop] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [selectedInstrument, setSelectedInstrument] = useState(0);
   const [currentInstrument, setCurrentInstrument] = useState(INSTRUMENTS[0]);
+  // Per-track instruments picked in the mixer, kept until the page is left
+  const [sessionPrograms, setSessionPrograms] = useState<Record<number, number>>({});
   const [volume, setVolume] = useState(80);
   const [transpose, setTranspose] = useState(0);
   const [autoScroll, setAutoScroll] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
+  const [practiceOpen, setPracticeOpen] = useState(false);
+  const [mixerOpen, setMixerOpen] = useState(false);
+  const [annotationsOpen, setAnnotationsOpen] = useState(false);
   const [availableInstruments, setAvailableInstruments] = useState<number[] | null>(null);
-  const [backingTrackPlaying, setBackingTrackPlaying] = useState(true);
-  const backingTrackAudioRef = useRef<HTMLAudioElement | null>(null);
+  const [backingTrackOpen, setBackingTrackOpen] = useState(false);
+  const [fretboardOpen, setFretboardOpen] = useState(false);
+  const [pianoRollOpen, setPianoRollOpen] = useState(false);
+  const mixRef = useRef<TrackMix | null>(null);
+  const audioExportRef = useRef<AudioExportHandle | null>(null);
+  const [audioExportProgress, setAudioExportProgress] = useState<number | null>(null);
+  const [scoreExportOpen, setScoreExportOpen] = useState(false);
+  const [guitarTransposeOpen, setGuitarTransposeOpen] = useState(false);
+  const loopRangeRef = useRef<BarRange | null>(null);
+  const deepLinkAppliedRef = useRef(false);
+  const { toast } = useToast();
+  const currentBPM = originalBPM ? originalBPM * playbackSpeed : null;
+
+  // Effects that only run on specific changes read the rest of the current state from here
+  const latestRef = useRef({
+    isPlaying,
+    trackInstruments,
+    sessionPrograms,
+    metronome,
+    metronomeSettings,
+    deepLink,
+    playerPreferences,
+  });
+  latestRef.current = {
+    isPlaying,
+    trackInstruments,
+    sessionPrograms,
+    metronome,
+    metronomeSettings,
+    deepLink,
+    playerPreferences,
+  };
 
   useEffect(() => {
     const loadAvailableInstruments = async () => {
@@ -140,25 +227,24 @@ const AlphaTabControls = ({
     }
   };
 
-  // Apply the current instrument when API is ready and instrument changes
+  useEffect(() => {
+    setSessionPrograms((prev) => (Object.keys(prev).length ? {} : prev));
+  }, [tracks]);
+
+  // Apply the instruments when the API is ready and whenever one of them changes
+  const trackInstrumentsKey = JSON.stringify([trackInstruments ?? [], sessionPrograms]);
   useEffect(() => {
     if (!api || !currentInstrument) return;
     
     const program = currentInstrument.program;
     
-    // Prepare handler to rewrite all Program Change events except drums (channel 9)
+    // Prepare handler to rewrite Program Change events: per-track instruments first, then
+    // the current instrument for every other track except drums (channel 9)
     const midiLoadHandler = (file: any) => {
       try {
-        const MidiEventType = (window as any).alphaTab?.midi?.MidiEventType;
-        const events = file?.events ?? [];
-        for (const ev of events) {
-          const isProgramChange = MidiEventType
-            ? ev.type === MidiEventType.ProgramChange || ev.command === MidiEventType.ProgramChange
-            : ev.command === 0xC0;
-            if (isProgramChange && ev.channel !== 9) {
-              if (typeof ev.program === "number") ev.program = program;
-            }
-        }
+        const { trackInstruments, sessionPrograms } = latestRef.current;
+        const scoreTracks = api.score?.tracks ?? [];
+        rewriteProgramChanges(file, scoreTracks, getTrackPrograms(scoreTracks, trackInstruments ?? [], sessionPrograms), program);
       } catch (err) {
         console.warn("Failed to rewrite MIDI program changes:", err);
       }
@@ -173,9 +259,44 @@ const AlphaTabControls = ({
 
     // Regenerate and reload the MIDI
     if (typeof api.loadMidiForScore === "function") {
+      const wasPlaying = latestRef.current.isPlaying;
       api.loadMidiForScore();
+      // Resume playback if it was playing before
+      if (wasPlaying) setTimeout(() => api.play(), 100);
     }
-  }, [api, currentInstrument]);
+  }, [api, currentInstrument, trackInstrumentsKey]);
+
+  // Our clicks replace AlphaTab's and are written into the MIDI, so a new pattern regenerates it.
+  // Volume and count-in length don't touch the MIDI.
+  const { volume: _volume, countInBars: _countInBars, ...clickPattern } = metronomeSettings;
+  const clickPatternKey = JSON.stringify(clickPattern);
+  useEffect(() => {
+    if (!api) return;
+
+    const metronomeMidiHandler = (file: alphaTab.midi.MidiFile) => {
+      try {
+        addMetronomeClicks(file, api.tickCache, latestRef.current.metronomeSettings);
+      } catch (err) {
+        console.warn("Failed to add metronome clicks:", err);
+      }
+    };
+    api.midiLoad.on(metronomeMidiHandler);
+
+    if (api.score && typeof api.loadMidiForScore === "function") {
+      const wasPlaying = latestRef.current.isPlaying;
+      api.loadMidiForScore();
+      if (wasPlaying) setTimeout(() => api.play(), 100);
+    }
+    return () => {
+      api.midiLoad.off(metronomeMidiHandler);
+    };
+  }, [api, clickPatternKey]);
+
+  useEffect(() => {
+    return () => {
+      if (countInTimerRef.current !== null) clearTimeout(countInTimerRef.current);
+    };
+  }, []);
 
   useEffect(() => {
     if (!api) return;
@@ -218,7 +339,6 @@ const AlphaTabControls = ({
       if (firstBar.tempoAutomation && firstBar.tempoAutomation.value) {
         const bpm = firstBar.tempoAutomation.value;
         setOriginalBPM(bpm);
-        setCurrentBPM(bpm);
       }
     }
 
@@ -229,20 +349,59 @@ const AlphaTabControls = ({
     };
   }, [api, isPlaying]);
 
+  // Plays the count-in bars as a one-time song on the metronome channel, then starts playback
+  // Puts the metronome channel back as the metronome is set now, which may have
+  // changed during the count-in
+  const restoreMetronomeVolume = () => {
+    const { metronome, metronomeSettings } = latestRef.current;
+    api.metronomeVolume = metronome ? metronomeSettings.volume : 0;
+  };
+
+  const playWithCountIn = (start: () => void) => {
+    const { file, durationMs } = createCountIn(api.tickCache, api.tickPosition ?? 0, metronomeSettings);
+    // The metronome channel is silent while the metronome is off
+    api.metronomeVolume = metronomeSettings.volume;
+    api.player.playOneTimeMidiFile(file);
+    setCountingIn(true);
+    countInTimerRef.current = window.setTimeout(() => {
+      countInTimerRef.current = null;
+      setCountingIn(false);
+      restoreMetronomeVolume();
+      start();
+    }, durationMs / (api.playbackSpeed || 1));
+  };
+
+  const cancelCountIn = () => {
+    if (countInTimerRef.current !== null) clearTimeout(countInTimerRef.current);
+    countInTimerRef.current = null;
+    setCountingIn(false);
+    // An empty one-time song cuts the remaining clicks
+    api.player?.playOneTimeMidiFile(new alphaTab.midi.MidiFile());
+    restoreMetronomeVolume();
+  };
+
   const togglePlayPause = () => {
     if (api) {
-      if (!isPlaying) {
-        // We're resuming: ensure we start exactly where we paused
-        try {
-          api.timePosition = Math.max(0, lastTimeRef.current);
-        } catch {}
-        window.dispatchEvent(new CustomEvent('alphaTabPlay'));
-        resumeGuardRef.current = true;
-        api.playPause();
-        // Enforce the resume position once more right after starting
-        setTimeout(() => {
-          try { api.timePosition = lastTimeRef.current; } catch {}
-        }, 30);
+      if (countingIn) {
+        cancelCountIn();
+      } else if (!isPlaying) {
+        const resume = () => {
+          // We're resuming: ensure we start exactly where we paused
+          try {
+            api.timePosition = Math.max(0, lastTimeRef.current);
+          } catch {}
+          resumeGuardRef.current = true;
+          api.playPause();
+          // Enforce the resume position once more right after starting
+          setTimeout(() => {
+            try { api.timePosition = lastTimeRef.current; } catch {}
+          }, 30);
+        };
+        if (countIn && api.player && api.tickCache) {
+          playWithCountIn(resume);
+        } else {
+          resume();
+        }
       } else {
         // We're about to pause; ignore the backward jump emitted by repeats
         ignoreBackwardOnPauseRef.current = true;
@@ -259,16 +418,117 @@ const AlphaTabControls = ({
     if (!originalBPM || !currentBPM || !api) return;
     
     const newBPM = Math.max(20, Math.min(300, currentBPM + change));
-    setCurrentBPM(newBPM);
     
     // Update playback speed based on BPM ratio (no render, no MIDI reload)
-    const speed = newBPM / originalBPM;
-    setPlaybackSpeed(speed);
-    api.playbackSpeed = speed;
+    applyPlaybackSpeed(newBPM / originalBPM);
+    savePreferences({ speed: newBPM / originalBPM });
+  };
+
+  // Speed is relative to the score's original tempo (1 = 100%)
+  const applyPlaybackSpeed = useCallback(
+    (speed: number) => {
+      setPlaybackSpeed(speed);
+      if (api) api.playbackSpeed = speed;
+    },
+    [api]
+  );
+
+  const handleInstrumentChange = useCallback(
+    (trackIndex: number) => {
+      setSelectedInstrument(trackIndex);
+      if (api && tracks[trackIndex]) {
+        api.renderTracks([tracks[trackIndex]]);
+      }
+    },
+    [api, tracks]
+  );
+
+  const savePreferences = (changes: Partial<PlayerPreferences>) => {
+    playerPreferences?.updatePreferences(changes);
+  };
+
+  // Restore saved zoom, layout, speed, metronome/count-in and scrolling
+  useEffect(() => {
+    if (!api || !playerPreferences?.version) return;
+    const { preferences } = latestRef.current.playerPreferences;
+
+    setZoom(preferences.zoom);
+    setLayout(preferences.layout);
+    setMetronome(preferences.metronome);
+    setCountIn(preferences.countIn);
+    setMetronomeSettings(preferences.metronomeSettings);
+    setAutoScroll(preferences.autoScroll);
+    api.metronomeVolume = preferences.metronome ? preferences.metronomeSettings.volume : 0;
+    // Count-ins are played by playWithCountIn, never by AlphaTab itself
+    api.countInVolume = 0;
+    // A deep-linked speed wins over the saved one
+    if (!latestRef.current.deepLink?.speed) applyPlaybackSpeed(preferences.speed);
+
+    const settings = api.settings;
+    if (settings) {
+      const scale = preferences.zoom / 100;
+      const layoutMode = preferences.layout === "horizontal" ? alphaTab.LayoutMode.Horizontal : alphaTab.LayoutMode.Page;
+      const needsRender = settings.display.scale !== scale || settings.display.layoutMode !== layoutMode;
+      settings.display.scale = scale;
+      settings.display.layoutMode = layoutMode;
+      settings.player.scrollMode = preferences.autoScroll ? alphaTab.ScrollMode.OffScreen : alphaTab.ScrollMode.Off;
+      api.updateSettings();
+      if (needsRender) api.render();
+    }
+  }, [api, playerPreferences?.version, applyPlaybackSpeed]);
+
+  // Apply ?bar=&track=&speed= once the MIDI is ready; the loop is applied by the practice panel
+  useEffect(() => {
+    if (!api || !deepLink || deepLinkAppliedRef.current || tracks.length === 0) return;
+
+    const applyDeepLink = () => {
+      if (deepLinkAppliedRef.current || !api.tickCache) return;
+      deepLinkAppliedRef.current = true;
+
+      if (deepLink.track && tracks[deepLink.track - 1]) {
+        handleInstrumentChange(deepLink.track - 1);
+      }
+      if (deepLink.speed) {
+        applyPlaybackSpeed(deepLink.speed);
+      }
+      const startBar = deepLink.bar ?? deepLink.loop?.startBar;
+      if (startBar) {
+        seekToBar(api, startBar);
+      }
+    };
+
+    applyDeepLink();
+    api.midiLoaded.on(applyDeepLink);
+    return () => {
+      api.midiLoaded.off(applyDeepLink);
+    };
+  }, [api, tracks, deepLink, applyPlaybackSpeed, handleInstrumentChange]);
+
+  useEffect(() => {
+    if (deepLink?.loop) setPracticeOpen(true);
+  }, [deepLink]);
+
+  const handleCopyLink = async () => {
+    if (!embedId) return;
+    const url = buildDeepLink(`${window.location.origin}/guitar/${embedId}`, {
+      bar: findBarAtTick(api, api?.tickPosition ?? 0) ?? undefined,
+      track: selectedInstrument + 1,
+      speed: playbackSpeed,
+      loop: loopRangeRef.current ?? undefined,
+    });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: url });
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      toast({ title: "Could not copy link", description: url, variant: "destructive" });
+    }
   };
 
   const handleZoomChange = (zoomLevel: number) => {
     setZoom(zoomLevel);
+    savePreferences({ zoom: zoomLevel });
     if (api) {
       const settings = (api as any).settings;
       if (settings) {
@@ -281,12 +541,21 @@ const AlphaTabControls = ({
 
   const toggleCountIn = () => {
     setCountIn(!countIn);
-    if (api) (api as any).countInVolume = !countIn ? 1 : 0;
+    savePreferences({ countIn: !countIn });
   };
 
   const toggleMetronome = () => {
     setMetronome(!metronome);
-    if (api) (api as any).metronomeVolume = !metronome ? 1 : 0;
+    savePreferences({ metronome: !metronome });
+    // A running count-in keeps its clicks and applies the new setting when it ends
+    if (api && !countingIn) api.metronomeVolume = !metronome ? metronomeSettings.volume : 0;
+  };
+
+  const updateMetronomeSettings = (changes: Partial<MetronomeSettings>) => {
+    const next = { ...metronomeSettings, ...changes };
+    setMetronomeSettings(next);
+    savePreferences({ metronomeSettings: next });
+    if (api && (metronome || countingIn)) api.metronomeVolume = next.volume;
   };
 
   const toggleLoop = () => {
@@ -357,63 +626,70 @@ const AlphaTabControls = ({
     }
   };
 
-  const handleLayoutChange = (layoutMode: number) => {
-    if (api && (api as any).settings) {
-      (api as any).settings.display.layoutMode = layoutMode;
-      api.updateSettings();
-      api.render();
+  const handleExportAudio = async () => {
+    if (!api || audioExportRef.current) return;
+    if (isPlaying) api.pause();
+
+    const handle = exportScoreToWav(
+      api,
+      {
+        program: currentInstrument?.program ?? null,
+        trackPrograms: getTrackPrograms(tracks, trackInstruments ?? [], sessionPrograms),
+        speed: playbackSpeed,
+        trackVolumes: mixRef.current ? getExportTrackVolumes(mixRef.current) : new Map(),
+        masterVolume: volume / 100,
+      },
+      (progress) => setAudioExportProgress(Math.round(progress * 100))
+    );
+    audioExportRef.current = handle;
+    setAudioExportProgress(0);
+
+    try {
+      const blob = await handle.promise;
+      downloadBlob(blob, `${title}.wav`);
+      toast({ title: "Audio exported", description: `${title}.wav` });
+    } catch (error) {
+      if (error?.message !== "Export cancelled") {
+        console.error("Audio export failed:", error);
+        toast({ title: "Export failed", description: error?.message, variant: "destructive" });
+      }
+    } finally {
+      audioExportRef.current = null;
+      setAudioExportProgress(null);
     }
   };
 
-  const handleInstrumentChange = (trackIndex: number) => {
-    setSelectedInstrument(trackIndex);
-    if (api && tracks[trackIndex]) {
-      api.renderTracks([tracks[trackIndex]]);
+  const cancelExportAudio = () => {
+    audioExportRef.current?.cancel();
+  };
+
+  const handleLayoutChange = (newLayout: PlayerLayout) => {
+    setLayout(newLayout);
+    savePreferences({ layout: newLayout });
+    const LayoutMode = alphaTab.LayoutMode;
+    if (api && api.settings && LayoutMode) {
+      api.settings.display.layoutMode = newLayout === "horizontal" ? LayoutMode.Horizontal : LayoutMode.Page;
+      api.updateSettings();
+      api.render();
     }
   };
 
+  // The instrument effect regenerates the MIDI
   const handleSynthInstrumentChange = (instrument: typeof INSTRUMENTS[0]) => {
     setCurrentInstrument(instrument);
-    if (api) {
-      const program = instrument.program;
-      const wasPlaying = isPlaying;
-
-      // Prepare handler to rewrite all Program Change events except drums (channel 9)
-      const midiLoadHandler = (file: any) => {
-        try {
-          const MidiEventType = (window as any).alphaTab?.midi?.MidiEventType;
-          const events = file?.events ?? [];
-          for (const ev of events) {
-            const isProgramChange = MidiEventType
-              ? ev.type === MidiEventType.ProgramChange || ev.command === MidiEventType.ProgramChange
-              : ev.command === 0xC0;
-            if (isProgramChange && ev.channel !== 9) {
-              if (typeof ev.program === "number") ev.program = program;
-            }
-          }
-        } catch (err) {
-          console.warn("Failed to rewrite MIDI program changes:", err);
-        }
-      };
-
-      // Remove old handler if any, then attach the new one
-      if ((api as any)._midiLoadHandler) {
-        api.midiLoad.off((api as any)._midiLoadHandler);
-      }
-      (api as any)._midiLoadHandler = midiLoadHandler;
-      api.midiLoad.on(midiLoadHandler);
+  };
 
-      // Regenerate and reload the MIDI
-      if (typeof api.loadMidiForScore === "function") {
-        api.loadMidiForScore();
-        // Resume playback if it was playing before
-        if (wasPlaying) {
-          setTimeout(() => {
-            api.play();
-          }, 100);
-        }
-      }
-    }
+  // What each track plays without a session override, shown in the mixer
+  const storedPrograms = getTrackPrograms(tracks, trackInstruments ?? []);
+  const defaultPrograms = tracks.map((_, index) => storedPrograms[index] ?? currentInstrument.program);
+
+  const handleTrackProgramChange = (trackIndex: number, program: number | null) => {
+    setSessionPrograms((prev) => {
+      const next = { ...prev };
+      if (program === null) delete next[trackIndex];
+      else next[trackIndex] = program;
+      return next;
+    });
   };
 
   const handleVolumeChange = (value: number[]) => {
@@ -450,6 +726,28 @@ const AlphaTabControls = ({
     }
   };
 
+  const seekByBars = (delta: number) => {
+    if (!api) return;
+    const bar = findBarAtTick(api, api.tickPosition ?? 0);
+    if (bar !== null) seekToBar(api, Math.max(1, bar + delta));
+  };
+
+  // Tab players outrank the MP3 player for shortcuts
+  useShortcutHandlers(
+    {
+      togglePlayback: togglePlayPause,
+      seekBackward: () => seekByBars(-1),
+      seekForward: () => seekByBars(1),
+      toggleLoop,
+      tempoUp: () => handleBPMChange(5),
+      tempoDown: () => handleBPMChange(-5),
+      transposeUp: () => handleTranspose("up"),
+      transposeDown: () => handleTranspose("down"),
+    },
+    1,
+    shortcutPlayerId
+  );
+
   const handleExportPDF = () => {
     // Use AlphaTab print popup and auto-trigger the system print dialog (user can choose "Save as PDF")
     handlePrint();
@@ -462,100 +760,12 @@ const AlphaTabControls = ({
     }
   };
 
-  const toggleBackingTrack = () => {
-    console.log('[Track Button] Toggle clicked, current state:', backingTrackPlaying);
-    console.log('[Track Button] Audio ref exists:', !!backingTrackAudioRef.current);
-    console.log('[Track Button] API score exists:', !!api?.score);
-    
-    if (!backingTrackAudioRef.current) {
-      // Try to initialize backing track audio from the GPX file
-      console.log('[Track Button] Initializing audio from GPX...');
-      
-      if (api?.score) {
-        console.log('[Track Button] Score found, checking for audio...');
-        console.log('[Track Button] Score object:', api.score);
-        console.log('[Track Button] Number of tracks:', api.score.tracks?.length);
-        
-        // Check if score has audio property directly
-        if ((api.score as any).audio) {
-          console.log('[Track Button] Found audio in score.audio');
-          const audio = new Audio();
-          audio.src = (api.score as any).audio;
-          audio.loop = true;
-          backingTrackAudioRef.current = audio;
-        }
-        
-        // Also check tracks for audio data
-        if (api.score.tracks) {
-          api.score.tracks.forEach((track: any, idx: number) => {
-            console.log(`[Track Button] Track ${idx}:`, {
-              name: track.name,
-              hasPlaybackInfo: !!track.playbackInfo,
-              playbackInfo: track.playbackInfo
-            });
-          });
-          
-          const audioTrack = api.score.tracks.find((track: any) => 
-            track.playbackInfo?.primaryChannel === -1 || 
-            track.playbackInfo?.audio
-          );
-          
-          if (audioTrack?.playbackInfo?.audio) {
-            console.log('[Track Button] Found audio in track.playbackInfo.audio');
-            const audio = new Audio();
-            audio.src = audioTrack.playbackInfo.audio;
-            audio.loop = true;
-            backingTrackAudioRef.current = audio;
-          }
-        }
-        
-        if (!backingTrackAudioRef.current) {
-          console.log('[Track Button] No audio found in GPX file');
-        } else {
-          console.log('[Track Button] Audio initialized, attempting to play...');
-          // Auto-play on load since default is true
-          if (backingTrackPlaying) {
-            backingTrackAudioRef.current.play()
-              .then(() => console.log('[Track Button] Autoplay successful'))
-              .catch(err => console.log('[Track Button] Autoplay prevented:', err));
-          }
-        }
-      }
-    }
-
-    if (backingTrackAudioRef.current) {
-      console.log('[Track Button] Audio ref exists, toggling playback...');
-      if (backingTrackPlaying) {
-        backingTrackAudioRef.current.pause();
-        setBackingTrackPlaying(false);
-        console.log('[Track Button] Paused');
-      } else {
-        backingTrackAudioRef.current.play()
-          .then(() => {
-            setBackingTrackPlaying(true);
-            console.log('[Track Button] Playing');
-          })
-          .catch(err => console.log('[Track Button] Play failed:', err));
-      }
-    } else {
-      console.log('[Track Button] No audio ref available, cannot toggle');
-    }
-  };
-
-  // Auto-initialize backing track when score loads
-  useEffect(() => {
-    console.log('[Track Button] Score load effect triggered');
-    if (api?.score && backingTrackPlaying && !backingTrackAudioRef.current) {
-      console.log('[Track Button] Auto-initializing backing track...');
-      toggleBackingTrack();
-    }
-  }, [api?.score]);
-
   const toggleAutoScroll = () => {
     const newAutoScroll = !autoScroll;
     setAutoScroll(newAutoScroll);
+    savePreferences({ autoScroll: newAutoScroll });
     if (api && (api as any).settings) {
-      const ScrollMode = (window as any).alphaTab?.ScrollMode;
+      const ScrollMode = alphaTab.ScrollMode;
       if (ScrollMode) {
         // OffScreen mode keeps scrolling within the scrollElement (the tab container)
         (api as any).settings.player.scrollMode = newAutoScroll ? ScrollMode.OffScreen : ScrollMode.Off;
@@ -639,7 +849,7 @@ const AlphaTabControls = ({
                 onClick={toggleCountIn}
                 variant="ghost"
                 size="sm"
-                className={countIn ? "bg-accent" : ""}
+                className={`${countIn ? "bg-accent" : ""} ${countingIn ? "animate-pulse" : ""}`}
               >
                 <CircleDot className="h-4 w-4 mr-1" />
                 <span className="text-xs">Count</span>
@@ -653,6 +863,15 @@ const AlphaTabControls = ({
                 <Timer className="h-4 w-4 mr-1" />
                 <span className="text-xs">Metro</span>
               </Button>
+              <Button
+                onClick={() => setMetronomeOpen(!metronomeOpen)}
+                variant="ghost"
+                size="sm"
+                className={metronomeOpen ? "bg-accent" : ""}
+              >
+                <Drum className="h-4 w-4 mr-1" />
+                <span className="text-xs">Click</span>
+              </Button>
               <Button
                 onClick={toggleLoop}
                 variant="ghost"
@@ -662,6 +881,51 @@ const AlphaTabControls = ({
                 <Repeat className="h-4 w-4 mr-1" />
                 <span className="text-xs">Loop</span>
               </Button>
+              <Button
+                onClick={() => setPracticeOpen(!practiceOpen)}
+                variant="ghost"
+                size="sm"
+                className={practiceOpen ? "bg-accent" : ""}
+              >
+                <Gauge className="h-4 w-4 mr-1" />
+                <span className="text-xs">Practice</span>
+              </Button>
+              <Button
+                onClick={() => setMixerOpen(!mixerOpen)}
+                variant="ghost"
+                size="sm"
+                className={mixerOpen ? "bg-accent" : ""}
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-1" />
+                <span className="text-xs">Mixer</span>
+              </Button>
+              <Button
+                onClick={() => setAnnotationsOpen(!annotationsOpen)}
+                variant="ghost"
+                size="sm"
+                className={annotationsOpen ? "bg-accent" : ""}
+              >
+                <Bookmark className="h-4 w-4 mr-1" />
+                <span className="text-xs">Notes</span>
+              </Button>
+              <Button
+                onClick={() => setFretboardOpen(!fretboardOpen)}
+                variant="ghost"
+                size="sm"
+                className={fretboardOpen ? "bg-accent" : ""}
+              >
+                <Grid3x3 className="h-4 w-4 mr-1" />
+                <span className="text-xs">Fretboard</span>
+              </Button>
+              <Button
+                onClick={() => setPianoRollOpen(!pianoRollOpen)}
+                variant="ghost"
+                size="sm"
+                className={pianoRollOpen ? "bg-accent" : ""}
+              >
+                <Piano className="h-4 w-4 mr-1" />
+                <span className="text-xs">Keyboard</span>
+              </Button>
               <Button
                 onClick={toggleAutoScroll}
                 variant="ghost"
@@ -694,6 +958,14 @@ const AlphaTabControls = ({
                 >
                   <ChevronUp className="h-4 w-4" />
                 </Button>
+                <Button
+                  onClick={() => setGuitarTransposeOpen(true)}
+                  variant="ghost"
+                  size="sm"
+                  title="Guitar transpose: re-finger, retune, capo"
+                >
+                  <ArrowUpDown className="h-4 w-4" />
+                </Button>
               </div>
 
               <DropdownMenu>
@@ -766,15 +1038,40 @@ const AlphaTabControls = ({
                 <FileDown className="h-4 w-4 mr-1" />
                 <span className="text-xs">PDF</span>
               </Button>
-              <Button 
-                onClick={toggleBackingTrack} 
-                variant="ghost" 
+              <Button onClick={handleExportAudio} variant="ghost" size="sm" disabled={audioExportProgress !== null}>
+                <FileAudio className="h-4 w-4 mr-1" />
+                <span className="text-xs">WAV</span>
+              </Button>
+              <Button onClick={() => setScoreExportOpen(true)} variant="ghost" size="sm">
+                <FileOutput className="h-4 w-4 mr-1" />
+                <span className="text-xs">Export</span>
+              </Button>
+              <Button
+                onClick={() => setBackingTrackOpen(!backingTrackOpen)}
+                variant="ghost"
                 size="sm"
-                className={backingTrackPlaying ? "bg-accent" : ""}
+                className={backingTrackOpen ? "bg-accent" : ""}
               >
                 <Music className="h-4 w-4 mr-1" />
-                <span className="text-xs">Track</span>
+                <span className="text-xs">Audio</span>
               </Button>
+              {embedId && (
+                <Button onClick={handleCopyLink} variant="ghost" size="sm">
+                  <Link2 className="h-4 w-4 mr-1" />
+                  <span className="text-xs">Link</span>
+                </Button>
+              )}
+              <PlayerPreferencesMenu
+                layout={layout}
+                onLayoutChange={handleLayoutChange}
+                playerPreferences={playerPreferences}
+                embedId={embedId}
+              >
+                <Button variant="ghost" size="sm">
+                  <Settings2 className="h-4 w-4 mr-1" />
+                  <span className="text-xs">Settings</span>
+                </Button>
+              </PlayerPreferencesMenu>
               {onToggleScale && (
                 <Button
                   onClick={onToggleScale}
@@ -890,7 +1187,7 @@ const AlphaTabControls = ({
               variant="ghost"
               size={buttonSize}
               title="Count-In"
-              className={countIn ? "bg-accent" : ""}
+              className={`${countIn ? "bg-accent" : ""} ${countingIn ? "animate-pulse" : ""}`}
             >
               <CircleDot className={iconSize} />
             </Button>
@@ -903,6 +1200,15 @@ const AlphaTabControls = ({
             >
               <Timer className={iconSize} />
             </Button>
+            <Button
+              onClick={() => setMetronomeOpen(!metronomeOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Metronome & count-in settings"
+              className={metronomeOpen ? "bg-accent" : ""}
+            >
+              <Drum className={iconSize} />
+            </Button>
             <Button
               onClick={toggleLoop}
               variant="ghost"
@@ -912,6 +1218,15 @@ const AlphaTabControls = ({
             >
               <Repeat className={iconSize} />
             </Button>
+            <Button
+              onClick={() => setPracticeOpen(!practiceOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Practice loop & speed trainer"
+              className={practiceOpen ? "bg-accent" : ""}
+            >
+              <Gauge className={iconSize} />
+            </Button>
             <Button
               onClick={toggleAutoScroll}
               variant="ghost"
@@ -946,6 +1261,14 @@ const AlphaTabControls = ({
               >
                 <ChevronUp className={iconSize} />
               </Button>
+              <Button
+                onClick={() => setGuitarTransposeOpen(true)}
+                variant="ghost"
+                size={buttonSize}
+                title="Guitar transpose: re-finger, retune, capo"
+              >
+                <ArrowUpDown className={iconSize} />
+              </Button>
             </div>
 
             {/* Synth Instrument */}
@@ -1003,6 +1326,50 @@ const AlphaTabControls = ({
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
+
+            {/* Mixer */}
+            <Button
+              onClick={() => setMixerOpen(!mixerOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Track mixer"
+              className={mixerOpen ? "bg-accent" : ""}
+            >
+              <SlidersHorizontal className={iconSize} />
+            </Button>
+
+            {/* Bookmarks & notes */}
+            <Button
+              onClick={() => setAnnotationsOpen(!annotationsOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Bookmarks & notes"
+              className={annotationsOpen ? "bg-accent" : ""}
+            >
+              <Bookmark className={iconSize} />
+            </Button>
+
+            {/* Fretboard */}
+            <Button
+              onClick={() => setFretboardOpen(!fretboardOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Fretboard"
+              className={fretboardOpen ? "bg-accent" : ""}
+            >
+              <Grid3x3 className={iconSize} />
+            </Button>
+
+            {/* Keyboard & piano roll */}
+            <Button
+              onClick={() => setPianoRollOpen(!pianoRollOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Keyboard & piano roll"
+              className={pianoRollOpen ? "bg-accent" : ""}
+            >
+              <Piano className={iconSize} />
+            </Button>
           </div>
 
           {/* Zoom & Volume Section */}
@@ -1043,15 +1410,47 @@ const AlphaTabControls = ({
             <Button onClick={handleExportPDF} variant="ghost" size={buttonSize} title="Export PDF">
               <FileDown className={iconSize} />
             </Button>
-            <Button 
-              onClick={toggleBackingTrack} 
-              variant="ghost" 
+            <Button
+              onClick={handleExportAudio}
+              variant="ghost"
               size={buttonSize}
-              title="Toggle backing track"
-              className={backingTrackPlaying ? "bg-accent" : ""}
+              title="Export audio (WAV)"
+              disabled={audioExportProgress !== null}
+            >
+              <FileAudio className={iconSize} />
+            </Button>
+            <Button
+              onClick={() => setScoreExportOpen(true)}
+              variant="ghost"
+              size={buttonSize}
+              title="Export MIDI, MusicXML or alphaTex"
+            >
+              <FileOutput className={iconSize} />
+            </Button>
+            <Button
+              onClick={() => setBackingTrackOpen(!backingTrackOpen)}
+              variant="ghost"
+              size={buttonSize}
+              title="Recording and playback source"
+              className={backingTrackOpen ? "bg-accent" : ""}
             >
               <Music className={iconSize} />
             </Button>
+            {embedId && (
+              <Button onClick={handleCopyLink} variant="ghost" size={buttonSize} title="Copy link to here">
+                <Link2 className={iconSize} />
+              </Button>
+            )}
+            <PlayerPreferencesMenu
+              layout={layout}
+              onLayoutChange={handleLayoutChange}
+              playerPreferences={playerPreferences}
+              embedId={embedId}
+            >
+              <Button variant="ghost" size={buttonSize} title="Player settings">
+                <Settings2 className={iconSize} />
+              </Button>
+            </PlayerPreferencesMenu>
             {onToggleScale && (
               <Button
                 onClick={onToggleScale}
@@ -1089,6 +1488,85 @@ const AlphaTabControls = ({
           </p>
         </div>
       </div>
+
+      <ScoreExportDialog
+        open={scoreExportOpen}
+        onOpenChange={setScoreExportOpen}
+        api={api}
+        title={title}
+        transpose={transpose}
+        speed={playbackSpeed}
+      />
+
+      <GuitarTransposeDialog
+        open={guitarTransposeOpen}
+        onOpenChange={setGuitarTransposeOpen}
+        api={api}
+        isPlaying={isPlaying}
+        embedId={embedId}
+      />
+
+      {audioExportProgress !== null && (
+        <div className="border-t border-border bg-muted/20 px-3 py-2 flex items-center gap-3">
+          <FileAudio className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <span className="text-xs whitespace-nowrap">Rendering audio</span>
+          <Progress value={audioExportProgress} className="h-2 flex-1" />
+          <span className="text-xs text-muted-foreground min-w-[4ch] text-right">{audioExportProgress}%</span>
+          <Button onClick={cancelExportAudio} variant="ghost" size="sm" title="Cancel export" className="h-7 w-7 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Practice loop panel stays mounted so the loop survives hiding it */}
+      <div className={practiceOpen ? "" : "hidden"}>
+        <PracticeLoopPanel
+          api={api}
+          onSpeedChange={applyPlaybackSpeed}
+          onLoopChange={setLoop}
+          onRangeChange={(range) => (loopRangeRef.current = range)}
+          initialRange={deepLink?.loop}
+        />
+      </div>
+
+      <div className={metronomeOpen ? "" : "hidden"}>
+        <MetronomePanel api={api} settings={metronomeSettings} onChange={updateMetronomeSettings} />
+      </div>
+
+      <div className={mixerOpen ? "" : "hidden"}>
+        <TrackMixerPanel
+          api={api}
+          tracks={tracks}
+          isPlaying={isPlaying}
+          embedId={embedId}
+          onMixChange={(mix) => (mixRef.current = mix)}
+          defaultPrograms={defaultPrograms}
+          sessionPrograms={sessionPrograms}
+          onProgramChange={handleTrackProgramChange}
+          availableInstruments={availableInstruments}
+        />
+      </div>
+
+      <div className={annotationsOpen ? "" : "hidden"}>
+        <TabAnnotationsPanel api={api} embedId={embedId} />
+      </div>
+
+      <div className={fretboardOpen ? "" : "hidden"}>
+        <FretboardPanel
+          api={api}
+          track={tracks[selectedInstrument]}
+          open={fretboardOpen}
+          playerPreferences={playerPreferences}
+        />
+      </div>
+
+      <div className={pianoRollOpen ? "" : "hidden"}>
+        <PianoRollPanel api={api} tracks={tracks} open={pianoRollOpen} />
+      </div>
+
+      <div className={backingTrackOpen ? "" : "hidden"}>
+        <BackingTrackPanel api={api} embedId={embedId} isPlaying={isPlaying} backingTrack={backingTrack} />
+      </div>
     </div>
   );
 };
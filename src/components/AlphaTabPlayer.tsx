@@ -1,26 +1,33 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useId, useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
 import AlphaTabControls from "./AlphaTabControls";
+import TabAnnotationsOverlay from "./TabAnnotationsOverlay";
+import SectionNavigator from "./SectionNavigator";
+import { PlayerDeepLink } from "@/lib/deepLink";
+import type { BackingTrack } from "@/lib/backingTrack";
+import type { TrackInstrument } from "@/lib/trackInstruments";
+import { usePlayerPreferences } from "@/hooks/usePlayerPreferences";
+import { usePracticeTracker } from "@/hooks/usePracticeTracker";
+import { useAudioFocusSource } from "@/hooks/useAudioFocus";
 import { GripVertical } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { useSoundFontUrl } from "@/hooks/useSoundFontUrl";
+import { alphaTab, createAlphaTabApi } from "@/lib/alphaTab";
 import "./AlphaTabPlayer.css";
 
-declare global {
-  interface Window {
-    alphaTab: any;
-  }
-}
-
 interface AlphaTabPlayerProps {
   fileUrl?: string;
   file?: File;
   title?: string;
   onReset?: () => void;
   defaultInstrument?: { name: string; program: number } | null;
+  trackInstruments?: TrackInstrument[];
   onApiReady?: (api: any) => void;
+  embedId?: string;
+  deepLink?: PlayerDeepLink | null;
+  backingTrack?: BackingTrack | null;
 }
 
-const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onApiReady }: AlphaTabPlayerProps) => {
+const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, trackInstruments, onApiReady, embedId, deepLink, backingTrack }: AlphaTabPlayerProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const apiRef = useRef<any>(null);
@@ -28,40 +35,37 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
   const [isPlaying, setIsPlaying] = useState(false);
   const [tracks, setTracks] = useState<any[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [alphaTabLoaded, setAlphaTabLoaded] = useState<boolean>(!!window.alphaTab);
+  const soundFontUrl = useSoundFontUrl();
   const [containerWidth, setContainerWidth] = useState(80); // percentage
   const [containerHeight, setContainerHeight] = useState(1000); // pixels
   const [isHovered, setIsHovered] = useState(false);
   const [scaleControls, setScaleControls] = useState(true);
+  const [sectionNavigator, setSectionNavigator] = useState(true);
   const [soundFontLoading, setSoundFontLoading] = useState(false);
   const [soundFontReady, setSoundFontReady] = useState(false);
-  const [soundFontUrl, setSoundFontUrl] = useState<string>("https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/soundfont/sonivox.sf2");
-
-  // Load soundfont URL from settings
+  const playerPreferences = usePlayerPreferences(embedId);
+  // Keyboard shortcuts are registered by AlphaTabControls; clicks on the score or the controls focus this player
+  const shortcutPlayerId = useId();
+  // Pauses when another player starts; the MP3 player ducks under this one
+  const audioFocus = useAudioFocusSource({
+    id: shortcutPlayerId,
+    interruption: "pause",
+    pause: () => apiRef.current?.pause(),
+  });
+  // The player is created once per file; its handlers read the latest props from here
+  const latestRef = useRef({ preferences: playerPreferences.preferences, embedId, onApiReady });
+  latestRef.current = { preferences: playerPreferences.preferences, embedId, onApiReady };
+  usePracticeTracker(isLoading || error ? null : apiRef.current, embedId, isPlaying, tracks);
+
+  // Restore the saved player size
   useEffect(() => {
-    const loadSoundfontUrl = async () => {
-      try {
-        const { data, error } = await supabase
-          .from('app_settings')
-          .select('value')
-          .eq('key', 'soundfont_url')
-          .single();
-
-        if (error && error.code !== 'PGRST116') {
-          console.error("Error loading soundfont URL:", error);
-          return;
-        }
-
-        if (data?.value) {
-          setSoundFontUrl(data.value as string);
-        }
-      } catch (e) {
-        console.error("Failed to load soundfont URL:", e);
-      }
-    };
-
-    loadSoundfontUrl();
-  }, []);
+    if (!playerPreferences.version) return;
+    const { containerWidth, containerHeight, scaleControls, sectionNavigator } = latestRef.current.preferences;
+    setContainerWidth(containerWidth);
+    setContainerHeight(containerHeight);
+    setScaleControls(scaleControls);
+    setSectionNavigator(sectionNavigator);
+  }, [playerPreferences.version]);
 
   // Handle wheel events to enable scrolling on hover
   useEffect(() => {
@@ -78,85 +82,37 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
     return () => container.removeEventListener('wheel', handleWheel);
   }, [isHovered]);
 
-  // Handle spacebar to play/pause (only on guitar pages)
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Ignore if typing in input/textarea
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
-      
-      // Only handle spacebar on guitar pages (check if AlphaTab player exists)
-      if (e.code === "Space" && apiRef.current) {
-        e.preventDefault();
-        
-        // Pause MP3 player if it's playing
-        window.dispatchEvent(new CustomEvent('alphaTabPlay'));
-        
-        // Toggle AlphaTab playback
-        apiRef.current.playPause();
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyPress);
-    return () => document.removeEventListener("keydown", handleKeyPress);
-  }, []);
-
-  // Load AlphaTab script from CDN
-  useEffect(() => {
-    if (window.alphaTab) {
-      setAlphaTabLoaded(true);
-      return;
-    }
-
-    const script = document.createElement("script");
-    script.src = "https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/alphaTab.js";
-    script.async = true;
-    script.onload = () => {
-      setAlphaTabLoaded(true);
-    };
-    script.onerror = () => {
-      console.error("Failed to load AlphaTab CDN script");
-      setError("Failed to load AlphaTab player");
-      setIsLoading(false);
-    };
-    document.body.appendChild(script);
-
-    return () => {
-      script.onload = null;
-      script.onerror = null;
-      if (script.parentNode) {
-        script.parentNode.removeChild(script);
-      }
-    };
-  }, []);
-
   // Initialize AlphaTab
   useEffect(() => {
-    if (!containerRef.current || !alphaTabLoaded || !window.alphaTab) return;
+    if (!containerRef.current) return;
     if (apiRef.current) return;
     setIsLoading(true);
 
     try {
-      const api = new window.alphaTab.AlphaTabApi(containerRef.current, {
+      // Start with the saved zoom, layout and scrolling; AlphaTabControls re-applies them once loaded
+      const { preferences } = latestRef.current;
+      const api = createAlphaTabApi(containerRef.current, {
         core: {
-          fontDirectory: "https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/font/",
-          logLevel: window.alphaTab.LogLevel?.Debug ?? 1,
+          logLevel: alphaTab.LogLevel.Debug,
         },
         display: {
-          layoutMode: window.alphaTab.LayoutMode.Page,
-          staveProfile: window.alphaTab.StaveProfile.Default,
-          scale: 1.0,
+          layoutMode: preferences.layout === "horizontal"
+            ? alphaTab.LayoutMode.Horizontal
+            : alphaTab.LayoutMode.Page,
+          staveProfile: alphaTab.StaveProfile.Default,
+          scale: preferences.zoom / 100,
           resources: {
             secondaryGlyphColor: 'rgb(0, 0, 0)', // Make voice 2 same weight as voice 1
           },
         },
         notation: {
-          notationMode: window.alphaTab.NotationMode.GuitarPro, // Enable GuitarPro effects like brush strokes
+          notationMode: alphaTab.NotationMode.GuitarPro, // Enable GuitarPro effects like brush strokes
         },
         player: {
           enablePlayer: true,
           soundFont: soundFontUrl,
           enableCursor: true,
-          scrollMode: window.alphaTab.ScrollMode.OffScreen,
+          scrollMode: preferences.autoScroll ? alphaTab.ScrollMode.OffScreen : alphaTab.ScrollMode.Off,
           scrollElement: containerRef.current, // This is the actual scrollable container
         },
       });
@@ -165,27 +121,25 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
       
       // Enable debug logging for synth and bridge worker messages
       try {
-        if (api.synth && typeof api.synth.logLevel !== 'undefined') {
-          api.synth.logLevel = window.alphaTab.LogLevel?.Debug ?? 1;
-        }
-        
-        // Bridge soundFontLoadFailed events to window
-        if (api.synth?.soundFontLoadFailed) {
-          api.synth.soundFontLoadFailed.on((details: any) => {
+        const player = api.player;
+        if (player) {
+          player.logLevel = alphaTab.LogLevel.Debug;
+
+          // Bridge soundFontLoadFailed events to window
+          player.soundFontLoadFailed.on((details) => {
             window.dispatchEvent(new CustomEvent('alphatab-sf-failed', { detail: details }));
           });
-        }
-        
-        // Bridge midiLoadFailed events
-        if (api.midiLoadFailed) {
-          api.midiLoadFailed.on((err: any) => {
+
+          // Bridge midiLoadFailed events
+          player.midiLoadFailed.on((err) => {
             window.dispatchEvent(new CustomEvent('alphatab-midi-failed', { detail: err }));
           });
         }
-        
-        // Bridge raw worker messages if available
-        if (api.synth?.worker) {
-          api.synth.worker.addEventListener('message', (evt: MessageEvent) => {
+
+        // Bridge raw worker messages if available (not part of AlphaTab's typed API)
+        const worker = (player as { worker?: Worker } | null)?.worker;
+        if (worker) {
+          worker.addEventListener('message', (evt: MessageEvent) => {
             if (evt?.data?.type === 'log') {
               window.dispatchEvent(new CustomEvent('alphatab-worker-log', { detail: evt.data }));
             }
@@ -196,7 +150,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
       }
       
       // Notify parent component that API is ready
-      onApiReady?.(api);
+      latestRef.current.onApiReady?.(api);
 
       // Monitor soundfont loading
       setSoundFontLoading(true);
@@ -213,42 +167,46 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
 
       // Event listeners
       api.playerStateChanged.on((e: any) => {
-        setIsPlaying(e.state === 1);
+        const playing = e.state === 1;
+        setIsPlaying(playing);
+        if (playing) {
+          audioFocus.requestFocus(shortcutPlayerId);
+        } else {
+          audioFocus.releaseFocus(shortcutPlayerId);
+        }
+        audioFocus.reportState(shortcutPlayerId, { trackId: latestRef.current.embedId ?? null, isPlaying: playing });
       });
 
       api.scoreLoaded.on((score: any) => {
         setTracks(score.tracks);
         // Notify parent again after score is loaded
-        onApiReady?.(api);
+        latestRef.current.onApiReady?.(api);
         // Ensure score header shows title and transcriber (arranger) on print and screen
         try {
-          const at = window.alphaTab;
-          if (at?.model && at?.platform) {
-            if (!score.style) {
-              score.style = new at.model.ScoreStyle();
-            }
-            const HeaderFooterStyle = at.model.HeaderFooterStyle;
-            const ScoreSubElement = at.model.ScoreSubElement;
-            const TextAlign = at.platform.TextAlign;
-
-            // Title on the left (keeps default if already set)
-            score.style.headerAndFooter.set(
-              ScoreSubElement.Title,
-              new HeaderFooterStyle("%TITLE%", true, TextAlign.Left)
-            );
-
-            // Transcriber on the right as "arr. <name>"
-            score.style.headerAndFooter.set(
-              ScoreSubElement.Transcriber,
-              new HeaderFooterStyle("arr. %TABBER%", true, TextAlign.Right)
-            );
-
-            // Re-render score to apply header/footer style
-            if (typeof api.renderScore === 'function') {
-              api.renderScore(score);
-            } else {
-              api.render();
-            }
+          if (!score.style) {
+            score.style = new alphaTab.model.ScoreStyle();
+          }
+          const HeaderFooterStyle = alphaTab.model.HeaderFooterStyle;
+          const ScoreSubElement = alphaTab.model.ScoreSubElement;
+          const TextAlign = alphaTab.platform.TextAlign;
+
+          // Title on the left (keeps default if already set)
+          score.style.headerAndFooter.set(
+            ScoreSubElement.Title,
+            new HeaderFooterStyle("%TITLE%", true, TextAlign.Left)
+          );
+
+          // Transcriber on the right as "arr. <name>"
+          score.style.headerAndFooter.set(
+            ScoreSubElement.Transcriber,
+            new HeaderFooterStyle("arr. %TABBER%", true, TextAlign.Right)
+          );
+
+          // Re-render score to apply header/footer style
+          if (typeof api.renderScore === 'function') {
+            api.renderScore(score);
+          } else {
+            api.render();
           }
         } catch (e) {
           console.warn("Failed to apply header/footer style:", e);
@@ -283,7 +241,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
         apiRef.current = null;
       }
     };
-  }, [alphaTabLoaded, fileUrl, file, soundFontUrl]);
+  }, [fileUrl, file, soundFontUrl, audioFocus, shortcutPlayerId]);
 
   const loadFile = async (api: any) => {
     try {
@@ -331,6 +289,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
     e.preventDefault();
     const startX = 'touches' in e ? e.touches[0].clientX : e.clientX;
     const startWidth = containerWidth;
+    let newWidth = startWidth;
     
     const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
       const clientX = 'touches' in moveEvent ? moveEvent.touches[0].clientX : moveEvent.clientX;
@@ -338,14 +297,14 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
       const parentWidth = wrapperRef.current?.parentElement?.offsetWidth || 1000;
       const deltaPercent = (deltaX / parentWidth) * 100;
       
-      let newWidth;
       if (direction === 'left') {
         newWidth = startWidth - (deltaPercent * 2);
       } else {
         newWidth = startWidth + (deltaPercent * 2);
       }
+      newWidth = Math.max(50, Math.min(500, newWidth));
       
-      setContainerWidth(Math.max(50, Math.min(500, newWidth)));
+      setContainerWidth(newWidth);
     };
     
     const handleEnd = () => {
@@ -355,6 +314,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
       document.removeEventListener('touchend', handleEnd);
       document.body.style.cursor = '';
       document.body.style.userSelect = '';
+      if (newWidth !== startWidth) playerPreferences.updatePreferences({ containerWidth: newWidth });
     };
     
     document.addEventListener('mousemove', handleMove as any);
@@ -369,19 +329,20 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
     e.preventDefault();
     const startY = 'touches' in e ? e.touches[0].clientY : e.clientY;
     const startHeight = containerHeight;
+    let newHeight = startHeight;
     
     const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
       const clientY = 'touches' in moveEvent ? moveEvent.touches[0].clientY : moveEvent.clientY;
       const deltaY = clientY - startY;
       
-      let newHeight;
       if (direction === 'top') {
         newHeight = startHeight - (deltaY * 2);
       } else {
         newHeight = startHeight + (deltaY * 2);
       }
+      newHeight = Math.max(300, Math.min(2000, newHeight));
       
-      setContainerHeight(Math.max(300, Math.min(2000, newHeight)));
+      setContainerHeight(newHeight);
     };
     
     const handleEnd = () => {
@@ -391,6 +352,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
       document.removeEventListener('touchend', handleEnd);
       document.body.style.cursor = '';
       document.body.style.userSelect = '';
+      if (newHeight !== startHeight) playerPreferences.updatePreferences({ containerHeight: newHeight });
     };
     
     document.addEventListener('mousemove', handleMove as any);
@@ -404,7 +366,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
   return (
     <>
       {/* Tablature Display - Custom Resizable */}
-      <div ref={wrapperRef} className="relative w-full flex justify-center overflow-visible">
+      <div ref={wrapperRef} data-shortcut-player={shortcutPlayerId} className="relative w-full flex justify-center overflow-visible">
         <div 
           className="group relative transition-all duration-200" 
           style={{ 
@@ -469,25 +431,40 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
               </div>
             )}
 
-            <div className="relative h-full">
-              <div ref={containerRef} className="alphatab-container h-full" />
-              {isLoading && (
-                <div className="absolute inset-0 flex items-center justify-center bg-card/60 backdrop-blur-sm">
-                  <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                  <span className="ml-3 text-muted-foreground">Loading score...</span>
-                </div>
-              )}
-              {soundFontLoading && !isLoading && (
-                <div className="absolute top-4 right-4 flex items-center gap-2 bg-muted/90 backdrop-blur-sm px-3 py-2 rounded-lg">
-                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                  <span className="text-xs text-muted-foreground">Loading high-quality soundfont...</span>
-                </div>
-              )}
-              {soundFontReady && !isLoading && (
-                <div className="absolute top-4 right-4 bg-primary/10 backdrop-blur-sm px-3 py-2 rounded-lg animate-in fade-in duration-500">
-                  <span className="text-xs text-primary font-medium">✓ Premium soundfont ready</span>
-                </div>
+            <div className="flex h-full gap-3">
+              {!isLoading && apiRef.current && (
+                <SectionNavigator
+                  api={apiRef.current}
+                  open={sectionNavigator}
+                  onOpenChange={(open) => {
+                    setSectionNavigator(open);
+                    playerPreferences.updatePreferences({ sectionNavigator: open });
+                  }}
+                />
               )}
+              <div className="relative h-full flex-1 min-w-0">
+                <div ref={containerRef} className="alphatab-container h-full" />
+                {!isLoading && apiRef.current && (
+                  <TabAnnotationsOverlay api={apiRef.current} embedId={embedId} />
+                )}
+                {isLoading && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-card/60 backdrop-blur-sm">
+                    <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                    <span className="ml-3 text-muted-foreground">Loading score...</span>
+                  </div>
+                )}
+                {soundFontLoading && !isLoading && (
+                  <div className="absolute top-4 right-4 flex items-center gap-2 bg-muted/90 backdrop-blur-sm px-3 py-2 rounded-lg">
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                    <span className="text-xs text-muted-foreground">Loading high-quality soundfont...</span>
+                  </div>
+                )}
+                {soundFontReady && !isLoading && (
+                  <div className="absolute top-4 right-4 bg-primary/10 backdrop-blur-sm px-3 py-2 rounded-lg animate-in fade-in duration-500">
+                    <span className="text-xs text-primary font-medium">✓ Premium soundfont ready</span>
+                  </div>
+                )}
+              </div>
             </div>
           </Card>
 
@@ -500,7 +477,7 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
 
       {/* Professional Player Controls */}
       {!isLoading && !error && apiRef.current && (
-        <div className="relative w-full flex justify-center mt-6">
+        <div data-shortcut-player={shortcutPlayerId} className="relative w-full flex justify-center mt-6">
           <div 
             className="transition-all duration-200"
             style={{ 
@@ -520,8 +497,17 @@ const AlphaTabPlayer = ({ fileUrl, file, title, onReset, defaultInstrument, onAp
               onOpenFile={onReset}
               tracks={tracks}
               defaultInstrument={defaultInstrument}
+              trackInstruments={trackInstruments}
               scaleControls={scaleControls}
-              onToggleScale={() => setScaleControls(!scaleControls)}
+              onToggleScale={() => {
+                setScaleControls(!scaleControls);
+                playerPreferences.updatePreferences({ scaleControls: !scaleControls });
+              }}
+              embedId={embedId}
+              deepLink={deepLink}
+              playerPreferences={playerPreferences}
+              shortcutPlayerId={shortcutPlayerId}
+              backingTrack={backingTrack}
             />
           </div>
         </div>
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, CheckCircle2, Eye, FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { parseAsciiTab } from "@/lib/asciiTab";
+import AlphaTabPlayer from "./AlphaTabPlayer";
+
+interface AsciiTabImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AsciiTabImportDialog = ({ open, onOpenChange }: AsciiTabImportDialogProps) => {
+  const navigate = useNavigate();
+  const [title, setTitle] = useState("");
+  const [text, setText] = useState("");
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setTitle("");
+      setText("");
+      setPreviewFile(null);
+    }
+  }, [open]);
+
+  const result = useMemo(() => (text.trim() ? parseAsciiTab(text, { title }) : null), [text, title]);
+  const barCount = result?.tracks[0]?.bars ?? 0;
+
+  // The preview is only rebuilt on request, as the player is recreated for every file
+  useEffect(() => {
+    setPreviewFile(null);
+  }, [result]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setText(await selected.text());
+    if (!title) setTitle(selected.name.replace(/\.[^.]+$/, ""));
+  };
+
+  const openInEditor = () => {
+    if (!result) return;
+    onOpenChange(false);
+    navigate("/admin/guitar/editor", { state: { alphaTex: result.tex } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import ASCII tab</DialogTitle>
+          <DialogDescription>
+            Paste plain-text tab or open a .txt file. Rhythm is estimated from the spacing between notes, so check
+            the result in the editor before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="asciiTitle">Title</Label>
+              <Input
+                id="asciiTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Imported tab"
+              />
+            </div>
+            <div>
+              <Label htmlFor="asciiFile">Text file</Label>
+              <Input id="asciiFile" type="file" accept=".txt,.tab,text/plain" onChange={handleFileChange} />
+            </div>
+          </div>
+
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"e|---0---3h5---|\nB|---1---------|\n..."}
+            spellCheck={false}
+            className="font-mono text-xs min-h-[240px] whitespace-pre"
+            wrap="off"
+          />
+
+          {result && (
+            <div className="space-y-3">
+              {result.tracks.length === 0 ? (
+                <p className="text-sm text-destructive">No tab staves were found.</p>
+              ) : (
+                <p className="text-sm flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-primary" />
+                  {barCount} {barCount === 1 ? "bar" : "bars"} in{" "}
+                  {result.tracks.map((track) => `${track.name} (${track.strings} strings)`).join(", ")}
+                </p>
+              )}
+
+              {result.issues.length > 0 && (
+                <div className="rounded-md border border-border p-3 space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                    {result.issues.length} {result.issues.length === 1 ? "line was" : "lines were"} not fully
+                    interpreted
+                  </p>
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {result.issues.map((issue, i) => (
+                      <div key={i} className="text-xs grid grid-cols-[3rem_1fr] gap-2">
+                        <span className="text-muted-foreground text-right">{issue.line}</span>
+                        <div className="min-w-0">
+                          <p className="font-mono truncate">{issue.text.trim() || " "}</p>
+                          <p className="text-muted-foreground">{issue.reason}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={result.tracks.length === 0}
+                  onClick={() => setPreviewFile(new File([result.tex], "import.alphatex"))}
+                >
+                  <Eye className="h-4 w-4" />
+                  Preview
+                </Button>
+                <Button className="gap-2" disabled={result.tracks.length === 0} onClick={openInEditor}>
+                  <FileCode className="h-4 w-4" />
+                  Open in alphaTex editor
+                </Button>
+              </div>
+
+              {previewFile && <AlphaTabPlayer file={previewFile} title={title || "Imported tab"} />}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AsciiTabImportDialog;
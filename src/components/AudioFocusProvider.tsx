@@ -0,0 +1,10 @@
+import { useRef, ReactNode } from "react";
+import { AudioFocusContext } from "@/hooks/audioFocusContext";
+import { AudioFocusManager } from "@/lib/audioFocus";
+
+export const AudioFocusProvider = ({ children }: { children: ReactNode }) => {
+  const managerRef = useRef<AudioFocusManager>();
+  if (!managerRef.current) managerRef.current = new AudioFocusManager();
+
+  return <AudioFocusContext.Provider value={managerRef.current}>{children}</AudioFocusContext.Provider>;
+};
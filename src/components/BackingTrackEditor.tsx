@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Crosshair, Plus, Save, Trash2, Upload } from "lucide-react";
+import {
+  BackingTrack,
+  BackingTrackSyncPoint,
+  formatRecordingTime,
+  getSyncPositionAtTick,
+  sortSyncPoints,
+} from "@/lib/backingTrack";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+
+interface BackingTrackEditorProps {
+  api: AlphaTabApi | null;
+  embedId: string;
+  backingTrack: BackingTrack | null;
+}
+
+interface MusicTrack {
+  id: string;
+  title: string;
+  artist: string | null;
+  file_url: string;
+}
+
+const BackingTrackEditor = ({ api, embedId, backingTrack }: BackingTrackEditorProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState<string | null>(backingTrack?.url ?? null);
+  const [syncPoints, setSyncPoints] = useState<BackingTrackSyncPoint[]>(backingTrack?.syncPoints ?? []);
+  const [uploading, setUploading] = useState(false);
+  const previewRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    setUrl(backingTrack?.url ?? null);
+    setSyncPoints(backingTrack?.syncPoints ?? []);
+  }, [backingTrack]);
+
+  const { data: musicTracks = [] } = useQuery({
+    queryKey: ["music-tracks"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("music_tracks")
+        .select("*")
+        .order("display_order", { ascending: true });
+
+      if (error) throw error;
+      return data as MusicTrack[];
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: BackingTrack | null) => {
+      const { error } = await supabase
+        .from("guitar_embeds")
+        .update({
+          backing_track_url: next?.url ?? null,
+          backing_track_sync_points: (next ? sortSyncPoints(next.syncPoints) : []) as unknown as Json,
+        })
+        .eq("id", embedId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, next) => {
+      queryClient.invalidateQueries({ queryKey: ["guitar-embed", embedId] });
+      toast({ title: next ? "Recording saved" : "Recording removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+
+    try {
+      const fileExt = file.name.split(".").pop();
+      const filePath = `${Math.random()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("music")
+        .upload(filePath, file);
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from("music")
+        .getPublicUrl(filePath);
+
+      setUrl(publicUrl);
+      toast({ title: "Recording uploaded", description: "Add sync points and save to attach it" });
+    } catch (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  // Pairs the tab cursor with the current position of the preview player
+  const addAtCursor = () => {
+    const position = getSyncPositionAtTick(api, api?.tickPosition ?? 0);
+    if (!position) return;
+    const millisecondOffset = Math.round((previewRef.current?.currentTime ?? 0) * 1000);
+    setSyncPoints((points) =>
+      sortSyncPoints([
+        ...points.filter(
+          (p) =>
+            !(p.barIndex === position.barIndex && p.barOccurence === position.barOccurence && p.barPosition === position.barPosition)
+        ),
+        { ...position, millisecondOffset },
+      ])
+    );
+  };
+
+  const addEmpty = () => {
+    const last = syncPoints[syncPoints.length - 1];
+    setSyncPoints([
+      ...syncPoints,
+      {
+        barIndex: last ? last.barIndex + 1 : 0,
+        barPosition: 0,
+        barOccurence: 0,
+        millisecondOffset: last ? last.millisecondOffset + 1000 : 0,
+      },
+    ]);
+  };
+
+  const updatePoint = (index: number, changes: Partial<BackingTrackSyncPoint>) => {
+    setSyncPoints(syncPoints.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const removePoint = (index: number) => {
+    setSyncPoints(syncPoints.filter((_, i) => i !== index));
+  };
+
+  const isUploadedFile = url && !musicTracks.some((t) => t.file_url === url);
+
+  return (
+    <div className="space-y-3 border-t border-border pt-3">
+      <div className="text-xs font-semibold">Recording (admin)</div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1 min-w-[200px] flex-1">
+          <Label className="text-xs">From the music library</Label>
+          <Select value={url && !isUploadedFile ? url : ""} onValueChange={setUrl}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder={isUploadedFile ? "Uploaded file" : "Choose a track"} />
+            </SelectTrigger>
+            <SelectContent>
+              {musicTracks.map((track) => (
+                <SelectItem key={track.id} value={track.file_url} className="text-xs">
+                  {track.title}
+                  {track.artist ? ` - ${track.artist}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Or upload</Label>
+          <Button variant="outline" size="sm" className="h-8" disabled={uploading} asChild>
+            <label htmlFor={`backing-upload-${embedId}`} className="cursor-pointer">
+              <Upload className="h-3.5 w-3.5 mr-1" />
+              {uploading ? "Uploading..." : "Audio file"}
+            </label>
+          </Button>
+          <input
+            id={`backing-upload-${embedId}`}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={handleFileUpload}
+            disabled={uploading}
+          />
+        </div>
+      </div>
+
+      {url && (
+        <>
+          <audio ref={previewRef} src={url} controls preload="metadata" className="w-full h-8" />
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                Sync points: move the tab cursor and the recording to the same spot, then add a point
+              </span>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={addAtCursor}>
+                  <Crosshair className="h-3.5 w-3.5 mr-1" />
+                  At cursor
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={addEmpty}>
+                  <Plus className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+
+            {syncPoints.length > 0 && (
+              <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-1 items-center text-xs">
+                <span className="text-muted-foreground">Bar</span>
+                <span className="text-muted-foreground">Position in bar</span>
+                <span className="text-muted-foreground">Repeat</span>
+                <span className="text-muted-foreground">Time (s)</span>
+                <span />
+                {syncPoints.map((point, index) => (
+                  <div key={index} className="contents">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={point.barIndex + 1}
+                      onChange={(e) => updatePoint(index, { barIndex: Math.max(0, Number(e.target.value) - 1) })}
+                      className="h-7 text-xs"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={0.999}
+                      step={0.05}
+                      value={point.barPosition}
+                      onChange={(e) =>
+                        updatePoint(index, { barPosition: Math.min(0.999, Math.max(0, Number(e.target.value))) })
+                      }
+                      className="h-7 text-xs"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      value={point.barOccurence + 1}
+                      onChange={(e) => updatePoint(index, { barOccurence: Math.max(0, Number(e.target.value) - 1) })}
+                      className="h-7 text-xs"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={point.millisecondOffset / 1000}
+                      title={formatRecordingTime(point.millisecondOffset)}
+                      onChange={(e) =>
+                        updatePoint(index, { millisecondOffset: Math.max(0, Math.round(Number(e.target.value) * 1000)) })
+                      }
+                      className="h-7 text-xs"
+                    />
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => removePoint(index)}>
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="h-8"
+          disabled={!url || saveMutation.isPending}
+          onClick={() => url && saveMutation.mutate({ url, syncPoints })}
+        >
+          <Save className="h-3.5 w-3.5 mr-1" />
+          Save recording
+        </Button>
+        {backingTrack && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            disabled={saveMutation.isPending}
+            onClick={() => saveMutation.mutate(null)}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-1" />
+            Remove
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackingTrackEditor;
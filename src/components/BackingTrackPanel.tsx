@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { AudioLines, Volume2 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { alphaTab, type AlphaTabApi } from "@/lib/alphaTab";
+import BackingTrackEditor from "./BackingTrackEditor";
+import {
+  BackingTrack,
+  PLAYBACK_SOURCES,
+  PlaybackSource,
+  attachBackingTrack,
+  buildSyncMap,
+  getRecordingTime,
+  setPlaybackSource,
+  updateSyncPoints,
+} from "@/lib/backingTrack";
+
+interface BackingTrackPanelProps {
+  api: AlphaTabApi | null;
+  embedId?: string;
+  isPlaying: boolean;
+  backingTrack?: BackingTrack | null;
+}
+
+// Beyond this the recording is re-seeked instead of nudged through its playback rate
+const MAX_DRIFT_MS = 150;
+
+const BackingTrackPanel = ({ api, embedId, isPlaying, backingTrack }: BackingTrackPanelProps) => {
+  const { isAdmin, isEditMode } = useAuth();
+  const { toast } = useToast();
+  const [source, setSource] = useState<PlaybackSource>("synth");
+  const [loadingAudio, setLoadingAudio] = useState(false);
+  const [recordingVolume, setRecordingVolume] = useState(80);
+  const audioBytesRef = useRef<{ url: string; bytes: Uint8Array } | null>(null);
+  const followerRef = useRef<HTMLAudioElement | null>(null);
+  const syncMapRef = useRef<ReturnType<typeof buildSyncMap>>([]);
+
+  const url = backingTrack?.url ?? null;
+  const syncPoints = backingTrack?.syncPoints ?? [];
+
+  const loadAudio = async (audioUrl: string) => {
+    if (audioBytesRef.current?.url === audioUrl) return audioBytesRef.current.bytes;
+    const response = await fetch(audioUrl);
+    if (!response.ok) throw new Error(`HTTP ${response.status} when fetching recording`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    audioBytesRef.current = { url: audioUrl, bytes };
+    return bytes;
+  };
+
+  const handleSourceChange = async (next: PlaybackSource) => {
+    if (!api || next === source) return;
+    if (next !== "synth" && !url) return;
+
+    try {
+      if (next !== "synth") {
+        setLoadingAudio(true);
+        const bytes = await loadAudio(url!);
+        attachBackingTrack(api, bytes, syncPoints);
+        syncMapRef.current = buildSyncMap(api);
+      }
+      setPlaybackSource(api, next);
+      setSource(next);
+    } catch (error) {
+      console.error("Failed to switch playback source:", error);
+      toast({ title: "Could not load the recording", description: error?.message, variant: "destructive" });
+    } finally {
+      setLoadingAudio(false);
+    }
+  };
+
+  // Back to the synth when the recording is removed
+  useEffect(() => {
+    if (!url && source !== "synth") {
+      setPlaybackSource(api, "synth");
+      setSource("synth");
+    }
+  }, [api, url, source]);
+
+  // Saved sync point edits apply immediately
+  useEffect(() => {
+    if (!api?.score?.backingTrack || !backingTrack || source === "synth") return;
+    updateSyncPoints(api, backingTrack.syncPoints);
+    syncMapRef.current = buildSyncMap(api);
+  }, [api, backingTrack, source]);
+
+  // "Both": the synth drives the cursor and the recording follows it
+  useEffect(() => {
+    if (source !== "both" || !url || !api) return;
+
+    const audio = new Audio(url);
+    audio.preload = "auto";
+    followerRef.current = audio;
+
+    const follow = (forceSeek: boolean) => {
+      const speed = api.playbackSpeed || 1;
+      // timePosition is wall-clock time at the current speed; sync points use the original tempo
+      const { time, rate } = getRecordingTime(syncMapRef.current, api.timePosition * speed);
+      audio.playbackRate = Math.max(0.25, Math.min(4, speed * rate));
+      if (forceSeek || Math.abs(audio.currentTime * 1000 - time) > MAX_DRIFT_MS) {
+        audio.currentTime = Math.max(0, time / 1000);
+      }
+    };
+
+    const handleStateChanged = (e: alphaTab.synth.PlayerStateChangedEventArgs) => {
+      if (e.state === alphaTab.synth.PlayerState.Playing) {
+        follow(true);
+        audio.play().catch((err) => console.warn("Recording playback failed:", err));
+      } else {
+        audio.pause();
+      }
+    };
+    const handlePositionChanged = (e: alphaTab.synth.PositionChangedEventArgs) => {
+      if (!audio.paused || e.isSeek) follow(!!e.isSeek);
+    };
+
+    api.playerStateChanged.on(handleStateChanged);
+    api.playerPositionChanged.on(handlePositionChanged);
+    return () => {
+      api.playerStateChanged.off(handleStateChanged);
+      api.playerPositionChanged.off(handlePositionChanged);
+      audio.pause();
+      audio.removeAttribute("src");
+      followerRef.current = null;
+    };
+  }, [source, url, api]);
+
+  useEffect(() => {
+    if (followerRef.current) followerRef.current.volume = recordingVolume / 100;
+  }, [recordingVolume, source]);
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <AudioLines className="h-4 w-4 text-muted-foreground" />
+          <span className="text-xs font-semibold">Audio</span>
+        </div>
+
+        {url ? (
+          <>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={source}
+              onValueChange={(value) => value && handleSourceChange(value as PlaybackSource)}
+              disabled={loadingAudio || isPlaying}
+            >
+              {PLAYBACK_SOURCES.map((s) => (
+                <ToggleGroupItem key={s.value} value={s.value} className="h-7 text-xs">
+                  {s.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {loadingAudio && <span className="text-xs text-muted-foreground">Loading recording...</span>}
+            {source === "both" && (
+              <div className="flex items-center gap-2 min-w-[160px] flex-1 max-w-xs">
+                <Volume2 className="h-3.5 w-3.5 text-muted-foreground" />
+                <Slider
+                  value={[recordingVolume]}
+                  onValueChange={(value) => setRecordingVolume(value[0])}
+                  max={100}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="text-xs text-muted-foreground min-w-[4ch] text-right">{recordingVolume}%</span>
+              </div>
+            )}
+            {syncPoints.length === 0 && (
+              <span className="text-xs text-muted-foreground">The recording has no sync points yet</span>
+            )}
+          </>
+        ) : (
+          <span className="text-xs text-muted-foreground">No recording is attached to this tab</span>
+        )}
+      </div>
+
+      {isAdmin && isEditMode && embedId && (
+        <BackingTrackEditor api={api} embedId={embedId} backingTrack={backingTrack ?? null} />
+      )}
+    </div>
+  );
+};
+
+export default BackingTrackPanel;
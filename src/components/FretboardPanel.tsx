@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PlayerPreferencesState } from "@/hooks/usePlayerPreferences";
+import type { alphaTab, AlphaTabApi, Beat, Track } from "@/lib/alphaTab";
+import { DEFAULT_PLAYER_PREFERENCES, PlayerPreferences } from "@/lib/playerPreferences";
+import { pitchClassName } from "@/lib/pitch";
+import {
+  DOUBLE_FRET_MARKERS,
+  FRETBOARD_LABELS,
+  FRET_MARKERS,
+  FretboardLabels,
+  getBeatKey,
+  getBeatNotes,
+  getFretCount,
+  getNoteLabel,
+  getStringTunings,
+} from "@/lib/fretboard";
+
+interface FretboardPanelProps {
+  api: AlphaTabApi | null;
+  // The track shown in the score
+  track: Track | null;
+  // Beats are only looked up while the panel is visible
+  open: boolean;
+  playerPreferences?: PlayerPreferencesState;
+}
+
+const FRET_WIDTH = 48;
+const OPEN_WIDTH = 36;
+const STRING_GAP = 22;
+const MARGIN = 16;
+
+type FretboardOptions = Pick<PlayerPreferences, "fretboardLeftHanded" | "fretboardLabels">;
+
+const FretboardPanel = ({ api, track, open, playerPreferences }: FretboardPanelProps) => {
+  const [beat, setBeat] = useState<Beat | null>(null);
+  const tickRef = useRef(0);
+  // Used when the player has no stored preferences (previews)
+  const [localOptions, setLocalOptions] = useState<FretboardOptions>({
+    fretboardLeftHanded: DEFAULT_PLAYER_PREFERENCES.fretboardLeftHanded,
+    fretboardLabels: DEFAULT_PLAYER_PREFERENCES.fretboardLabels,
+  });
+  const options = playerPreferences ? playerPreferences.preferences : localOptions;
+  const updateOptions = (changes: Partial<FretboardOptions>) => {
+    if (playerPreferences) {
+      playerPreferences.updatePreferences(changes);
+    } else {
+      setLocalOptions((current) => ({ ...current, ...changes }));
+    }
+  };
+
+  // Follow the cursor: during playback and when seeking or clicking while paused
+  useEffect(() => {
+    if (!api || !track || !open) return;
+    const trackLookup = new Set<number>([track.index]);
+    let hint: alphaTab.midi.MidiTickLookupFindBeatResult | null = null;
+
+    const update = (tick: number) => {
+      tickRef.current = tick;
+      const result = api.tickCache?.findBeat(trackLookup, tick, hint) ?? null;
+      hint = result;
+      setBeat(result?.beat ?? null);
+    };
+
+    const positionHandler = (e: alphaTab.synth.PositionChangedEventArgs) => {
+      update(e.currentTick);
+    };
+
+    update(tickRef.current);
+    api.playerPositionChanged.on(positionHandler);
+    return () => {
+      api.playerPositionChanged.off(positionHandler);
+    };
+  }, [api, track, open]);
+
+  // Transposing changes the tuning and frets of the same track in place, then
+  // reloads the MIDI, so render again whenever that happens
+  const [, setScoreVersion] = useState(0);
+  useEffect(() => {
+    if (!api) return;
+    const handleMidiLoaded = () => setScoreVersion((v) => v + 1);
+    api.midiLoaded.on(handleMidiLoaded);
+    return () => {
+      api.midiLoaded.off(handleMidiLoaded);
+    };
+  }, [api]);
+
+  const staff = track?.staves?.[0];
+  const tuning = getStringTunings(staff);
+  const fretCount = getFretCount(track);
+  const notes = getBeatNotes(beat);
+  const key = getBeatKey(beat);
+  const capo = staff?.capo ?? 0;
+
+  if (!track) return null;
+
+  if (tuning.length === 0) {
+    return (
+      <div className="border-t border-border bg-muted/20 p-3">
+        <p className="text-xs text-muted-foreground">"{track.name}" has no strings to show on a fretboard.</p>
+      </div>
+    );
+  }
+
+  const width = MARGIN * 2 + OPEN_WIDTH + fretCount * FRET_WIDTH;
+  const height = MARGIN * 2 + (tuning.length - 1) * STRING_GAP;
+  const leftHanded = options.fretboardLeftHanded;
+  // x of the middle of a fret space (0 = open string), mirrored for left-handed players
+  const fretX = (fret: number) => {
+    const x = fret === 0 ? MARGIN + OPEN_WIDTH / 2 : MARGIN + OPEN_WIDTH + (fret - 0.5) * FRET_WIDTH;
+    return leftHanded ? width - x : x;
+  };
+  const wireX = (fret: number) => {
+    const x = MARGIN + OPEN_WIDTH + fret * FRET_WIDTH;
+    return leftHanded ? width - x : x;
+  };
+  const stringY = (stringIndex: number) => MARGIN + stringIndex * STRING_GAP;
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span className="text-xs font-medium">
+          Fretboard: {track.name}
+          <span className="text-muted-foreground ml-2">
+            {tuning
+              .slice()
+              .reverse()
+              .map((value) => pitchClassName(value, key.preferFlats))
+              .join(" ")}
+            {capo > 0 && ` · capo ${capo}`}
+          </span>
+        </span>
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch
+            id="fretboard-left-handed"
+            checked={leftHanded}
+            onCheckedChange={(checked) => updateOptions({ fretboardLeftHanded: checked })}
+          />
+          <Label htmlFor="fretboard-left-handed" className="text-xs">
+            Left-handed
+          </Label>
+        </div>
+        <Select
+          value={options.fretboardLabels}
+          onValueChange={(value) => updateOptions({ fretboardLabels: value as FretboardLabels })}
+        >
+          <SelectTrigger className="h-7 w-[140px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FRETBOARD_LABELS.map((option) => (
+              <SelectItem key={option.value} value={option.value} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          width={width}
+          height={height}
+          className="max-w-none text-foreground"
+          role="img"
+          aria-label="Notes under the cursor on the fretboard"
+        >
+          {/* Inlays */}
+          {FRET_MARKERS.filter((fret) => fret <= fretCount).map((fret) => (
+            <circle key={fret} cx={fretX(fret)} cy={height / 2} r={4} className="fill-muted-foreground/30" />
+          ))}
+          {DOUBLE_FRET_MARKERS.filter((fret) => fret <= fretCount).map((fret) => (
+            <g key={fret} className="fill-muted-foreground/30">
+              <circle cx={fretX(fret)} cy={stringY(1) + STRING_GAP / 2} r={4} />
+              <circle cx={fretX(fret)} cy={stringY(tuning.length - 2) - STRING_GAP / 2} r={4} />
+            </g>
+          ))}
+
+          {/* Nut and fret wires */}
+          {Array.from({ length: fretCount + 1 }, (_, fret) => (
+            <line
+              key={fret}
+              x1={wireX(fret)}
+              x2={wireX(fret)}
+              y1={stringY(0)}
+              y2={stringY(tuning.length - 1)}
+              stroke="currentColor"
+              strokeOpacity={fret === 0 ? 0.8 : 0.25}
+              strokeWidth={fret === 0 ? 4 : 1.5}
+            />
+          ))}
+
+          {/* Strings, thicker towards the bass */}
+          {tuning.map((_, stringIndex) => (
+            <line
+              key={stringIndex}
+              x1={leftHanded ? width - MARGIN : MARGIN}
+              x2={wireX(fretCount)}
+              y1={stringY(stringIndex)}
+              y2={stringY(stringIndex)}
+              stroke="currentColor"
+              strokeOpacity={0.5}
+              strokeWidth={1 + (stringIndex / Math.max(1, tuning.length - 1)) * 1.5}
+            />
+          ))}
+
+          {capo > 0 && (
+            <rect
+              x={fretX(capo) - 5}
+              y={stringY(0) - 6}
+              width={10}
+              height={stringY(tuning.length - 1) - stringY(0) + 12}
+              rx={4}
+              className="fill-muted-foreground/60"
+            />
+          )}
+
+          {notes.map((note) => (
+            <g key={`${note.stringIndex}:${note.fret}`} opacity={note.isTied ? 0.55 : 1}>
+              <circle cx={fretX(note.fret)} cy={stringY(note.stringIndex)} r={9.5} className="fill-primary" />
+              <text
+                x={fretX(note.fret)}
+                y={stringY(note.stringIndex)}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={note.isDead ? 11 : 9}
+                fontWeight={600}
+                className="fill-primary-foreground select-none"
+              >
+                {getNoteLabel(note, options.fretboardLabels, key)}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default FretboardPanel;
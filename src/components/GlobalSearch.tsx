@@ -27,8 +27,10 @@ export const GlobalSearch = () => {
           .limit(5),
         supabase
           .from("guitar_embeds")
-          .select("id, title, description")
-          .or(`title.ilike.${searchTerm},description.ilike.${searchTerm}`)
+          .select("id, title, description, artist")
+          .or(
+            `title.ilike.${searchTerm},description.ilike.${searchTerm},artist.ilike.${searchTerm},album.ilike.${searchTerm},tabber.ilike.${searchTerm}`
+          )
           .limit(5),
         supabase
           .from("food_gallery")
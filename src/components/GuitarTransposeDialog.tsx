@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowUpDown, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useTabRevisions } from "@/hooks/useTabRevisions";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+import { exportGuitarPro } from "@/lib/alphaTexEditor";
+import { withScoreOverrides } from "@/lib/scoreExport";
+import {
+  GuitarTransposeReport,
+  GuitarTransposeSnapshot,
+  MAX_VIRTUAL_CAPO,
+  formatTuningName,
+  getGuitarTracks,
+  getTuningPresets,
+  isGuitarStaff,
+  restoreGuitarTranspose,
+  transposeForGuitar,
+} from "@/lib/guitarTranspose";
+
+interface GuitarTransposeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  api: AlphaTabApi | null;
+  isPlaying: boolean;
+  embedId?: string;
+}
+
+const KEEP_TUNING = "keep";
+
+const formatSemitones = (semitones: number) => (semitones > 0 ? `+${semitones}` : String(semitones));
+
+const GuitarTransposeDialog = ({ open, onOpenChange, api, isPlaying, embedId }: GuitarTransposeDialogProps) => {
+  const { isAdmin } = useAuth();
+  const { addRevision, isAdding } = useTabRevisions(open && isAdmin ? embedId : undefined);
+  const [semitones, setSemitones] = useState(0);
+  const [tuningName, setTuningName] = useState(KEEP_TUNING);
+  const [capo, setCapo] = useState(0);
+  const [trackIndexes, setTrackIndexes] = useState<number[]>([]);
+  const [report, setReport] = useState<GuitarTransposeReport | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  // The score is changed in place; this undoes the last apply
+  const snapshotRef = useRef<GuitarTransposeSnapshot | null>(null);
+
+  const score = api?.score ?? null;
+  const guitarTracks = useMemo(() => getGuitarTracks(score), [score]);
+
+  // A new score starts untouched
+  useEffect(() => {
+    snapshotRef.current = null;
+    setReport(null);
+    setTrackIndexes(guitarTracks.map((track) => track.index));
+  }, [guitarTracks]);
+
+  // Tunings are offered for the string count of the first selected track
+  const stringCount = useMemo(() => {
+    const track = guitarTracks.find((t) => trackIndexes.includes(t.index));
+    return track?.staves.find(isGuitarStaff)?.tuning.length ?? 6;
+  }, [guitarTracks, trackIndexes]);
+  const presets = useMemo(() => getTuningPresets(stringCount), [stringCount]);
+  const tuning = presets.find((preset) => preset.name === tuningName) ?? null;
+
+  useEffect(() => {
+    if (tuningName !== KEEP_TUNING && !tuning) setTuningName(KEEP_TUNING);
+  }, [tuning, tuningName]);
+
+  const describeChange = () => {
+    const parts = [semitones !== 0 ? `Transposed ${formatSemitones(semitones)}` : "Re-fingered"];
+    if (tuning) parts.push(`to ${tuning.name}`);
+    if (capo > 0) parts.push(`with capo ${capo}`);
+    return parts.join(" ");
+  };
+
+  const reloadScore = () => {
+    const wasPlaying = isPlaying;
+    if (wasPlaying) api.pause();
+    api.render();
+    api.loadMidiForScore();
+    if (wasPlaying) setTimeout(() => api.play(), 100);
+  };
+
+  const handleApply = () => {
+    if (!api?.score) return;
+    // Always start from the score as it was loaded
+    if (snapshotRef.current) restoreGuitarTranspose(snapshotRef.current);
+    const result = transposeForGuitar(api.score, {
+      semitones,
+      tuning: tuning?.tunings ?? null,
+      capo,
+      trackIndexes,
+    });
+    snapshotRef.current = result.snapshot;
+    setReport(result.report);
+    setChangeNote(describeChange());
+    reloadScore();
+  };
+
+  const handleReset = () => {
+    if (!snapshotRef.current) return;
+    restoreGuitarTranspose(snapshotRef.current);
+    snapshotRef.current = null;
+    setReport(null);
+    reloadScore();
+  };
+
+  const handleSaveRevision = async () => {
+    // Written as fingered here, without the player's own transpose
+    const bytes = withScoreOverrides(api.score, { transpose: 0 }, () => exportGuitarPro(api.score));
+    try {
+      await addRevision({ file: new Blob([bytes]), fileName: "transposed.gp", changeNote });
+      onOpenChange(false);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  const toggleTrack = (index: number, checked: boolean) => {
+    setTrackIndexes((prev) => (checked ? [...prev, index].sort((a, b) => a - b) : prev.filter((i) => i !== index)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowUpDown className="h-5 w-5" />
+            Guitar transpose
+          </DialogTitle>
+          <DialogDescription>
+            Moves the notes and re-fingers them on the chosen tuning, so the tab shows frets you can play. With a
+            capo, frets are counted from the capo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {guitarTracks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This score has no tab tracks to re-finger.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="guitar-semitones">Semitones</Label>
+                <Input
+                  id="guitar-semitones"
+                  type="number"
+                  min={-12}
+                  max={12}
+                  value={semitones}
+                  onChange={(e) => setSemitones(Math.max(-12, Math.min(12, Math.round(Number(e.target.value)) || 0)))}
+                />
+              </div>
+              <div className="col-span-2">
+                <Label>Tuning</Label>
+                <Select value={tuningName} onValueChange={setTuningName}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    <SelectItem value={KEEP_TUNING}>Keep each track's tuning</SelectItem>
+                    {presets.map((preset) => (
+                      <SelectItem key={preset.name} value={preset.name}>
+                        {preset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label>Virtual capo</Label>
+              <Select value={String(capo)} onValueChange={(value) => setCapo(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_VIRTUAL_CAPO + 1 }, (_, fret) => (
+                    <SelectItem key={fret} value={String(fret)}>
+                      {fret === 0 ? "No capo" : `Capo ${fret}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tracks</Label>
+              {guitarTracks.map((track) => {
+                const staff = track.staves.find(isGuitarStaff);
+                return (
+                  <div key={track.index} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`guitar-track-${track.index}`}
+                      checked={trackIndexes.includes(track.index)}
+                      onCheckedChange={(checked) => toggleTrack(track.index, checked === true)}
+                    />
+                    <Label htmlFor={`guitar-track-${track.index}`} className="text-sm font-normal">
+                      {track.name || `Track ${track.index + 1}`}
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {staff.tuning.length} strings, {formatTuningName(staff.stringTuning.name) || "custom tuning"}
+                        {staff.capo > 0 && `, capo ${staff.capo}`}
+                      </span>
+                    </Label>
+                  </div>
+                );
+              })}
+              {tuning && (
+                <p className="text-xs text-muted-foreground">
+                  Tracks with a different number of strings keep their own tuning.
+                </p>
+              )}
+            </div>
+
+            {report && (
+              <div className="rounded-md border border-border p-3 text-sm space-y-1">
+                <p>
+                  {report.notes} notes re-fingered, {report.moved} moved to another string.
+                </p>
+                {report.octaveShifted > 0 && (
+                  <p className="text-muted-foreground">
+                    {report.octaveShifted} out of range on the new tuning and moved by an octave.
+                  </p>
+                )}
+                {report.unplaced > 0 && (
+                  <p className="text-destructive">{report.unplaced} left out because the chord has no free string.</p>
+                )}
+              </div>
+            )}
+
+            {report && isAdmin && embedId && (
+              <div>
+                <Label htmlFor="guitar-change-note">Change note</Label>
+                <Input id="guitar-change-note" value={changeNote} onChange={(e) => setChangeNote(e.target.value)} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {report && (
+            <Button variant="ghost" onClick={handleReset} className="gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Back to original
+            </Button>
+          )}
+          {report && isAdmin && embedId && (
+            <Button variant="outline" onClick={handleSaveRevision} disabled={isAdding} className="gap-2">
+              <Save className="h-4 w-4" />
+              {isAdding ? "Saving..." : "Save as new version"}
+            </Button>
+          )}
+          <Button onClick={handleApply} disabled={trackIndexes.length === 0}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GuitarTransposeDialog;
@@ -0,0 +1,56 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { INSTRUMENT_CATEGORIES, getInstrumentsByCategory } from "@/constants/instruments";
+
+interface InstrumentSelectProps {
+  // null selects the default entry
+  value: number | null;
+  onChange: (program: number | null) => void;
+  defaultLabel: string;
+  // Programs the soundfont has; null lists all of GM
+  availableInstruments?: number[] | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+const DEFAULT_VALUE = "default";
+
+// GM instruments grouped by category, with a "use the default" entry on top
+const InstrumentSelect = ({
+  value,
+  onChange,
+  defaultLabel,
+  availableInstruments,
+  disabled,
+  className,
+}: InstrumentSelectProps) => (
+  <Select
+    value={value === null ? DEFAULT_VALUE : String(value)}
+    onValueChange={(next) => onChange(next === DEFAULT_VALUE ? null : Number(next))}
+    disabled={disabled}
+  >
+    <SelectTrigger className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="max-h-72">
+      <SelectItem value={DEFAULT_VALUE}>{defaultLabel}</SelectItem>
+      {INSTRUMENT_CATEGORIES.map((category) => {
+        const instruments = getInstrumentsByCategory(category).filter(
+          (instrument) => !availableInstruments || availableInstruments.includes(instrument.program)
+        );
+        if (instruments.length === 0) return null;
+        return (
+          <SelectGroup key={category}>
+            <SelectLabel className="text-xs text-muted-foreground">{category}</SelectLabel>
+            {instruments.map((instrument) => (
+              <SelectItem key={instrument.program} value={String(instrument.program)}>
+                {instrument.name}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        );
+      })}
+    </SelectContent>
+  </Select>
+);
+
+export default InstrumentSelect;
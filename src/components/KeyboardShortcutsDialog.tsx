@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useShortcuts } from "@/hooks/useShortcuts";
+import { SHORTCUTS, ShortcutCommand, formatKeyCombo, keyComboFromEvent } from "@/lib/shortcuts";
+
+const GROUPS = ["Playback", "Tabs", "General"] as const;
+
+// Lists all shortcuts (opened with "?") and lets users rebind them
+const KeyboardShortcutsDialog = () => {
+  const { bindings, rebind, resetBindings, helpOpen, setHelpOpen, setRecording } = useShortcuts();
+  const [recordingCommand, setRecordingCommand] = useState<ShortcutCommand | null>(null);
+
+  useEffect(() => {
+    setRecording(!!recordingCommand);
+    if (!recordingCommand) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "Escape") {
+        // Keep the dialog open, only stop recording
+        e.preventDefault();
+        e.stopPropagation();
+        setRecordingCommand(null);
+        return;
+      }
+      const combo = keyComboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+      rebind(recordingCommand, combo);
+      setRecordingCommand(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      setRecording(false);
+    };
+  }, [recordingCommand, rebind, setRecording]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setRecordingCommand(null);
+    setHelpOpen(open);
+  };
+
+  return (
+    <Dialog open={helpOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts go to the player you last clicked. Choose a shortcut to assign a new key.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {GROUPS.map((group) => (
+            <div key={group} className="space-y-1">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{group}</h3>
+              {SHORTCUTS.filter((shortcut) => shortcut.group === group).map((shortcut) => {
+                const keys = bindings[shortcut.command] ?? [];
+                const isRecording = recordingCommand === shortcut.command;
+                return (
+                  <div key={shortcut.command} className="flex items-center justify-between gap-4 py-1">
+                    <span className="text-sm">{shortcut.label}</span>
+                    <Button
+                      variant={isRecording ? "default" : "outline"}
+                      size="sm"
+                      className="min-w-[6rem] font-mono text-xs"
+                      onClick={() => setRecordingCommand(isRecording ? null : shortcut.command)}
+                    >
+                      {isRecording
+                        ? "Press a key…"
+                        : keys.length > 0
+                          ? keys.map(formatKeyCombo).join(", ")
+                          : "Unassigned"}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={resetBindings}>
+            Reset to defaults
+          </Button>
+          <Button onClick={() => handleOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
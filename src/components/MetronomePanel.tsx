@@ -0,0 +1,188 @@
+import { useMemo } from "react";
+import { Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_COUNT_IN_BARS,
+  MAX_GAP_BARS,
+  METRONOME_ACCENTS,
+  METRONOME_SOUNDS,
+  METRONOME_SUBDIVISIONS,
+  MetronomeAccent,
+  MetronomeSettings,
+  MetronomeSound,
+  MetronomeSubdivision,
+  getBeatGrid,
+} from "@/lib/metronome";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+
+interface MetronomePanelProps {
+  api: AlphaTabApi | null;
+  settings: MetronomeSettings;
+  onChange: (changes: Partial<MetronomeSettings>) => void;
+}
+
+const MetronomePanel = ({ api, settings, onChange }: MetronomePanelProps) => {
+  // Time signatures in the order they appear, and the most beats any of them has
+  const score = api?.score ?? null;
+  const { signatures, maxBeats } = useMemo(() => {
+    const found: string[] = [];
+    let beats = 4;
+    for (const masterBar of score?.masterBars ?? []) {
+      const signature = `${masterBar.timeSignatureNumerator}/${masterBar.timeSignatureDenominator}`;
+      if (!found.includes(signature)) found.push(signature);
+      beats = Math.max(beats, getBeatGrid(masterBar.timeSignatureNumerator, masterBar.timeSignatureDenominator).beats);
+    }
+    return { signatures: found, maxBeats: Math.min(beats, 16) };
+  }, [score]);
+
+  const toggleAccentBeat = (beat: number) => {
+    const accentBeats = settings.accentBeats.includes(beat)
+      ? settings.accentBeats.filter((b) => b !== beat)
+      : [...settings.accentBeats, beat].sort((a, b) => a - b);
+    onChange({ accentBeats });
+  };
+
+  const barsInput = (value: string, max: number) => Math.max(1, Math.min(max, parseInt(value, 10) || 1));
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-3">
+      {/* Sound */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Timer className="h-4 w-4 text-muted-foreground" />
+        <span className="text-xs font-semibold">Click</span>
+        <Select value={settings.sound} onValueChange={(value) => onChange({ sound: value as MetronomeSound })}>
+          <SelectTrigger className="h-7 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METRONOME_SOUNDS.map((sound) => (
+              <SelectItem key={sound.value} value={sound.value} className="text-xs">
+                {sound.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 w-40">
+          <span className="text-xs text-muted-foreground">Volume</span>
+          <Slider
+            value={[Math.round(settings.volume * 100)]}
+            onValueChange={(value) => onChange({ volume: value[0] / 100 })}
+            min={0}
+            max={100}
+            step={5}
+          />
+        </div>
+        <Select
+          value={settings.subdivision}
+          onValueChange={(value) => onChange({ subdivision: value as MetronomeSubdivision })}
+        >
+          <SelectTrigger className="h-7 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METRONOME_SUBDIVISIONS.map((subdivision) => (
+              <SelectItem key={subdivision.value} value={subdivision.value} className="text-xs">
+                {subdivision.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Accents */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={settings.accent} onValueChange={(value) => onChange({ accent: value as MetronomeAccent })}>
+          <SelectTrigger className="h-7 w-[150px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METRONOME_ACCENTS.map((accent) => (
+              <SelectItem key={accent.value} value={accent.value} className="text-xs">
+                {accent.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {settings.accent === "custom" &&
+          Array.from({ length: maxBeats }, (_, i) => i + 1).map((beat) => (
+            <Button
+              key={beat}
+              variant={settings.accentBeats.includes(beat) ? "default" : "outline"}
+              size="sm"
+              className="h-7 w-7 p-0 text-xs"
+              title={`Accent beat ${beat}`}
+              onClick={() => toggleAccentBeat(beat)}
+            >
+              {beat}
+            </Button>
+          ))}
+      </div>
+
+      {/* Count-in and gap click trainer */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Count-in</span>
+          <Select
+            value={String(settings.countInBars)}
+            onValueChange={(value) => onChange({ countInBars: Number(value) })}
+          >
+            <SelectTrigger className="h-7 w-[90px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_COUNT_IN_BARS }, (_, i) => i + 1).map((bars) => (
+                <SelectItem key={bars} value={String(bars)} className="text-xs">
+                  {bars} {bars === 1 ? "bar" : "bars"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Switch
+            id="gap-click"
+            checked={settings.gapClick}
+            onCheckedChange={(checked) => onChange({ gapClick: checked })}
+          />
+          <Label htmlFor="gap-click" className="text-xs">
+            Gap click
+          </Label>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Input
+              type="number"
+              min={1}
+              max={MAX_GAP_BARS}
+              value={settings.gapPlayBars}
+              onChange={(e) => onChange({ gapPlayBars: barsInput(e.target.value, MAX_GAP_BARS) })}
+              className="h-7 w-14 text-xs"
+            />
+            <span>bars on,</span>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_GAP_BARS}
+              value={settings.gapMuteBars}
+              onChange={(e) => onChange({ gapMuteBars: barsInput(e.target.value, MAX_GAP_BARS) })}
+              className="h-7 w-14 text-xs"
+            />
+            <span>bars silent</span>
+          </div>
+        </div>
+      </div>
+
+      {signatures.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Follows the score's time signatures ({signatures.join(", ")}); 6/8, 9/8 and 12/8 click on dotted quarters.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetronomePanel;
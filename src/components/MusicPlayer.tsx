@@ -6,6 +6,10 @@ import { Card } from "./ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
+import { useShortcutHandlers } from "@/hooks/useShortcuts";
+import { useAudioFocus, useAudioFocusSource } from "@/hooks/useAudioFocus";
+import { DUCK_VOLUME } from "@/lib/audioFocus";
+import { getOfflineRows, withOfflineFallback } from "@/lib/offline";
 import {
   Select,
   SelectContent,
@@ -14,6 +18,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+const MUSIC_PLAYER_SOURCE_ID = "music-player";
+
 interface Track {
   id: string;
   title: string;
@@ -33,55 +39,40 @@ export const MusicPlayer = () => {
   const [loopMode, setLoopMode] = useState<"none" | "one" | "all">("none");
   const [loopStart, setLoopStart] = useState<number | null>(null);
   const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [isDucked, setIsDucked] = useState(false);
+  const audioFocus = useAudioFocus();
   const audioRef = useRef<HTMLAudioElement>(null);
 
   const { data: tracks = [] } = useQuery({
     queryKey: ["music-tracks"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("music_tracks")
-        .select("*")
-        .order("display_order", { ascending: true });
-      
-      if (error) throw error;
-      return data as Track[];
-    },
+    queryFn: () =>
+      withOfflineFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from("music_tracks")
+            .select("*")
+            .order("display_order", { ascending: true });
+
+          if (error) throw error;
+          return data as Track[];
+        },
+        (index) => getOfflineRows(index, "recording") as unknown as Track[] | null
+      ),
   });
 
   const currentTrack = tracks[currentTrackIndex];
 
   useEffect(() => {
     if (audioRef.current) {
-      audioRef.current.volume = volume / 100;
+      audioRef.current.volume = (volume / 100) * (isDucked ? DUCK_VOLUME : 1);
       audioRef.current.playbackRate = playbackRate;
     }
-  }, [volume, playbackRate]);
+  }, [volume, playbackRate, isDucked]);
 
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
-    // Keyboard shortcuts (only when MP3 player is active, not on guitar pages)
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
-      
-      // Check if we're on a guitar page (AlphaTab player would handle spacebar)
-      const isGuitarPage = window.location.pathname.includes('/guitar/');
-      
-      if (e.code === "Space" && !isGuitarPage) {
-        e.preventDefault();
-        togglePlay();
-      } else if (e.code === "ArrowLeft") {
-        if (audio) audio.currentTime = Math.max(0, audio.currentTime - 5);
-      } else if (e.code === "ArrowRight") {
-        if (audio) audio.currentTime = Math.min(audio.duration, audio.currentTime + 5);
-      } else if (e.code === "KeyM") {
-        toggleMute();
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyPress);
-
     const updateTime = () => {
       setCurrentTime(audio.currentTime);
       
@@ -90,51 +81,26 @@ export const MusicPlayer = () => {
         audio.currentTime = loopStart;
       }
       
-      // Dispatch progress event for Recordings page
+      // Progress for the Recordings page
       if (currentTrack) {
         const progress = audio.duration ? audio.currentTime / audio.duration : 0;
-        window.dispatchEvent(new CustomEvent('playbackProgress', { 
-          detail: { trackId: currentTrack.id, progress } 
-        }));
+        audioFocus.reportState(MUSIC_PLAYER_SOURCE_ID, { trackId: currentTrack.id, progress });
       }
     };
     
     const updateDuration = () => setDuration(audio.duration);
-    
-    const handleTrackChange = (e: CustomEvent) => {
-      const { index } = e.detail;
-      setCurrentTrackIndex(index);
-      setIsPlaying(true);
-      if (audio && tracks[index]) {
-        // Ensure immediate playback from user gesture
-        audio.src = tracks[index].file_url;
-        audio.currentTime = 0;
-        audio.play();
-      }
-    };
 
-    const handleTogglePlayback = () => {
-      if (isPlaying) {
-        audio.pause();
-        setIsPlaying(false);
-      } else {
-        audio.play();
-        setIsPlaying(true);
-      }
-    };
-
-    const handleSeekToPosition = (e: CustomEvent) => {
-      const { progress } = e.detail;
-      if (audio && audio.duration) {
-        audio.currentTime = progress * audio.duration;
+    const handlePlay = () => {
+      audioFocus.requestFocus(MUSIC_PLAYER_SOURCE_ID);
+      if (currentTrack) {
+        audioFocus.reportState(MUSIC_PLAYER_SOURCE_ID, { trackId: currentTrack.id, isPlaying: true });
       }
     };
 
-    // Pause MP3 player when AlphaTab starts playing
-    const handleAlphaTabPlay = () => {
-      if (audio && !audio.paused) {
-        audio.pause();
-        setIsPlaying(false);
+    const handlePause = () => {
+      audioFocus.releaseFocus(MUSIC_PLAYER_SOURCE_ID);
+      if (currentTrack) {
+        audioFocus.reportState(MUSIC_PLAYER_SOURCE_ID, { trackId: currentTrack.id, isPlaying: false });
       }
     };
 
@@ -150,36 +116,16 @@ export const MusicPlayer = () => {
         handleNext();
       }
     });
-    audio.addEventListener("play", () => {
-      if (currentTrack) {
-        window.dispatchEvent(new CustomEvent('playingStateChange', {
-          detail: { trackId: currentTrack.id, isPlaying: true }
-        }));
-      }
-    });
-    audio.addEventListener("pause", () => {
-      if (currentTrack) {
-        window.dispatchEvent(new CustomEvent('playingStateChange', {
-          detail: { trackId: currentTrack.id, isPlaying: false }
-        }));
-      }
-    });
-    
-    window.addEventListener("playTrack", handleTrackChange as EventListener);
-    window.addEventListener("togglePlayback", handleTogglePlayback);
-    window.addEventListener("seekToPosition", handleSeekToPosition as EventListener);
-    window.addEventListener("alphaTabPlay", handleAlphaTabPlay);
+    audio.addEventListener("play", handlePlay);
+    audio.addEventListener("pause", handlePause);
 
     return () => {
       audio.removeEventListener("timeupdate", updateTime);
       audio.removeEventListener("loadedmetadata", updateDuration);
-      window.removeEventListener("playTrack", handleTrackChange as EventListener);
-      window.removeEventListener("togglePlayback", handleTogglePlayback);
-      window.removeEventListener("seekToPosition", handleSeekToPosition as EventListener);
-      window.removeEventListener("alphaTabPlay", handleAlphaTabPlay);
-      document.removeEventListener("keydown", handleKeyPress);
+      audio.removeEventListener("play", handlePlay);
+      audio.removeEventListener("pause", handlePause);
     };
-  }, [currentTrackIndex, tracks, currentTrack, isPlaying, loopMode, loopStart, loopEnd]);
+  }, [currentTrackIndex, tracks, currentTrack, isPlaying, loopMode, loopStart, loopEnd, audioFocus]);
 
   const togglePlay = () => {
     if (audioRef.current) {
@@ -226,6 +172,52 @@ export const MusicPlayer = () => {
     setLoopMode(modes[(currentIndex + 1) % modes.length]);
   };
 
+  // Ducks under a tab player instead of stopping; pages control it through the audio focus manager
+  useAudioFocusSource({
+    id: MUSIC_PLAYER_SOURCE_ID,
+    interruption: "duck",
+    pause: () => {
+      if (audioRef.current && !audioRef.current.paused) {
+        audioRef.current.pause();
+        setIsPlaying(false);
+      }
+    },
+    setDucked: setIsDucked,
+    playTrack: (index) => {
+      const audio = audioRef.current;
+      setCurrentTrackIndex(index);
+      setIsPlaying(true);
+      if (audio && tracks[index]) {
+        // Ensure immediate playback from user gesture
+        audio.src = tracks[index].file_url;
+        audio.currentTime = 0;
+        audio.play();
+      }
+    },
+    togglePlayback: togglePlay,
+    seek: (progress) => {
+      const audio = audioRef.current;
+      if (audio && audio.duration) {
+        audio.currentTime = progress * audio.duration;
+      }
+    },
+  });
+
+  // Lowest priority: a tab player on the page takes the keys unless this player was used last
+  const shortcutPlayerId = useShortcutHandlers({
+    togglePlayback: togglePlay,
+    seekBackward: () => {
+      const audio = audioRef.current;
+      if (audio) audio.currentTime = Math.max(0, audio.currentTime - 5);
+    },
+    seekForward: () => {
+      const audio = audioRef.current;
+      if (audio && audio.duration) audio.currentTime = Math.min(audio.duration, audio.currentTime + 5);
+    },
+    toggleMute,
+    toggleLoop: toggleLoopMode,
+  });
+
   const setABLoop = () => {
     if (loopStart === null) {
       setLoopStart(currentTime);
@@ -249,6 +241,7 @@ export const MusicPlayer = () => {
 
   return (
     <div 
+      data-shortcut-player={shortcutPlayerId}
       className="fixed bottom-0 right-6 transition-all duration-300 ease-out"
       style={{ 
         width: '320px',
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "react-router-dom";
-import { Music2, Guitar, UtensilsCrossed, Shield, Edit3, Disc3, Menu, LogIn, LogOut } from "lucide-react";
+import { Music2, Guitar, UtensilsCrossed, Shield, Edit3, Disc3, Menu, LogIn, LogOut, ListMusic, HardDrive, Flame } from "lucide-react";
 import { Button } from "./ui/button";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
@@ -23,6 +23,13 @@ export const Navigation = () => {
     { path: "/recordings", label: "Recordings", icon: Disc3 },
     { path: "/food", label: "Food Gallery", icon: UtensilsCrossed },
     { path: "/guestbook", label: "Guest Book", icon: null },
+    ...(user
+      ? [
+          { path: "/setlists", label: "Setlists", icon: ListMusic },
+          { path: "/practice", label: "My practice", icon: Flame },
+        ]
+      : []),
+    { path: "/offline", label: "Offline", icon: HardDrive },
   ];
 
   return (
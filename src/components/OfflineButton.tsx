@@ -0,0 +1,58 @@
+import { CircleCheck, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { OfflineRow, useOfflineContent } from "@/hooks/useOfflineContent";
+import type { OfflineKind } from "@/lib/offline";
+
+interface OfflineButtonProps {
+  kind: OfflineKind;
+  row: OfflineRow;
+  // Icon only, for tight spots like list cards
+  compact?: boolean;
+  className?: string;
+}
+
+// "Make available offline" for one tab or recording; shows when it already is
+export const OfflineButton = ({ kind, row, compact = false, className }: OfflineButtonProps) => {
+  const { isSupported, isSaved, isSaving, getProgress, save, remove } = useOfflineContent();
+  if (!isSupported) return null;
+
+  const saved = isSaved(kind, row.id);
+  const saving = isSaving(kind, row.id);
+  const progress = getProgress(kind, row.id);
+
+  const label = saving
+    ? `Saving${progress !== null ? ` ${Math.round(progress * 100)}%` : "..."}`
+    : saved
+      ? "Available offline"
+      : "Make available offline";
+
+  return (
+    <Button
+      variant="ghost"
+      size={compact ? "icon" : "sm"}
+      title={saved ? "Available offline. Click to remove from this device." : "Make available offline"}
+      disabled={saving}
+      className={cn(!compact && "gap-2", saved && "text-primary", className)}
+      onClick={(e) => {
+        // Cards wrap this in a link
+        e.preventDefault();
+        e.stopPropagation();
+        if (!saved) {
+          save(kind, row);
+        } else if (confirm(`Remove "${row.title}" from this device?`)) {
+          remove(kind, row.id);
+        }
+      }}
+    >
+      {saving ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : saved ? (
+        <CircleCheck className="h-4 w-4" />
+      ) : (
+        <Download className="h-4 w-4" />
+      )}
+      {!compact && label}
+    </Button>
+  );
+};
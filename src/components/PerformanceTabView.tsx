@@ -0,0 +1,254 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { useSoundFontUrl } from "@/hooks/useSoundFontUrl";
+import { useAudioFocusSource } from "@/hooks/useAudioFocus";
+import { useShortcutHandlers } from "@/hooks/useShortcuts";
+import type { SetlistSong } from "@/hooks/useSetlists";
+import type { PlayerLayout } from "@/lib/playerPreferences";
+import { alphaTab, type AlphaTabApi, createAlphaTabApi } from "@/lib/alphaTab";
+import { applyTranspose, overrideProgram } from "@/lib/setlists";
+import "./AlphaTabPlayer.css";
+
+interface PerformanceTabViewProps {
+  song: SetlistSong;
+  layout: PlayerLayout;
+  // Start playing as soon as the song is ready (set when the previous one ended)
+  autoPlay: boolean;
+  onFinished: () => void;
+  onNextSong: () => void;
+  onPreviousSong: () => void;
+  onApiReady?: (api: AlphaTabApi) => void;
+  onPlayingChange?: (playing: boolean) => void;
+}
+
+// How much of the visible area one page turn moves, so the last line stays in view
+const PAGE_OVERLAP = 0.9;
+
+// One score at a time, without the editing and practice controls. A single AlphaTab
+// instance is reused for the whole set so the soundfont only loads once.
+const PerformanceTabView = ({
+  song,
+  layout,
+  autoPlay,
+  onFinished,
+  onNextSong,
+  onPreviousSong,
+  onApiReady,
+  onPlayingChange,
+}: PerformanceTabViewProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const apiRef = useRef<AlphaTabApi | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const soundFontUrl = useSoundFontUrl();
+  const playerId = useId();
+
+  // Event handlers are attached once; they read the latest props from here
+  const latestRef = useRef({ song, layout, autoPlay, onFinished, onApiReady, onPlayingChange });
+  latestRef.current = { song, layout, autoPlay, onFinished, onApiReady, onPlayingChange };
+  const pendingAutoPlayRef = useRef(false);
+  const loadedSongIdRef = useRef<string | null>(null);
+
+  const audioFocus = useAudioFocusSource({
+    id: playerId,
+    interruption: "pause",
+    pause: () => apiRef.current?.pause(),
+  });
+
+  // Create the player
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const api = createAlphaTabApi(containerRef.current, {
+      display: {
+        layoutMode:
+          latestRef.current.layout === "horizontal" ? alphaTab.LayoutMode.Horizontal : alphaTab.LayoutMode.Page,
+        staveProfile: alphaTab.StaveProfile.Default,
+        resources: { secondaryGlyphColor: "rgb(0, 0, 0)" },
+      },
+      notation: { notationMode: alphaTab.NotationMode.GuitarPro },
+      player: {
+        enablePlayer: true,
+        soundFont: soundFontUrl,
+        enableCursor: true,
+        scrollMode: alphaTab.ScrollMode.OffScreen,
+        scrollElement: scrollRef.current,
+      },
+    });
+    apiRef.current = api;
+    latestRef.current.onApiReady?.(api);
+
+    // Overrides go in before AlphaTab renders the score and generates its MIDI
+    api.scoreLoaded.on(() => {
+      const { song } = latestRef.current;
+      loadedSongIdRef.current = song.id;
+      applyTranspose(api, song.transpose);
+      overrideProgram(
+        api,
+        song.instrument?.program ?? song.embed.default_instrument?.program ?? null,
+        // A setlist instrument replaces the whole sound, including the tab's per-track choices
+        song.instrument ? [] : song.embed.track_instruments
+      );
+    });
+
+    api.renderFinished.on(() => setIsLoading(false));
+
+    api.midiLoaded.on(() => {
+      api.playbackSpeed = (latestRef.current.song.speed ?? 100) / 100;
+      if (pendingAutoPlayRef.current) {
+        pendingAutoPlayRef.current = false;
+        api.play();
+      }
+    });
+
+    api.playerStateChanged.on((e: alphaTab.synth.PlayerStateChangedEventArgs) => {
+      const playing = e.state === alphaTab.synth.PlayerState.Playing;
+      latestRef.current.onPlayingChange?.(playing);
+      if (playing) {
+        audioFocus.requestFocus(playerId);
+      } else {
+        audioFocus.releaseFocus(playerId);
+      }
+      audioFocus.reportState(playerId, { trackId: latestRef.current.song.embed.id, isPlaying: playing });
+    });
+
+    api.playerFinished.on(() => latestRef.current.onFinished());
+
+    api.error.on((e) => {
+      console.error("AlphaTab error:", e);
+      setError(e?.message || "Failed to load tablature");
+      setIsLoading(false);
+    });
+
+    return () => {
+      try {
+        api.destroy();
+      } catch (e) {
+        console.warn("Error destroying AlphaTab:", e);
+      }
+      apiRef.current = null;
+    };
+  }, [soundFontUrl, audioFocus, playerId]);
+
+  // Load the current song
+  useEffect(() => {
+    const api = apiRef.current;
+    if (!api) return;
+    const fileUrl = song.embed.file_url;
+    if (!fileUrl) {
+      setError("This song has no Guitar Pro file");
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    api.stop();
+    pendingAutoPlayRef.current = latestRef.current.autoPlay;
+    scrollRef.current?.scrollTo({ top: 0, left: 0 });
+
+    fetch(fileUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status} when fetching file`);
+        return response.arrayBuffer();
+      })
+      .then((buffer) => {
+        if (!cancelled) api.load(new Uint8Array(buffer));
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.error("Failed to load song:", e);
+        setError(e?.message || "Failed to load file");
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [song.id, song.embed.file_url, soundFontUrl]);
+
+  // Overrides edited while this song is up
+  useEffect(() => {
+    const api = apiRef.current;
+    const current = latestRef.current.song;
+    if (!api?.score || loadedSongIdRef.current !== current.id) return;
+    api.playbackSpeed = (current.speed ?? 100) / 100;
+  }, [song.speed]);
+
+  useEffect(() => {
+    const api = apiRef.current;
+    const current = latestRef.current.song;
+    if (!api?.score || loadedSongIdRef.current !== current.id) return;
+    applyTranspose(api, current.transpose);
+    overrideProgram(
+      api,
+      current.instrument?.program ?? current.embed.default_instrument?.program ?? null,
+      current.instrument ? [] : current.embed.track_instruments
+    );
+    api.render();
+    api.loadMidiForScore();
+  }, [song.transpose, song.instrument?.program]);
+
+  useEffect(() => {
+    const api = apiRef.current;
+    if (!api?.settings) return;
+    api.settings.display.layoutMode =
+      layout === "horizontal" ? alphaTab.LayoutMode.Horizontal : alphaTab.LayoutMode.Page;
+    api.updateSettings();
+    if (api.score) api.render();
+  }, [layout]);
+
+  // Foot pedals send PageDown/PageUp: turn a page, or change song at either end
+  const turnPage = (direction: 1 | -1) => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const horizontal = layout === "horizontal";
+    const position = horizontal ? el.scrollLeft : el.scrollTop;
+    const visible = horizontal ? el.clientWidth : el.clientHeight;
+    const end = (horizontal ? el.scrollWidth : el.scrollHeight) - visible;
+
+    if (direction === 1 && position >= end - 2) {
+      onNextSong();
+    } else if (direction === -1 && position <= 2) {
+      onPreviousSong();
+    } else {
+      const delta = direction * visible * PAGE_OVERLAP;
+      el.scrollBy(horizontal ? { left: delta, behavior: "smooth" } : { top: delta, behavior: "smooth" });
+    }
+  };
+
+  useShortcutHandlers(
+    {
+      togglePlayback: () => apiRef.current?.playPause(),
+      nextPage: () => turnPage(1),
+      previousPage: () => turnPage(-1),
+    },
+    2,
+    playerId
+  );
+
+  return (
+    <div
+      ref={scrollRef}
+      data-shortcut-player={playerId}
+      className={`relative h-full w-full bg-card ${layout === "horizontal" ? "overflow-x-auto overflow-y-hidden" : "overflow-y-auto"}`}
+    >
+      {error && (
+        <div className="m-4 bg-destructive/10 border border-destructive/50 rounded-lg p-4">
+          <p className="font-semibold text-destructive">Error Loading Tablature</p>
+          <p className="text-sm text-destructive/80 mt-1">{error}</p>
+        </div>
+      )}
+      <div ref={containerRef} className="alphatab-container" />
+      {isLoading && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-card/60 backdrop-blur-sm">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+          <span className="ml-3 text-muted-foreground">Loading score...</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceTabView;
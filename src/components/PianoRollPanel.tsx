@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getInstrumentByProgram } from "@/constants/instruments";
+import {
+  PIANO_ROLL_LOOKAHEAD,
+  PianoRollNote,
+  TICKS_PER_QUARTER,
+  buildPianoRollNotes,
+  getPianoRange,
+  getPianoRollTracks,
+  getSoundingNotes,
+  isBlackKey,
+  isKeyboardTrack,
+} from "@/lib/pianoRoll";
+import type { alphaTab, AlphaTabApi, Track } from "@/lib/alphaTab";
+
+interface PianoRollPanelProps {
+  api: AlphaTabApi | null;
+  tracks: Track[];
+  // Drawing only happens while the panel is visible
+  open: boolean;
+}
+
+const ROLL_HEIGHT = 200;
+const KEYBOARD_HEIGHT = 64;
+
+// Theme colors are HSL triplets in CSS variables
+const themeColor = (name: string, alpha = 1) => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(name).trim();
+  return value ? `hsl(${value} / ${alpha})` : `rgba(128, 128, 128, ${alpha})`;
+};
+
+const PianoRollPanel = ({ api, tracks, open }: PianoRollPanelProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const tickRef = useRef(0);
+  const [width, setWidth] = useState(0);
+  const [showRoll, setShowRoll] = useState(true);
+  const [tickCache, setTickCache] = useState<alphaTab.midi.MidiTickLookup | null>(null);
+  const candidates = useMemo(() => getPianoRollTracks(tracks), [tracks]);
+  const [trackIndex, setTrackIndex] = useState<number | null>(null);
+
+  // Default to the first keyboard-like track of each new score
+  useEffect(() => {
+    setTrackIndex(candidates[0]?.index ?? null);
+  }, [candidates]);
+
+  const track = candidates.find((t) => t.index === trackIndex) ?? null;
+
+  // Note positions depend on the generated MIDI (repeats, tempo), so rebuild when it changes
+  useEffect(() => {
+    if (!api?.midiLoaded) return;
+    const handleMidiLoaded = () => setTickCache(api.tickCache);
+    handleMidiLoaded();
+    api.midiLoaded.on(handleMidiLoaded);
+    return () => {
+      api.midiLoaded.off(handleMidiLoaded);
+    };
+  }, [api]);
+
+  const notes = useMemo<PianoRollNote[]>(
+    () => (open ? buildPianoRollNotes(tickCache, track) : []),
+    [tickCache, track, open]
+  );
+  const range = useMemo(() => getPianoRange(notes), [notes]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const drawRef = useRef<() => void>(() => {});
+  drawRef.current = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || width === 0) return;
+
+    const rollHeight = showRoll ? ROLL_HEIGHT : 0;
+    const height = rollHeight + KEYBOARD_HEIGHT;
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== width * ratio || canvas.height !== height * ratio) {
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      canvas.style.height = `${height}px`;
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    // Key geometry: white keys share the width, black keys sit on the boundaries
+    const whiteKeys: number[] = [];
+    for (let value = range.low; value <= range.high; value++) {
+      if (!isBlackKey(value)) whiteKeys.push(value);
+    }
+    const whiteWidth = width / whiteKeys.length;
+    const blackWidth = whiteWidth * 0.6;
+    const keyX = (value: number) => {
+      if (!isBlackKey(value)) return whiteKeys.indexOf(value) * whiteWidth;
+      return whiteKeys.indexOf(value + 1) * whiteWidth - blackWidth / 2;
+    };
+    const keyWidth = (value: number) => (isBlackKey(value) ? blackWidth : whiteWidth);
+
+    const tick = tickRef.current;
+    const primary = themeColor("--primary");
+
+    if (showRoll) {
+      const lookahead = PIANO_ROLL_LOOKAHEAD * TICKS_PER_QUARTER;
+      const y = (t: number) => rollHeight - ((t - tick) / lookahead) * rollHeight;
+
+      // Beat lines
+      ctx.strokeStyle = themeColor("--border");
+      ctx.lineWidth = 1;
+      const firstBeat = Math.ceil(tick / TICKS_PER_QUARTER) * TICKS_PER_QUARTER;
+      for (let t = firstBeat; t <= tick + lookahead; t += TICKS_PER_QUARTER) {
+        ctx.beginPath();
+        ctx.moveTo(0, Math.round(y(t)) + 0.5);
+        ctx.lineTo(width, Math.round(y(t)) + 0.5);
+        ctx.stroke();
+      }
+
+      for (const note of notes) {
+        if (note.start > tick + lookahead) break;
+        if (note.end < tick || note.value < range.low || note.value > range.high) continue;
+        const top = Math.max(0, y(note.end));
+        const bottom = Math.min(rollHeight, y(note.start));
+        ctx.fillStyle = note.start <= tick ? primary : themeColor("--primary", isBlackKey(note.value) ? 0.55 : 0.75);
+        ctx.fillRect(keyX(note.value) + 1, top, keyWidth(note.value) - 2, Math.max(2, bottom - top));
+      }
+    }
+
+    // Keyboard
+    const sounding = getSoundingNotes(notes, tick);
+    const keyTop = rollHeight;
+    for (const value of whiteKeys) {
+      ctx.fillStyle = sounding.has(value) ? primary : "#f5f5f4";
+      ctx.fillRect(keyX(value), keyTop, whiteWidth, KEYBOARD_HEIGHT);
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.35)";
+      ctx.strokeRect(keyX(value) + 0.5, keyTop + 0.5, whiteWidth - 1, KEYBOARD_HEIGHT - 1);
+      // Octave labels on the Cs
+      if (value % 12 === 0 && whiteWidth >= 10) {
+        ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+        ctx.font = "9px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillText(`C${Math.floor(value / 12) - 1}`, keyX(value) + whiteWidth / 2, keyTop + KEYBOARD_HEIGHT - 5);
+      }
+    }
+    for (let value = range.low; value <= range.high; value++) {
+      if (!isBlackKey(value)) continue;
+      ctx.fillStyle = sounding.has(value) ? primary : "#1c1917";
+      ctx.fillRect(keyX(value), keyTop, blackWidth, KEYBOARD_HEIGHT * 0.62);
+    }
+  };
+
+  // Follow the synth, and the cursor when seeking while paused
+  useEffect(() => {
+    if (!api || !open) return;
+    const positionHandler = (e: alphaTab.synth.PositionChangedEventArgs) => {
+      if (typeof e.currentTick !== "number") return;
+      tickRef.current = e.currentTick;
+      drawRef.current();
+    };
+    api.playerPositionChanged.on(positionHandler);
+    return () => {
+      api.playerPositionChanged.off(positionHandler);
+    };
+  }, [api, open]);
+
+  useEffect(() => {
+    if (open) drawRef.current();
+  }, [open, notes, range, width, showRoll]);
+
+  if (candidates.length === 0) {
+    return (
+      <div className="border-t border-border bg-muted/20 p-3">
+        <p className="text-xs text-muted-foreground">This score has no pitched tracks to show on a keyboard.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span className="text-xs font-medium">Keyboard</span>
+        <Select value={trackIndex !== null ? String(trackIndex) : undefined} onValueChange={(v) => setTrackIndex(Number(v))}>
+          <SelectTrigger className="h-7 w-[220px] text-xs">
+            <SelectValue placeholder="Choose a track" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((t) => (
+              <SelectItem key={t.index} value={String(t.index)} className="text-xs">
+                {t.name}
+                {isKeyboardTrack(t) && ` (${getInstrumentByProgram(t.playbackInfo.program)?.name})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch id="piano-roll-visible" checked={showRoll} onCheckedChange={setShowRoll} />
+          <Label htmlFor="piano-roll-visible" className="text-xs">
+            Piano roll
+          </Label>
+        </div>
+      </div>
+      <div ref={containerRef} className="w-full rounded overflow-hidden bg-background/60">
+        <canvas ref={canvasRef} className="block w-full" aria-label="Notes of the selected track on a keyboard" />
+      </div>
+    </div>
+  );
+};
+
+export default PianoRollPanel;
@@ -0,0 +1,71 @@
+import { ReactNode } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/useAuth";
+import { useShortcuts } from "@/hooks/useShortcuts";
+import type { PlayerPreferencesState } from "@/hooks/usePlayerPreferences";
+import type { PlayerLayout } from "@/lib/playerPreferences";
+
+interface PlayerPreferencesMenuProps {
+  layout: PlayerLayout;
+  onLayoutChange: (layout: PlayerLayout) => void;
+  playerPreferences?: PlayerPreferencesState;
+  embedId?: string;
+  children: ReactNode; // trigger button
+}
+
+const PlayerPreferencesMenu = ({ layout, onLayoutChange, playerPreferences, embedId, children }: PlayerPreferencesMenuProps) => {
+  const { user } = useAuth();
+  const { setHelpOpen } = useShortcuts();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent className="w-64 z-50 bg-popover">
+        <DropdownMenuLabel>Layout</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={layout} onValueChange={(value) => onLayoutChange(value as PlayerLayout)}>
+          <DropdownMenuRadioItem value="page">Page</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="horizontal">Horizontal</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+
+        {playerPreferences && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+              {user ? "Player settings are saved to your account" : "Player settings are saved in this browser"}
+            </DropdownMenuLabel>
+            {embedId && (
+              <DropdownMenuCheckboxItem
+                checked={playerPreferences.hasTabPreferences}
+                onCheckedChange={(checked) => playerPreferences.setTabPreferences(!!checked)}
+              >
+                Separate settings for this tab
+              </DropdownMenuCheckboxItem>
+            )}
+            <DropdownMenuItem onClick={playerPreferences.resetPreferences}>
+              {playerPreferences.hasTabPreferences ? "Use my usual settings" : "Reset to defaults"}
+            </DropdownMenuItem>
+          </>
+        )}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => setHelpOpen(true)}>
+          Keyboard shortcuts
+          <DropdownMenuShortcut>?</DropdownMenuShortcut>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PlayerPreferencesMenu;
@@ -0,0 +1,314 @@
+import { useCallback, useState, useEffect, useRef } from "react";
+import { Repeat1, X, Gauge, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  BarRange,
+  TickRange,
+  barRangeToTicks,
+  clampBarRange,
+  formatBarRange,
+  getBarCount,
+  ticksToBarRange,
+} from "@/lib/barRange";
+import {
+  DEFAULT_SPEED_TRAINER_CONFIG,
+  SpeedTrainerConfig,
+  SpeedTrainerState,
+  createSpeedTrainerState,
+  normalizeSpeedTrainerConfig,
+  registerRepetition,
+} from "@/lib/speedTrainer";
+import type { alphaTab, AlphaTabApi } from "@/lib/alphaTab";
+
+interface PracticeLoopPanelProps {
+  api: AlphaTabApi | null;
+  onSpeedChange: (speed: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onRangeChange?: (range: BarRange | null) => void;
+  initialRange?: BarRange | null;
+}
+
+const PracticeLoopPanel = ({ api, onSpeedChange, onLoopChange, onRangeChange, initialRange }: PracticeLoopPanelProps) => {
+  const [range, setRange] = useState<BarRange | null>(null);
+  const [fromBar, setFromBar] = useState("1");
+  const [toBar, setToBar] = useState("1");
+  const [trainerEnabled, setTrainerEnabled] = useState(false);
+  const [config, setConfig] = useState<SpeedTrainerConfig>(DEFAULT_SPEED_TRAINER_CONFIG);
+  const [trainerState, setTrainerState] = useState<SpeedTrainerState>(() =>
+    createSpeedTrainerState(DEFAULT_SPEED_TRAINER_CONFIG)
+  );
+  const rangeTicksRef = useRef<TickRange | null>(null);
+  const lastTickRef = useRef(0);
+  const missedRef = useRef(false);
+  const barCount = getBarCount(api);
+  // Player event handlers are attached once; they call the latest callbacks from here
+  const callbacksRef = useRef({ onSpeedChange, onLoopChange, onRangeChange });
+  callbacksRef.current = { onSpeedChange, onLoopChange, onRangeChange };
+
+  const applyRange = useCallback(
+    (next: BarRange) => {
+      const clamped = clampBarRange(next, barCount);
+      const ticks = barRangeToTicks(api, clamped);
+      if (!ticks) return;
+
+      rangeTicksRef.current = ticks;
+      lastTickRef.current = ticks.startTick;
+      setRange(clamped);
+      callbacksRef.current.onRangeChange?.(clamped);
+      setFromBar(String(clamped.startBar));
+      setToBar(String(clamped.endBar));
+
+      api.playbackRange = { startTick: ticks.startTick, endTick: ticks.endTick };
+      api.isLooping = true;
+      callbacksRef.current.onLoopChange(true);
+    },
+    [api, barCount]
+  );
+
+  const clearRange = () => {
+    rangeTicksRef.current = null;
+    setRange(null);
+    onRangeChange?.(null);
+    setTrainerEnabled(false);
+    if (api) {
+      api.playbackRange = null;
+      api.isLooping = false;
+    }
+    onLoopChange(false);
+  };
+
+  // Apply a loop from a deep link once the MIDI (and with it the tick cache) is ready
+  const initialRangeAppliedRef = useRef(false);
+  useEffect(() => {
+    if (!api || !initialRange || initialRangeAppliedRef.current) return;
+
+    const applyInitialRange = () => {
+      if (initialRangeAppliedRef.current || !barRangeToTicks(api, initialRange)) return;
+      initialRangeAppliedRef.current = true;
+      applyRange(initialRange);
+    };
+
+    applyInitialRange();
+    api.midiLoaded?.on(applyInitialRange);
+    return () => {
+      api.midiLoaded?.off(applyInitialRange);
+    };
+  }, [api, initialRange, applyRange]);
+
+  // Snap drag-selections on the rendered score to whole bars
+  useEffect(() => {
+    if (!api?.playbackRangeChanged) return;
+
+    const handleRangeChanged = (e: alphaTab.synth.PlaybackRangeChangedEventArgs) => {
+      const selected = e?.playbackRange;
+      if (!selected) {
+        if (rangeTicksRef.current) {
+          rangeTicksRef.current = null;
+          setRange(null);
+          callbacksRef.current.onRangeChange?.(null);
+          setTrainerEnabled(false);
+        }
+        return;
+      }
+
+      const current = rangeTicksRef.current;
+      if (current && current.startTick === selected.startTick && current.endTick === selected.endTick) {
+        return;
+      }
+
+      const bars = ticksToBarRange(api, selected);
+      // Defer so AlphaTab finishes updating its own selection before we replace it
+      if (bars) setTimeout(() => applyRange(bars), 0);
+    };
+
+    api.playbackRangeChanged.on(handleRangeChanged);
+    return () => {
+      api.playbackRangeChanged.off(handleRangeChanged);
+    };
+  }, [api, applyRange]);
+
+  // Count completed passes through the loop
+  useEffect(() => {
+    if (!api?.playerPositionChanged) return;
+
+    const handlePosition = (e: alphaTab.synth.PositionChangedEventArgs) => {
+      const lastTick = lastTickRef.current;
+      lastTickRef.current = e.currentTick;
+
+      const ticks = rangeTicksRef.current;
+      if (!ticks || !trainerEnabled || e.isSeek) return;
+
+      // A large backward jump while looping means the player wrapped to the range start
+      const loopLength = ticks.endTick - ticks.startTick;
+      if (lastTick > e.currentTick && lastTick - e.currentTick > loopLength / 2) {
+        const clean = !missedRef.current;
+        missedRef.current = false;
+        setTrainerState((prev) => registerRepetition(prev, config, clean));
+      }
+    };
+
+    api.playerPositionChanged.on(handlePosition);
+    return () => {
+      api.playerPositionChanged.off(handlePosition);
+    };
+  }, [api, trainerEnabled, config]);
+
+  useEffect(() => {
+    if (trainerEnabled) {
+      callbacksRef.current.onSpeedChange(trainerState.currentPercent / 100);
+    }
+  }, [trainerEnabled, trainerState.currentPercent]);
+
+  const handleSetRange = () => {
+    const start = parseInt(fromBar, 10);
+    const end = parseInt(toBar, 10);
+    if (Number.isNaN(start) || Number.isNaN(end)) return;
+    applyRange({ startBar: start, endBar: end });
+  };
+
+  const handleTrainerToggle = (enabled: boolean) => {
+    if (enabled) {
+      const normalized = normalizeSpeedTrainerConfig(config);
+      setConfig(normalized);
+      setTrainerState(createSpeedTrainerState(normalized));
+      missedRef.current = false;
+    }
+    setTrainerEnabled(enabled);
+  };
+
+  const restartTrainer = () => {
+    setTrainerState(createSpeedTrainerState(config));
+    missedRef.current = false;
+  };
+
+  const updateConfig = (key: keyof SpeedTrainerConfig, value: string) => {
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) return;
+    setConfig((prev) => ({ ...prev, [key]: parsed }));
+  };
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-3">
+      {/* Bar range */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Repeat1 className="h-4 w-4 text-muted-foreground" />
+        <span className="text-xs font-semibold">Practice loop</span>
+        <div className="flex items-center gap-1">
+          <Label htmlFor="loop-from" className="text-xs text-muted-foreground">From</Label>
+          <Input
+            id="loop-from"
+            type="number"
+            min={1}
+            max={barCount}
+            value={fromBar}
+            onChange={(e) => setFromBar(e.target.value)}
+            className="h-7 w-16 text-xs"
+          />
+          <Label htmlFor="loop-to" className="text-xs text-muted-foreground">to</Label>
+          <Input
+            id="loop-to"
+            type="number"
+            min={1}
+            max={barCount}
+            value={toBar}
+            onChange={(e) => setToBar(e.target.value)}
+            className="h-7 w-16 text-xs"
+          />
+        </div>
+        <Button onClick={handleSetRange} variant="outline" size="sm" className="h-7 text-xs" disabled={!barCount}>
+          Loop bars
+        </Button>
+        {range && (
+          <>
+            <span className="text-xs text-primary font-medium">{formatBarRange(range)}</span>
+            <Button onClick={clearRange} variant="ghost" size="sm" className="h-7 text-xs" title="Clear loop">
+              <X className="h-3.5 w-3.5 mr-1" />
+              Clear
+            </Button>
+          </>
+        )}
+        {!range && (
+          <span className="text-xs text-muted-foreground">or drag across bars on the score</span>
+        )}
+      </div>
+
+      {/* Speed trainer */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="speed-trainer"
+            checked={trainerEnabled}
+            onCheckedChange={handleTrainerToggle}
+            disabled={!range}
+          />
+          <Label htmlFor="speed-trainer" className="text-xs flex items-center gap-1">
+            <Gauge className="h-3.5 w-3.5" />
+            Speed trainer
+          </Label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span>Start</span>
+          <Input
+            type="number"
+            value={config.startPercent}
+            onChange={(e) => updateConfig("startPercent", e.target.value)}
+            disabled={trainerEnabled}
+            className="h-7 w-16 text-xs"
+          />
+          <span>% +</span>
+          <Input
+            type="number"
+            value={config.stepPercent}
+            onChange={(e) => updateConfig("stepPercent", e.target.value)}
+            disabled={trainerEnabled}
+            className="h-7 w-14 text-xs"
+          />
+          <span>% every</span>
+          <Input
+            type="number"
+            value={config.cleanRepsPerStep}
+            onChange={(e) => updateConfig("cleanRepsPerStep", e.target.value)}
+            disabled={trainerEnabled}
+            className="h-7 w-14 text-xs"
+          />
+          <span>clean reps up to</span>
+          <Input
+            type="number"
+            value={config.targetPercent}
+            onChange={(e) => updateConfig("targetPercent", e.target.value)}
+            disabled={trainerEnabled}
+            className="h-7 w-16 text-xs"
+          />
+          <span>%</span>
+        </div>
+
+        {trainerEnabled && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-mono text-primary">
+              {trainerState.currentPercent}% · {trainerState.cleanReps}/{config.cleanRepsPerStep} clean
+              {trainerState.targetReached && " · target reached"}
+            </span>
+            <Button
+              onClick={() => { missedRef.current = true; }}
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              title="Mark the current repetition as not clean"
+            >
+              Missed
+            </Button>
+            <Button onClick={restartTrainer} variant="ghost" size="sm" className="h-7 w-7 p-0" title="Restart trainer">
+              <RotateCcw className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeLoopPanel;
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+import { SCORE_EXPORT_FORMATS, ScoreExportFormat, downloadBlob, exportScore } from "@/lib/scoreExport";
+
+interface ScoreExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  api: AlphaTabApi | null;
+  title: string;
+  transpose: number;
+  speed: number;
+}
+
+const ScoreExportDialog = ({ open, onOpenChange, api, title, transpose, speed }: ScoreExportDialogProps) => {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ScoreExportFormat>("midi");
+  const [exportTranspose, setExportTranspose] = useState(transpose);
+  const [exportSpeed, setExportSpeed] = useState(Math.round(speed * 100));
+
+  // Start from whatever the player is currently set to
+  useEffect(() => {
+    if (open) {
+      setExportTranspose(transpose);
+      setExportSpeed(Math.round(speed * 100));
+    }
+  }, [open, transpose, speed]);
+
+  const handleExport = () => {
+    const { extension } = SCORE_EXPORT_FORMATS.find((f) => f.value === format)!;
+    try {
+      const blob = exportScore(api, format, {
+        transpose: Math.max(-24, Math.min(24, Math.round(exportTranspose) || 0)),
+        speed: Math.max(25, Math.min(200, exportSpeed || 100)) / 100,
+      });
+      downloadBlob(blob, `${title}.${extension}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Score export failed:", error);
+      toast({ title: "Export failed", description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export score</DialogTitle>
+          <DialogDescription>Take this tab into a DAW or notation editor.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ScoreExportFormat)} className="flex gap-4">
+            {SCORE_EXPORT_FORMATS.map((f) => (
+              <div key={f.value} className="flex items-center gap-2">
+                <RadioGroupItem value={f.value} id={`export-${f.value}`} />
+                <Label htmlFor={`export-${f.value}`}>{f.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="export-transpose">Transpose (semitones)</Label>
+              <Input
+                id="export-transpose"
+                type="number"
+                min={-24}
+                max={24}
+                value={exportTranspose}
+                onChange={(e) => setExportTranspose(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="export-speed">Speed (%)</Label>
+              <Input
+                id="export-speed"
+                type="number"
+                min={25}
+                max={200}
+                step={5}
+                value={exportSpeed}
+                onChange={(e) => setExportSpeed(Number(e.target.value))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScoreExportDialog;
@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bookmark, CornerDownRight, ListTree, PanelLeftClose, Repeat, Repeat1, Signpost } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { alphaTab, AlphaTabApi } from "@/lib/alphaTab";
+import { barRangeToTicks, findBarAtTick, formatBarRange, seekToBar, TickRange } from "@/lib/barRange";
+import { getScoreMarks, isBarInRange, ScoreMark, ScoreMarkKind } from "@/lib/scoreSections";
+import { cn } from "@/lib/utils";
+
+interface SectionNavigatorProps {
+  api: AlphaTabApi | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_ICONS: Record<ScoreMarkKind, typeof Bookmark> = {
+  section: Bookmark,
+  repeat: Repeat,
+  ending: CornerDownRight,
+  direction: Signpost,
+};
+
+const SectionNavigator = ({ api, open, onOpenChange }: SectionNavigatorProps) => {
+  const [currentBar, setCurrentBar] = useState<number | null>(null);
+  const [loopTicks, setLoopTicks] = useState<TickRange | null>(null);
+
+  const score = api?.score ?? null;
+  const marks = useMemo(() => getScoreMarks(score), [score]);
+  const currentSection = marks.find((mark) => mark.kind === "section" && isBarInRange(currentBar, mark.range));
+
+  // Follow the cursor, only re-rendering when it crosses into another bar
+  useEffect(() => {
+    if (!api?.playerPositionChanged) return;
+
+    const handlePosition = (e: alphaTab.synth.PositionChangedEventArgs) => {
+      const bar = findBarAtTick(api, e.currentTick);
+      setCurrentBar((prev) => (prev === bar ? prev : bar));
+    };
+
+    api.playerPositionChanged.on(handlePosition);
+    return () => {
+      api.playerPositionChanged.off(handlePosition);
+    };
+  }, [api]);
+
+  // The practice loop panel and drag-selections change the range too
+  useEffect(() => {
+    if (!api?.playbackRangeChanged) return;
+
+    const handleRangeChanged = (e: alphaTab.synth.PlaybackRangeChangedEventArgs) => setLoopTicks(e?.playbackRange ?? null);
+
+    api.playbackRangeChanged.on(handleRangeChanged);
+    return () => {
+      api.playbackRangeChanged.off(handleRangeChanged);
+    };
+  }, [api]);
+
+  const isLooped = (mark: ScoreMark) => {
+    const ticks = barRangeToTicks(api, mark.range);
+    return !!ticks && !!loopTicks && ticks.startTick === loopTicks.startTick && ticks.endTick === loopTicks.endTick;
+  };
+
+  // The practice loop panel picks the new range up from playbackRangeChanged
+  const toggleLoop = (mark: ScoreMark) => {
+    if (isLooped(mark)) {
+      api.playbackRange = null;
+      return;
+    }
+    const ticks = barRangeToTicks(api, mark.range);
+    if (!ticks) return;
+    api.playbackRange = ticks;
+    api.isLooping = true;
+  };
+
+  if (marks.length === 0) return null;
+
+  if (!open) {
+    return (
+      <div className="shrink-0 border-r border-border pr-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          title="Show sections"
+          onClick={() => onOpenChange(true)}
+        >
+          <ListTree className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <aside className="w-56 shrink-0 border-r border-border pr-2 flex flex-col min-h-0">
+      <div className="flex items-center gap-2 pb-2">
+        <ListTree className="h-4 w-4 text-muted-foreground" />
+        <span className="text-xs font-semibold flex-1">Sections</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          title="Hide sections"
+          onClick={() => onOpenChange(false)}
+        >
+          <PanelLeftClose className="h-4 w-4" />
+        </Button>
+      </div>
+      {currentSection && (
+        <p className="text-xs text-primary font-medium pb-2 truncate">Now: {currentSection.label}</p>
+      )}
+
+      <div className="flex-1 overflow-y-auto space-y-0.5">
+        {marks.map((mark, i) => {
+          const Icon = KIND_ICONS[mark.kind];
+          const active = isBarInRange(currentBar, mark.range);
+          const looped = mark.kind !== "direction" && isLooped(mark);
+          return (
+            <div
+              key={`${mark.kind}-${mark.range.startBar}-${i}`}
+              className={cn(
+                "group/mark flex items-center gap-1 rounded-md",
+                mark.kind !== "section" && "pl-3",
+                active && mark.kind === "section" ? "bg-primary/10" : "hover:bg-muted/50"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => seekToBar(api, mark.range.startBar)}
+                className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 text-left"
+                title={`Jump to bar ${mark.range.startBar}`}
+              >
+                <Icon className={cn("h-3.5 w-3.5 shrink-0", active ? "text-primary" : "text-muted-foreground")} />
+                <span className="min-w-0">
+                  <span className={cn("block truncate", mark.kind === "section" ? "text-sm font-medium" : "text-xs")}>
+                    {mark.marker && <span className="text-muted-foreground mr-1">[{mark.marker}]</span>}
+                    {mark.label}
+                  </span>
+                  <span className="block text-[10px] text-muted-foreground">{formatBarRange(mark.range)}</span>
+                </span>
+              </button>
+              {mark.kind !== "direction" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn(
+                    "h-7 w-7 p-0 shrink-0",
+                    looped ? "text-primary" : "opacity-0 group-hover/mark:opacity-100 focus-visible:opacity-100"
+                  )}
+                  title={looped ? "Stop looping" : `Loop ${formatBarRange(mark.range).toLowerCase()}`}
+                  onClick={() => toggleLoop(mark)}
+                >
+                  <Repeat1 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default SectionNavigator;
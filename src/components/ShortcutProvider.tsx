@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState, ReactNode } from "react";
+import { ShortcutContext, ShortcutRegistration } from "@/hooks/shortcutContext";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  SHORTCUT_PLAYER_ATTRIBUTE,
+  ShortcutBindings,
+  ShortcutCommand,
+  findCommandForEvent,
+  isEditableTarget,
+  readShortcutBindings,
+  rebindShortcut,
+  writeShortcutBindings,
+} from "@/lib/shortcuts";
+
+export const ShortcutProvider = ({ children }: { children: ReactNode }) => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(readShortcutBindings);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const registrationsRef = useRef<ShortcutRegistration[]>([]);
+  const activePlayerRef = useRef<string | null>(null);
+  const recordingRef = useRef(false);
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const helpOpenRef = useRef(helpOpen);
+  helpOpenRef.current = helpOpen;
+
+  const register = useRef((registration: ShortcutRegistration) => {
+    registrationsRef.current = [...registrationsRef.current, registration];
+    return () => {
+      registrationsRef.current = registrationsRef.current.filter((r) => r !== registration);
+      if (activePlayerRef.current === registration.id) activePlayerRef.current = null;
+    };
+  }).current;
+
+  // Track which player was interacted with last
+  useEffect(() => {
+    const handleInteraction = (e: Event) => {
+      const player = (e.target as HTMLElement | null)?.closest?.(`[${SHORTCUT_PLAYER_ATTRIBUTE}]`);
+      if (player) activePlayerRef.current = player.getAttribute(SHORTCUT_PLAYER_ATTRIBUTE);
+    };
+
+    document.addEventListener("pointerdown", handleInteraction, true);
+    document.addEventListener("focusin", handleInteraction, true);
+    return () => {
+      document.removeEventListener("pointerdown", handleInteraction, true);
+      document.removeEventListener("focusin", handleInteraction, true);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (recordingRef.current || isEditableTarget(e.target)) return;
+      const command = findCommandForEvent(bindingsRef.current, e);
+      if (!command) return;
+
+      if (command === "showHelp") {
+        e.preventDefault();
+        setHelpOpen(true);
+        return;
+      }
+      if (helpOpenRef.current) return;
+
+      // The focused player if it knows the command, otherwise the highest priority, newest one that does
+      const registrations = registrationsRef.current;
+      const active = registrations.find((r) => r.id === activePlayerRef.current && r.handlersRef.current[command]);
+      const target =
+        active ??
+        registrations
+          .map((r, index) => ({ r, index }))
+          .filter(({ r }) => r.handlersRef.current[command])
+          .sort((a, b) => b.r.priority - a.r.priority || b.index - a.index)[0]?.r;
+
+      const handler = target?.handlersRef.current[command];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const rebind = useCallback((command: ShortcutCommand, combo: string) => {
+    const next = rebindShortcut(bindingsRef.current, command, combo);
+    setBindings(next);
+    writeShortcutBindings(next);
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    setBindings(DEFAULT_SHORTCUT_BINDINGS);
+    writeShortcutBindings(DEFAULT_SHORTCUT_BINDINGS);
+  }, []);
+
+  const setRecording = useCallback((recording: boolean) => {
+    recordingRef.current = recording;
+  }, []);
+
+  return (
+    <ShortcutContext.Provider
+      value={{ bindings, rebind, resetBindings, helpOpen, setHelpOpen, setRecording, register }}
+    >
+      {children}
+    </ShortcutContext.Provider>
+  );
+};
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Bookmark, StickyNote } from "lucide-react";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+import { seekToBar } from "@/lib/barRange";
+import { TabAnnotation, useTabAnnotations } from "@/hooks/useTabAnnotations";
+
+interface TabAnnotationsOverlayProps {
+  api: AlphaTabApi | null;
+  embedId?: string;
+}
+
+interface PositionedAnnotation {
+  annotation: TabAnnotation;
+  x: number;
+  y: number;
+}
+
+const MARKER_SPACING = 14;
+
+// Beat notes are resolved on the first rendered track, falling back to the bar
+const getAnnotationBounds = (api: AlphaTabApi, annotation: TabAnnotation) => {
+  const lookup = api?.boundsLookup;
+  if (!lookup) return null;
+
+  if (annotation.beat_index !== null) {
+    const bar = api.tracks?.[0]?.staves?.[0]?.bars?.[annotation.bar_number - 1];
+    const beat = bar?.voices?.[0]?.beats?.[annotation.beat_index];
+    const beatBounds = beat ? lookup.findBeat(beat) : null;
+    if (beatBounds) return beatBounds.visualBounds;
+  }
+
+  const masterBarBounds = lookup.findMasterBarByIndex(annotation.bar_number - 1);
+  return masterBarBounds?.visualBounds ?? null;
+};
+
+// Draws the user's bookmarks and notes on top of the rendered score
+const TabAnnotationsOverlay = ({ api, embedId }: TabAnnotationsOverlayProps) => {
+  const { annotations, enabled } = useTabAnnotations(embedId);
+  const [positions, setPositions] = useState<PositionedAnnotation[]>([]);
+  const [renderCount, setRenderCount] = useState(0);
+
+  // Bounds change whenever the score is re-laid out (zoom, resize, track switch)
+  useEffect(() => {
+    if (!api?.postRenderFinished) return;
+
+    const handleRendered = () => setRenderCount((count) => count + 1);
+    api.postRenderFinished.on(handleRendered);
+    return () => {
+      api.postRenderFinished.off(handleRendered);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    if (!enabled || annotations.length === 0) {
+      setPositions([]);
+      return;
+    }
+
+    const anchors = new Map<string, number>();
+    const next: PositionedAnnotation[] = [];
+    for (const annotation of annotations) {
+      const bounds = getAnnotationBounds(api, annotation);
+      if (!bounds) continue;
+
+      // Spread markers that share an anchor so they don't overlap
+      const key = `${Math.round(bounds.x)}:${Math.round(bounds.y)}`;
+      const offset = anchors.get(key) ?? 0;
+      anchors.set(key, offset + 1);
+
+      next.push({
+        annotation,
+        x: bounds.x + offset * MARKER_SPACING,
+        y: Math.max(0, bounds.y - 16),
+      });
+    }
+    setPositions(next);
+  }, [api, annotations, enabled, renderCount]);
+
+  // In the browser the container wraps the element the score is rendered into
+  const container = (api?.container as { element?: HTMLElement } | undefined)?.element;
+  if (!container || positions.length === 0) return null;
+
+  return createPortal(
+    <div className="absolute left-0 top-0" style={{ zIndex: 1001, pointerEvents: "none" }}>
+      {positions.map(({ annotation, x, y }) => (
+        <button
+          key={annotation.id}
+          type="button"
+          onClick={() => seekToBar(api, annotation.bar_number)}
+          title={annotation.kind === "bookmark" ? annotation.title ?? "" : annotation.body ?? ""}
+          className={
+            annotation.kind === "bookmark"
+              ? "absolute flex items-center gap-1 rounded bg-primary px-1.5 py-0.5 text-[10px] font-medium text-primary-foreground shadow hover:bg-primary/90"
+              : "absolute flex h-4 w-4 items-center justify-center rounded-full bg-amber-400 text-amber-950 shadow hover:bg-amber-300"
+          }
+          style={{ left: x, top: y, pointerEvents: "auto" }}
+        >
+          {annotation.kind === "bookmark" ? (
+            <>
+              <Bookmark className="h-3 w-3" />
+              {annotation.title}
+            </>
+          ) : (
+            <StickyNote className="h-2.5 w-2.5" />
+          )}
+        </button>
+      ))}
+    </div>,
+    container
+  );
+};
+
+export default TabAnnotationsOverlay;
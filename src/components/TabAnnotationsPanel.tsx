@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Bookmark, StickyNote, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { TabAnnotation, useTabAnnotations } from "@/hooks/useTabAnnotations";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+import { findBarAtTick, seekToBar } from "@/lib/barRange";
+import { z } from "zod";
+
+interface TabAnnotationsPanelProps {
+  api: AlphaTabApi | null;
+  embedId?: string;
+}
+
+const bookmarkSchema = z
+  .string()
+  .trim()
+  .min(1, "Bookmark name cannot be empty")
+  .max(100, "Bookmark name must be less than 100 characters");
+
+const noteSchema = z
+  .string()
+  .trim()
+  .min(1, "Note cannot be empty")
+  .max(1000, "Note must be less than 1000 characters");
+
+// Bar and beat under the playback cursor; the beat is taken from the first rendered track
+const getCursorPosition = (api: AlphaTabApi | null): { bar: number; beatIndex: number | null } | null => {
+  const tick = api?.tickPosition ?? 0;
+  const bar = findBarAtTick(api, tick);
+  if (bar === null) return null;
+
+  let beatIndex: number | null = null;
+  try {
+    const firstTrack = api.tracks?.[0];
+    const result = firstTrack ? api.tickCache?.findBeat(new Set([firstTrack.index]), tick) : null;
+    const beat = result?.beat;
+    if (beat && beat.voice?.bar?.index === bar - 1) {
+      beatIndex = beat.index;
+    }
+  } catch (e) {
+    console.warn("Failed to resolve beat at cursor:", e);
+  }
+  return { bar, beatIndex };
+};
+
+const TabAnnotationsPanel = ({ api, embedId }: TabAnnotationsPanelProps) => {
+  const { toast } = useToast();
+  const { bookmarks, notes, enabled, isLoading, createMutation, deleteMutation } = useTabAnnotations(embedId);
+  const [bookmarkName, setBookmarkName] = useState("");
+  const [noteText, setNoteText] = useState("");
+  const [attachToBeat, setAttachToBeat] = useState(true);
+
+  const validate = (schema: z.ZodString, value: string): string | null => {
+    try {
+      return schema.parse(value);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({ title: "Validation Error", description: error.errors[0].message, variant: "destructive" });
+      }
+      return null;
+    }
+  };
+
+  const addBookmark = () => {
+    const title = validate(bookmarkSchema, bookmarkName);
+    const position = getCursorPosition(api);
+    if (!title || !position) return;
+
+    createMutation.mutate(
+      { kind: "bookmark", bar_number: position.bar, title },
+      { onSuccess: () => setBookmarkName("") }
+    );
+  };
+
+  const addNote = () => {
+    const body = validate(noteSchema, noteText);
+    const position = getCursorPosition(api);
+    if (!body || !position) return;
+
+    createMutation.mutate(
+      {
+        kind: "note",
+        bar_number: position.bar,
+        beat_index: attachToBeat ? position.beatIndex : null,
+        body,
+      },
+      { onSuccess: () => setNoteText("") }
+    );
+  };
+
+  const renderEntry = (annotation: TabAnnotation) => (
+    <div key={annotation.id} className="flex items-start gap-2 py-1">
+      <button
+        type="button"
+        onClick={() => seekToBar(api, annotation.bar_number)}
+        className="flex-1 min-w-0 text-left text-xs hover:text-primary transition-colors"
+      >
+        <span className="text-muted-foreground mr-2">
+          Bar {annotation.bar_number}
+          {annotation.beat_index !== null && `, beat ${annotation.beat_index + 1}`}
+        </span>
+        <span className={annotation.kind === "note" ? "whitespace-pre-wrap break-words" : "font-medium"}>
+          {annotation.kind === "bookmark" ? annotation.title : annotation.body}
+        </span>
+      </button>
+      <Button
+        onClick={() => deleteMutation.mutate(annotation.id)}
+        variant="ghost"
+        size="sm"
+        title="Delete"
+        className="h-6 w-6 p-0 shrink-0"
+        disabled={deleteMutation.isPending}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Bookmark className="h-4 w-4 text-muted-foreground" />
+        <span className="text-xs font-semibold">Bookmarks & Notes</span>
+        <span className="text-xs text-muted-foreground">Only visible to you</span>
+      </div>
+
+      {!enabled ? (
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground mb-2">Sign in to bookmark bars and keep notes</p>
+          <Link to="/auth">
+            <Button size="sm" variant="outline">
+              Sign In
+            </Button>
+          </Link>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-xs">Bookmark the current bar</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={bookmarkName}
+                  onChange={(e) => setBookmarkName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addBookmark()}
+                  placeholder="e.g. Solo"
+                  maxLength={100}
+                  className="h-8 text-xs"
+                />
+                <Button onClick={addBookmark} size="sm" className="h-8 text-xs" disabled={createMutation.isPending}>
+                  <Bookmark className="h-3.5 w-3.5 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs">Note at the cursor</Label>
+                <div className="flex items-center gap-2">
+                  <Switch id="note-attach-beat" checked={attachToBeat} onCheckedChange={setAttachToBeat} />
+                  <Label htmlFor="note-attach-beat" className="text-xs text-muted-foreground">
+                    Pin to beat
+                  </Label>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Textarea
+                  value={noteText}
+                  onChange={(e) => setNoteText(e.target.value)}
+                  placeholder="Fingering, reminders..."
+                  maxLength={1000}
+                  className="min-h-[2rem] h-8 text-xs"
+                />
+                <Button onClick={addNote} size="sm" className="h-8 text-xs" disabled={createMutation.isPending}>
+                  <StickyNote className="h-3.5 w-3.5 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground">Loading...</p>
+          ) : bookmarks.length === 0 && notes.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Nothing saved yet. Move the cursor to a bar and add a bookmark or a note.
+            </p>
+          ) : (
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground mb-1">Bookmarks</p>
+                {bookmarks.length > 0 ? bookmarks.map(renderEntry) : <p className="text-xs text-muted-foreground">None</p>}
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground mb-1">Notes</p>
+                {notes.length > 0 ? notes.map(renderEntry) : <p className="text-xs text-muted-foreground">None</p>}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TabAnnotationsPanel;
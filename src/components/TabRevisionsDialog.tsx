@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Eye, EyeOff, History, Loader2, RotateCcw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { TabRevision, useTabRevisions } from "@/hooks/useTabRevisions";
+import AlphaTabPlayer from "./AlphaTabPlayer";
+
+interface TabRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  embed: { id: string; title: string; file_url: string | null } | null;
+}
+
+const TabRevisionsDialog = ({ open, onOpenChange, embed }: TabRevisionsDialogProps) => {
+  const { user } = useAuth();
+  const { revisions, isLoading, addRevision, isAdding, rollback, isRollingBack } = useTabRevisions(
+    open ? embed?.id : undefined
+  );
+  const [file, setFile] = useState<File | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setChangeNote("");
+      setPreviewId(null);
+    }
+  }, [open]);
+
+  const previewRevision = revisions.find((r) => r.id === previewId) ?? null;
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    try {
+      await addRevision({ file, fileName: file.name, changeNote });
+      setFile(null);
+      setChangeNote("");
+      const fileInput = document.getElementById("revisionFile") as HTMLInputElement;
+      if (fileInput) fileInput.value = "";
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  const uploaderLabel = (revision: TabRevision) => {
+    if (!revision.uploaded_by) return "unknown";
+    return revision.uploaded_by === user?.id ? "you" : `admin ${revision.uploaded_by.slice(0, 8)}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Versions of {embed?.title}
+          </DialogTitle>
+          <DialogDescription>
+            Upload a new file or roll back to an earlier one. Comments and bookmarks stay with the tab.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleUpload} className="space-y-3 rounded-lg border border-border p-4">
+          <div>
+            <Label htmlFor="revisionFile">New Guitar Pro file</Label>
+            <Input
+              id="revisionFile"
+              type="file"
+              accept=".gp,.gp3,.gp4,.gp5,.gpx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="changeNote">What changed</Label>
+            <Textarea
+              id="changeNote"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="e.g. Fixed the solo in bar 42"
+              rows={2}
+            />
+          </div>
+          <Button type="submit" disabled={!file || isAdding}>
+            {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            {isAdding ? "Uploading..." : "Upload new version"}
+          </Button>
+        </form>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading versions...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No versions recorded yet</p>
+          ) : (
+            revisions.map((revision, index) => {
+              const isCurrent = revision.file_url === embed?.file_url;
+              return (
+                <div
+                  key={revision.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-secondary rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-sm">Version {revisions.length - index}</span>
+                      {isCurrent && <Badge>Current</Badge>}
+                    </div>
+                    {revision.change_note && <p className="text-sm">{revision.change_note}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      Uploaded {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })} by{" "}
+                      {uploaderLabel(revision)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewId(previewId === revision.id ? null : revision.id)}
+                    >
+                      {previewId === revision.id ? (
+                        <EyeOff className="h-4 w-4 mr-1" />
+                      ) : (
+                        <Eye className="h-4 w-4 mr-1" />
+                      )}
+                      Preview
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isCurrent || isRollingBack}
+                      onClick={() => rollback(revision)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Roll back
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {previewRevision && (
+          <div className="border-t border-border pt-4">
+            <AlphaTabPlayer
+              key={previewRevision.id}
+              fileUrl={previewRevision.file_url}
+              title={`${embed?.title} (preview)`}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TabRevisionsDialog;
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Drum, Guitar } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { getInstrumentByProgram } from "@/constants/instruments";
+import type { GuitarProTrackMetadata } from "@/lib/guitarProMetadata";
+import { TrackInstrument, sanitizeTrackInstruments } from "@/lib/trackInstruments";
+import InstrumentSelect from "./InstrumentSelect";
+
+interface TrackInstrumentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  embed: {
+    id: string;
+    title: string;
+    default_instrument: { name: string; program: number } | null;
+    tracks: unknown;
+    track_instruments: unknown;
+  } | null;
+}
+
+const TrackInstrumentsDialog = ({ open, onOpenChange, embed }: TrackInstrumentsDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [programs, setPrograms] = useState<Record<number, number>>({});
+
+  const embedTracks = embed?.tracks;
+  const tracks = useMemo(
+    () => (Array.isArray(embedTracks) ? embedTracks : []) as GuitarProTrackMetadata[],
+    [embedTracks]
+  );
+
+  useEffect(() => {
+    if (!open || !embed) return;
+    const stored = sanitizeTrackInstruments(embed.track_instruments);
+    const next: Record<number, number> = {};
+    tracks.forEach((track, index) => {
+      const match = stored.find((entry) => entry.index === index && entry.name === track.name);
+      if (match) next[index] = match.program;
+    });
+    setPrograms(next);
+  }, [open, embed, tracks]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const trackInstruments: TrackInstrument[] = tracks
+        .map((track, index) => ({ index, name: track.name, program: programs[index] }))
+        .filter((entry) => entry.program !== undefined);
+      const { error } = await supabase
+        .from("guitar_embeds")
+        .update({ track_instruments: trackInstruments as unknown as Json })
+        .eq("id", embed!.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["guitar-embeds"] });
+      queryClient.invalidateQueries({ queryKey: ["guitar-embed", embed!.id] });
+      toast({ title: "Track instruments saved" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setProgram = (index: number, program: number | null) => {
+    setPrograms((prev) => {
+      const next = { ...prev };
+      if (program === null) delete next[index];
+      else next[index] = program;
+      return next;
+    });
+  };
+
+  const defaultLabel = embed?.default_instrument ? `Default (${embed.default_instrument.name})` : "Default instrument";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Guitar className="h-5 w-5" />
+            Track instruments for {embed?.title}
+          </DialogTitle>
+          <DialogDescription>
+            Pick a synth instrument for individual tracks. Tracks left on the default use the tab's default
+            instrument. Listeners can still change them for themselves in the mixer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {tracks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No track information yet. Extract the metadata from the file first.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {tracks.map((track, index) => (
+              <div key={index} className="grid grid-cols-[minmax(0,1fr)_16rem] items-center gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{track.name || `Track ${index + 1}`}</p>
+                  <p className="text-xs text-muted-foreground">
+                    In file: {getInstrumentByProgram(track.program)?.name ?? `Program ${track.program}`}
+                  </p>
+                </div>
+                {track.is_percussion ? (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Drum className="h-3.5 w-3.5" />
+                    Drums keep their kit
+                  </p>
+                ) : (
+                  <InstrumentSelect
+                    value={programs[index] ?? null}
+                    onChange={(program) => setProgram(index, program)}
+                    defaultLabel={defaultLabel}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!embed || tracks.length === 0 || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TrackInstrumentsDialog;
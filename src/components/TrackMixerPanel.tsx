@@ -0,0 +1,225 @@
+import { useCallback, useState, useEffect, useRef } from "react";
+import { SlidersHorizontal, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import type { AlphaTabApi, Track } from "@/lib/alphaTab";
+import { cn } from "@/lib/utils";
+import { useTrackMix } from "@/hooks/useTrackMix";
+import { getInstrumentByProgram } from "@/constants/instruments";
+import InstrumentSelect from "./InstrumentSelect";
+import {
+  TrackMix,
+  TrackMixEntry,
+  applyMixToSynth,
+  applyPanToScore,
+  createDefaultMix,
+  mergeSavedMix,
+} from "@/lib/trackMixer";
+
+interface TrackMixerPanelProps {
+  api: AlphaTabApi | null;
+  tracks: Track[];
+  isPlaying: boolean;
+  embedId?: string;
+  onMixChange?: (mix: TrackMix) => void;
+  // Instrument per track index without a session override
+  defaultPrograms?: number[];
+  // Instruments picked here; they are not saved with the mix
+  sessionPrograms?: Record<number, number>;
+  onProgramChange?: (trackIndex: number, program: number | null) => void;
+  availableInstruments?: number[] | null;
+}
+
+const TrackMixerPanel = ({
+  api,
+  tracks,
+  isPlaying,
+  embedId,
+  onMixChange,
+  defaultPrograms = [],
+  sessionPrograms = {},
+  onProgramChange,
+  availableInstruments,
+}: TrackMixerPanelProps) => {
+  const { savedMix, isLoading, saveMix, canPersist } = useTrackMix(embedId);
+  const [mix, setMix] = useState<TrackMix>(() => createDefaultMix(tracks));
+  // Defaults are captured before any pan is written back into the score
+  const defaultMixRef = useRef<TrackMix>(createDefaultMix(tracks));
+  const mixRef = useRef(mix);
+  const restoredRef = useRef(false);
+  // Read when the mix changes, so a new callback from the parent doesn't re-run the effects
+  const latestRef = useRef({ isPlaying, onMixChange });
+  latestRef.current = { isPlaying, onMixChange };
+
+  const reloadMidi = useCallback(() => {
+    if (!api || typeof api.loadMidiForScore !== "function") return;
+    const wasPlaying = latestRef.current.isPlaying;
+    api.loadMidiForScore();
+    if (wasPlaying) {
+      setTimeout(() => api.play(), 100);
+    }
+  }, [api]);
+
+  const commitMix = useCallback(
+    (next: TrackMix, persist = true) => {
+      mixRef.current = next;
+      setMix(next);
+      latestRef.current.onMixChange?.(next);
+      applyMixToSynth(api, next);
+      if (persist) saveMix(next);
+    },
+    [api, saveMix]
+  );
+
+  // Capture defaults when a new score is loaded
+  useEffect(() => {
+    const defaults = createDefaultMix(tracks);
+    defaultMixRef.current = defaults;
+    restoredRef.current = false;
+    mixRef.current = defaults;
+    setMix(defaults);
+    latestRef.current.onMixChange?.(defaults);
+  }, [tracks]);
+
+  // Restore the saved mix once it has loaded
+  useEffect(() => {
+    if (!api || isLoading || restoredRef.current || tracks.length === 0) return;
+    restoredRef.current = true;
+
+    const restored = mergeSavedMix(defaultMixRef.current, savedMix);
+    commitMix(restored, false);
+    if (applyPanToScore(api, restored)) {
+      reloadMidi();
+    }
+  }, [api, tracks, savedMix, isLoading, commitMix, reloadMidi]);
+
+  // Synth channel state is rebuilt when the MIDI is regenerated (instrument, transpose, pan)
+  useEffect(() => {
+    if (!api?.midiLoaded) return;
+
+    const handleMidiLoaded = () => applyMixToSynth(api, mixRef.current);
+    api.midiLoaded.on(handleMidiLoaded);
+    return () => {
+      api.midiLoaded.off(handleMidiLoaded);
+    };
+  }, [api]);
+
+  const updateTrack = (index: number, changes: Partial<TrackMixEntry>, persist = true) => {
+    const next = {
+      tracks: mixRef.current.tracks.map((t) => (t.index === index ? { ...t, ...changes } : t)),
+    };
+    commitMix(next, persist);
+  };
+
+  const commitPan = () => {
+    saveMix(mixRef.current);
+    if (applyPanToScore(api, mixRef.current)) {
+      reloadMidi();
+    }
+  };
+
+  const resetMix = () => {
+    const defaults = defaultMixRef.current;
+    commitMix(defaults);
+    if (applyPanToScore(api, defaults)) {
+      reloadMidi();
+    }
+  };
+
+  const formatPan = (pan: number) => {
+    if (pan === 0) return "C";
+    return pan < 0 ? `L${Math.abs(pan)}` : `R${pan}`;
+  };
+
+  return (
+    <div className="border-t border-border bg-muted/20 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+          <span className="text-xs font-semibold">Mixer</span>
+          <span className="text-xs text-muted-foreground">
+            {canPersist ? "Your mix is saved for this tab" : "Sign in to remember your mix"}
+          </span>
+        </div>
+        <Button onClick={resetMix} variant="ghost" size="sm" className="h-7 text-xs">
+          <RotateCcw className="h-3.5 w-3.5 mr-1" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        {mix.tracks.map((entry) => (
+          <div
+            key={entry.index}
+            className="grid grid-cols-[minmax(0,1fr)_auto] md:grid-cols-[minmax(0,12rem)_auto_minmax(0,12rem)_minmax(0,1fr)_minmax(0,10rem)] items-center gap-x-3 gap-y-1 py-1"
+          >
+            <span className="text-xs font-medium truncate" title={entry.name}>
+              {entry.name}
+            </span>
+
+            <div className="flex items-center gap-1">
+              <Button
+                onClick={() => updateTrack(entry.index, { mute: !entry.mute })}
+                variant="outline"
+                size="sm"
+                title="Mute"
+                className={cn("h-7 w-7 p-0 text-xs font-bold", entry.mute && "bg-destructive text-destructive-foreground hover:bg-destructive/90")}
+              >
+                M
+              </Button>
+              <Button
+                onClick={() => updateTrack(entry.index, { solo: !entry.solo })}
+                variant="outline"
+                size="sm"
+                title="Solo"
+                className={cn("h-7 w-7 p-0 text-xs font-bold", entry.solo && "bg-primary text-primary-foreground hover:bg-primary/90")}
+              >
+                S
+              </Button>
+            </div>
+
+            <div className="col-span-2 md:col-span-1">
+              {onProgramChange && !tracks[entry.index]?.staves?.[0]?.isPercussion && (
+                <InstrumentSelect
+                  value={sessionPrograms[entry.index] ?? null}
+                  onChange={(program) => onProgramChange(entry.index, program)}
+                  defaultLabel={`Tab: ${getInstrumentByProgram(defaultPrograms[entry.index])?.name ?? "file instrument"}`}
+                  availableInstruments={availableInstruments}
+                  className="h-7 text-xs"
+                />
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 col-span-2 md:col-span-1">
+              <span className="text-[10px] text-muted-foreground w-6">Vol</span>
+              <Slider
+                value={[entry.volume]}
+                onValueChange={(value) => updateTrack(entry.index, { volume: value[0] })}
+                max={100}
+                step={1}
+                className="flex-1"
+              />
+              <span className="text-[10px] text-muted-foreground min-w-[3ch] text-right">{entry.volume}</span>
+            </div>
+
+            <div className="flex items-center gap-2 col-span-2 md:col-span-1">
+              <span className="text-[10px] text-muted-foreground w-6">Pan</span>
+              <Slider
+                value={[entry.pan]}
+                onValueChange={(value) => updateTrack(entry.index, { pan: value[0] }, false)}
+                onValueCommit={commitPan}
+                min={-100}
+                max={100}
+                step={5}
+                className="flex-1"
+              />
+              <span className="text-[10px] text-muted-foreground min-w-[4ch] text-right">{formatPan(entry.pan)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrackMixerPanel;
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
+import { useAudioFocus } from "@/hooks/useAudioFocus";
 
 interface WaveformVisualizerProps {
   audioUrl?: string;
@@ -15,6 +16,7 @@ export const WaveformVisualizer = ({
   className 
 }: WaveformVisualizerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioFocus = useAudioFocus();
   const [waveformData, setWaveformData] = useState<number[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [dragPosition, setDragPosition] = useState<number | null>(null);
@@ -166,10 +168,8 @@ export const WaveformVisualizer = ({
     const x = e.clientX - rect.left;
     const seekProgress = Math.max(0, Math.min(1, x / rect.width));
     
-    // Dispatch event to seek to this position
-    window.dispatchEvent(new CustomEvent('seekToPosition', { 
-      detail: { progress: seekProgress } 
-    }));
+    // Seek the MP3 player to this position
+    audioFocus.seek(seekProgress);
     
     setIsDragging(false);
     setDragPosition(null);
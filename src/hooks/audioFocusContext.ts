@@ -0,0 +1,4 @@
+import { createContext } from "react";
+import type { AudioFocusManager } from "@/lib/audioFocus";
+
+export const AudioFocusContext = createContext<AudioFocusManager | undefined>(undefined);
@@ -0,0 +1,23 @@
+import { createContext, MutableRefObject } from "react";
+import type { ShortcutBindings, ShortcutCommand } from "@/lib/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<Exclude<ShortcutCommand, "showHelp">, () => void>>;
+
+export interface ShortcutRegistration {
+  id: string;
+  priority: number;
+  handlersRef: MutableRefObject<ShortcutHandlers>;
+}
+
+export interface ShortcutContextType {
+  bindings: ShortcutBindings;
+  rebind: (command: ShortcutCommand, combo: string) => void;
+  resetBindings: () => void;
+  helpOpen: boolean;
+  setHelpOpen: (open: boolean) => void;
+  // Pauses all shortcuts while a new key is being recorded
+  setRecording: (recording: boolean) => void;
+  register: (registration: ShortcutRegistration) => () => void;
+}
+
+export const ShortcutContext = createContext<ShortcutContextType | undefined>(undefined);
@@ -0,0 +1,46 @@
+import { useContext, useEffect, useRef, useSyncExternalStore } from "react";
+import { AudioFocusContext } from "@/hooks/audioFocusContext";
+import type { AudioFocusSource } from "@/lib/audioFocus";
+
+export const useAudioFocus = () => {
+  const context = useContext(AudioFocusContext);
+  if (context === undefined) {
+    throw new Error("useAudioFocus must be used within an AudioFocusProvider");
+  }
+  return context;
+};
+
+// What the site is playing right now, re-rendering on every change
+export const useNowPlaying = () => {
+  const manager = useAudioFocus();
+  return useSyncExternalStore(
+    (listener) => manager.subscribe(listener),
+    () => manager.getNowPlaying()
+  );
+};
+
+// Registers an audio source for as long as the component is mounted. The callbacks
+// may change between renders; the manager always calls the latest ones.
+export const useAudioFocusSource = (source: AudioFocusSource | null) => {
+  const manager = useAudioFocus();
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  const id = source?.id ?? null;
+  const interruption = source?.interruption;
+
+  useEffect(() => {
+    if (!id || !interruption) return;
+    const current = () => sourceRef.current;
+    return manager.register({
+      id,
+      interruption,
+      pause: () => current()?.pause(),
+      setDucked: (ducked) => current()?.setDucked?.(ducked),
+      playTrack: sourceRef.current?.playTrack && ((index) => current()?.playTrack?.(index)),
+      togglePlayback: sourceRef.current?.togglePlayback && (() => current()?.togglePlayback?.()),
+      seek: sourceRef.current?.seek && ((progress) => current()?.seek?.(progress)),
+    });
+  }, [manager, id, interruption]);
+
+  return manager;
+};
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useSoundFontUrl } from "@/hooks/useSoundFontUrl";
+import {
+  EMPTY_OFFLINE_INDEX,
+  OfflineKind,
+  clearOffline,
+  getOfflineItem,
+  getOfflineUrls,
+  getOfflineUsage,
+  isOfflineSupported,
+  readOfflineIndex,
+  removeOffline,
+  saveOffline,
+} from "@/lib/offline";
+
+const queryKey = ["offline-content"];
+
+// The row as loaded by the page; it is stored whole so the page can render it offline
+export interface OfflineRow {
+  id: string;
+  title: string;
+}
+
+// Whether the browser currently has a network connection
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// Tabs and recordings saved on this device
+export const useOfflineContent = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const soundFontUrl = useSoundFontUrl();
+  const isSupported = isOfflineSupported();
+  const [progress, setProgress] = useState<{ key: string; done: number; total: number } | null>(null);
+
+  const { data: index = EMPTY_OFFLINE_INDEX, isLoading } = useQuery({
+    queryKey,
+    queryFn: readOfflineIndex,
+    enabled: isSupported,
+    staleTime: Infinity,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ kind, row }: { kind: OfflineKind; row: OfflineRow }) => {
+      const key = `${kind}:${row.id}`;
+      const data = row as unknown as Record<string, unknown>;
+      try {
+        return await saveOffline(
+          { kind, id: row.id, title: row.title, row: data, urls: getOfflineUrls(kind, data, soundFontUrl) },
+          (done, total) => setProgress({ key, done, total })
+        );
+      } finally {
+        setProgress(null);
+      }
+    },
+    onSuccess: (next, { row }) => {
+      queryClient.setQueryData(queryKey, next);
+      // Best effort: without it the browser may evict the cache when space runs low
+      navigator.storage?.persist?.().catch(() => undefined);
+      toast({ title: "Available offline", description: `"${row.title}" is saved on this device.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save for offline use", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: ({ kind, id }: { kind: OfflineKind; id: string }) => removeOffline(kind, id),
+    onSuccess: (next) => {
+      queryClient.setQueryData(queryKey, next);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: clearOffline,
+    onSuccess: () => {
+      queryClient.setQueryData(queryKey, EMPTY_OFFLINE_INDEX);
+      toast({ title: "Offline content removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const savingKey = saveMutation.isPending ? `${saveMutation.variables.kind}:${saveMutation.variables.row.id}` : null;
+
+  return {
+    isSupported,
+    isLoading: isSupported && isLoading,
+    index,
+    items: index.items,
+    usage: getOfflineUsage(index),
+    isSaved: (kind: OfflineKind, id: string) => !!getOfflineItem(index, kind, id),
+    isSaving: (kind: OfflineKind, id: string) => savingKey === `${kind}:${id}`,
+    // 0..1 while the given item downloads
+    getProgress: (kind: OfflineKind, id: string) =>
+      progress?.key === `${kind}:${id}` ? progress.done / progress.total : null,
+    save: (kind: OfflineKind, row: OfflineRow) => saveMutation.mutate({ kind, row }),
+    remove: (kind: OfflineKind, id: string) => removeMutation.mutate({ kind, id }),
+    clear: clearMutation.mutate,
+    isClearing: clearMutation.isPending,
+  };
+};
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  EMPTY_STORED_PREFERENCES,
+  PlayerPreferences,
+  StoredPlayerPreferences,
+  applyPreferenceChanges,
+  hasTabOverride,
+  readLocalPlayerPreferences,
+  resolvePlayerPreferences,
+  sanitizeStoredPreferences,
+  setTabOverride,
+  writeLocalPlayerPreferences,
+} from "@/lib/playerPreferences";
+
+const SAVE_DELAY_MS = 800;
+
+export interface PlayerPreferencesState {
+  preferences: PlayerPreferences;
+  isLoaded: boolean;
+  // Bumped whenever the player should re-apply everything (load, tab override toggled, reset)
+  version: number;
+  updatePreferences: (changes: Partial<PlayerPreferences>) => void;
+  hasTabPreferences: boolean;
+  setTabPreferences: (enabled: boolean) => void;
+  resetPreferences: () => void;
+}
+
+// Player preferences of the signed-in user, or of this browser for anonymous visitors
+export const usePlayerPreferences = (embedId?: string): PlayerPreferencesState => {
+  const { user, loading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const [localStored, setLocalStored] = useState<StoredPlayerPreferences>(readLocalPlayerPreferences);
+  const [version, setVersion] = useState(0);
+  const queryKey = ["player-preferences", user?.id];
+
+  const { data: remoteStored, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("player_preferences")
+        .select("preferences, tab_overrides")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data
+        ? sanitizeStoredPreferences({ preferences: data.preferences, tabOverrides: data.tab_overrides })
+        : EMPTY_STORED_PREFERENCES;
+    },
+    enabled: !!user,
+  });
+
+  const isLoaded = !authLoading && (!user || !isLoading);
+  const stored = user ? remoteStored ?? EMPTY_STORED_PREFERENCES : localStored;
+  // Handlers from earlier renders (e.g. an ongoing drag) must build on the latest state
+  const storedRef = useRef(stored);
+  storedRef.current = stored;
+
+  // Re-apply once the stored preferences are known
+  useEffect(() => {
+    if (isLoaded) setVersion((v) => v + 1);
+  }, [isLoaded, user?.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ userId, next }: { userId: string; next: StoredPlayerPreferences }) => {
+      const { error } = await supabase
+        .from("player_preferences")
+        .upsert(
+          { user_id: userId, preferences: next.preferences as Json, tab_overrides: next.tabOverrides as Json },
+          { onConflict: "user_id" }
+        );
+      if (error) throw error;
+    },
+    onError: (error: Error) => {
+      console.error("Failed to save player preferences:", error);
+    },
+  });
+
+  // Debounced so dragging a resize handle or the zoom slider doesn't write on every step
+  const store = (next: StoredPlayerPreferences) => {
+    storedRef.current = next;
+    let save: () => void;
+    if (user) {
+      const userId = user.id;
+      queryClient.setQueryData(queryKey, next);
+      save = () => saveMutation.mutate({ userId, next });
+    } else {
+      setLocalStored(next);
+      save = () => writeLocalPlayerPreferences(next);
+    }
+
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    pendingSaveRef.current = save;
+    saveTimeoutRef.current = setTimeout(() => {
+      saveTimeoutRef.current = null;
+      pendingSaveRef.current = null;
+      save();
+    }, SAVE_DELAY_MS);
+  };
+
+  // Flush a pending save when leaving the page
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+        pendingSaveRef.current?.();
+      }
+    };
+  }, []);
+
+  const updatePreferences = (changes: Partial<PlayerPreferences>) => {
+    if (!isLoaded) return;
+    store(applyPreferenceChanges(storedRef.current, changes, embedId));
+  };
+
+  const setTabPreferences = (enabled: boolean) => {
+    if (!embedId || !isLoaded) return;
+    store(setTabOverride(storedRef.current, embedId, enabled));
+    setVersion((v) => v + 1);
+  };
+
+  // Clears this tab's overrides, or the global preferences when the tab has none
+  const resetPreferences = () => {
+    if (!isLoaded) return;
+    const current = storedRef.current;
+    store(
+      hasTabOverride(current, embedId)
+        ? setTabOverride(current, embedId!, false)
+        : { ...current, preferences: {} }
+    );
+    setVersion((v) => v + 1);
+  };
+
+  return {
+    preferences: resolvePlayerPreferences(stored, embedId),
+    isLoaded,
+    version,
+    updatePreferences,
+    hasTabPreferences: hasTabOverride(stored, embedId),
+    setTabPreferences,
+    resetPreferences,
+  };
+};
@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { PracticeSession } from "@/lib/practiceStats";
+import { toLocalDateKey } from "@/lib/practiceTracker";
+
+// How far back the practice history goes
+export const PRACTICE_HISTORY_MONTHS = 12;
+// Rows per request; PostgREST returns at most 1000 at a time
+const PAGE_SIZE = 1000;
+
+// The signed-in user's practice history for the last PRACTICE_HISTORY_MONTHS, newest first
+export const usePracticeSessions = () => {
+  const { user } = useAuth();
+  const since = toLocalDateKey(subMonths(new Date(), PRACTICE_HISTORY_MONTHS));
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ["practice-sessions", user?.id, since],
+    queryFn: async () => {
+      const sessions: PracticeSession[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("practice_sessions")
+          .select("*, guitar_embeds(title, artist, bar_count)")
+          .eq("user_id", user!.id)
+          .gte("practiced_on", since)
+          .order("started_at", { ascending: false })
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        sessions.push(...(data as PracticeSession[]));
+        if (data.length < PAGE_SIZE) return sessions;
+      }
+    },
+    enabled: !!user,
+  });
+
+  return { sessions, isLoading };
+};
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { alphaTab, AlphaTabApi } from "@/lib/alphaTab";
+import { findBarAtTick } from "@/lib/barRange";
+import {
+  MIN_PRACTICE_MS,
+  PRACTICE_SAVE_INTERVAL_MS,
+  PracticeSessionDraft,
+  SESSION_IDLE_MS,
+  createPracticeSession,
+  getTempoAtBar,
+  registerLoopPass,
+  toPracticeSessionRow,
+} from "@/lib/practiceTracker";
+
+// Records practice sessions while a signed-in user plays a tab. `scoreKey` changes
+// with every loaded score (the player's track list).
+export const usePracticeTracker = (api: AlphaTabApi | null, embedId: string | undefined, isPlaying: boolean, scoreKey: unknown) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const enabled = !!user && !!embedId && !!api;
+  const sessionRef = useRef<PracticeSessionDraft | null>(null);
+  const playingSinceRef = useRef<number | null>(null);
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = user?.id ?? null;
+
+  // Adds the time played so far and saves the session once it is long enough
+  const saveSession = useCallback(() => {
+    const session = sessionRef.current;
+    const userId = userIdRef.current;
+    if (!session || !userId) return;
+
+    const now = Date.now();
+    if (playingSinceRef.current !== null) {
+      session.playedMs += now - playingSinceRef.current;
+      playingSinceRef.current = now;
+    }
+    session.lastActiveAt = now;
+    if (session.playedMs < MIN_PRACTICE_MS) return;
+
+    supabase
+      .from("practice_sessions")
+      .upsert(toPracticeSessionRow(session, userId))
+      .then(({ error }) => {
+        if (error) console.warn("Failed to save practice session:", error);
+        else queryClient.invalidateQueries({ queryKey: ["practice-sessions", userId] });
+      });
+  }, [queryClient]);
+
+  const endSession = useCallback(() => {
+    saveSession();
+    sessionRef.current = null;
+    playingSinceRef.current = null;
+  }, [saveSession]);
+
+  // A new tab, score or user starts over
+  useEffect(() => {
+    if (!enabled) return;
+    return endSession;
+  }, [enabled, embedId, scoreKey, user?.id, endSession]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (!isPlaying) {
+      if (playingSinceRef.current !== null) saveSession();
+      playingSinceRef.current = null;
+      return;
+    }
+
+    const now = Date.now();
+    const current = sessionRef.current;
+    if (!current || now - current.lastActiveAt > SESSION_IDLE_MS) {
+      if (current) endSession();
+      sessionRef.current = createPracticeSession(embedId!, now);
+    }
+    playingSinceRef.current = now;
+
+    const interval = setInterval(saveSession, PRACTICE_SAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, embedId, isPlaying, saveSession, endSession]);
+
+  // Bars heard and passes through the current loop
+  useEffect(() => {
+    if (!enabled || !api.playerPositionChanged) return;
+    let lastTick = 0;
+    let lastBar: number | null = null;
+    let seeked = false;
+
+    const handlePosition = (e: alphaTab.synth.PositionChangedEventArgs) => {
+      const previousTick = lastTick;
+      lastTick = e.currentTick;
+      const session = sessionRef.current;
+      if (!session || playingSinceRef.current === null) return;
+
+      const bar = findBarAtTick(api, e.currentTick);
+      if (bar !== null && bar !== lastBar) {
+        lastBar = bar;
+        session.bars.add(bar);
+      }
+
+      const range = api.isLooping ? api.playbackRange : null;
+      if (!range) return;
+      // Jumping back to the loop start just begins a new pass
+      if (e.isSeek) {
+        seeked = e.currentTick !== range.startTick;
+        return;
+      }
+      // A large backward jump while looping means the player wrapped to the range start
+      const loopLength = range.endTick - range.startTick;
+      if (previousTick > e.currentTick && previousTick - e.currentTick > loopLength / 2) {
+        const startBar = findBarAtTick(api, range.startTick) ?? 1;
+        const bpm = Math.round(getTempoAtBar(api.score, startBar - 1) * (api.playbackSpeed ?? 1));
+        session.loop = registerLoopPass(session.loop, `${range.startTick}-${range.endTick}`, bpm, !seeked);
+        seeked = false;
+      }
+    };
+
+    api.playerPositionChanged.on(handlePosition);
+    return () => {
+      api.playerPositionChanged.off(handlePosition);
+    };
+  }, [enabled, api, scoreKey]);
+
+  // Closing or leaving the page
+  useEffect(() => {
+    if (!enabled) return;
+    const handleHide = () => saveSession();
+    window.addEventListener("pagehide", handleHide);
+    return () => window.removeEventListener("pagehide", handleHide);
+  }, [enabled, saveSession]);
+};
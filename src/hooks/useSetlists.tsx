@@ -0,0 +1,226 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { SetlistInstrument, SetlistOverrides } from "@/lib/setlists";
+import { TrackInstrument, sanitizeTrackInstruments } from "@/lib/trackInstruments";
+
+export interface Setlist {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  item_count: number;
+}
+
+export interface SetlistSong extends SetlistOverrides {
+  id: string;
+  position: number;
+  embed: {
+    id: string;
+    title: string;
+    artist: string | null;
+    file_url: string | null;
+    tempo: number | null;
+    default_instrument: SetlistInstrument | null;
+    track_instruments: TrackInstrument[];
+  };
+}
+
+// The signed-in user's setlists
+export const useSetlists = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["setlists", user?.id];
+
+  const { data: setlists = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("setlists")
+        .select("*, setlist_items(count)")
+        .eq("user_id", user!.id)
+        .order("updated_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(({ setlist_items, ...setlist }) => ({
+        ...setlist,
+        item_count: setlist_items?.[0]?.count ?? 0,
+      })) as Setlist[];
+    },
+    enabled: !!user,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      if (!user) throw new Error("Must be logged in");
+
+      const { data, error } = await supabase
+        .from("setlists")
+        .insert({ user_id: user.id, name })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return data.id as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("setlists").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Setlist deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    setlists,
+    isLoading: !!user && isLoading,
+    createSetlist: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    deleteSetlist: deleteMutation.mutate,
+  };
+};
+
+// One setlist with its songs in order
+export const useSetlist = (setlistId?: string) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const enabled = !!setlistId && !!user;
+  const queryKey = ["setlist", setlistId];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["setlists"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("setlists")
+        .select(
+          "id, name, description, setlist_items(id, position, speed, transpose, instrument, guitar_embeds(id, title, artist, file_url, tempo, default_instrument, track_instruments))"
+        )
+        .eq("id", setlistId!)
+        .single();
+
+      if (error) throw error;
+      const songs: SetlistSong[] = (data.setlist_items || [])
+        .map((item) => ({
+          id: item.id,
+          position: item.position,
+          speed: item.speed,
+          transpose: item.transpose,
+          instrument: item.instrument as unknown as SetlistInstrument | null,
+          embed: {
+            ...item.guitar_embeds,
+            default_instrument: item.guitar_embeds?.default_instrument as unknown as SetlistInstrument | null,
+            track_instruments: sanitizeTrackInstruments(item.guitar_embeds?.track_instruments),
+          },
+        }))
+        .sort((a, b) => a.position - b.position);
+      return { id: data.id, name: data.name, description: data.description, songs };
+    },
+    enabled,
+  });
+
+  const updateSetlistMutation = useMutation({
+    mutationFn: async (changes: { name?: string; description?: string | null }) => {
+      const { error } = await supabase.from("setlists").update(changes).eq("id", setlistId!);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const addSongMutation = useMutation({
+    mutationFn: async (embedId: string) => {
+      const position = data?.songs.length ? Math.max(...data.songs.map((s) => s.position)) + 1 : 0;
+      const { error } = await supabase
+        .from("setlist_items")
+        .insert({ setlist_id: setlistId!, guitar_embed_id: embedId, position });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeSongMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const { error } = await supabase.from("setlist_items").delete().eq("id", itemId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateSongMutation = useMutation({
+    mutationFn: async ({ itemId, overrides }: { itemId: string; overrides: Partial<SetlistOverrides> }) => {
+      const { error } = await supabase
+        .from("setlist_items")
+        .update({ ...overrides, instrument: overrides.instrument as unknown as Json })
+        .eq("id", itemId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  // Saves positions 0..n-1 for the songs in the given order
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: string[]) => {
+      const results = await Promise.all(
+        itemIds.map((id, position) => supabase.from("setlist_items").update({ position }).eq("id", id))
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+    },
+    onMutate: (itemIds) => {
+      // Show the new order right away
+      queryClient.setQueryData(queryKey, (current: typeof data) =>
+        current && {
+          ...current,
+          songs: itemIds
+            .map((id, position) => {
+              const song = current.songs.find((s) => s.id === id);
+              return song && { ...song, position };
+            })
+            .filter(Boolean) as SetlistSong[],
+        }
+      );
+    },
+    onSettled: invalidate,
+    onError,
+  });
+
+  return {
+    setlist: data ?? null,
+    isLoading: enabled && isLoading,
+    updateSetlist: updateSetlistMutation.mutate,
+    addSong: addSongMutation.mutate,
+    removeSong: removeSongMutation.mutate,
+    updateSong: (itemId: string, overrides: Partial<SetlistOverrides>) =>
+      updateSongMutation.mutate({ itemId, overrides }),
+    reorderSongs: reorderMutation.mutate,
+  };
+};
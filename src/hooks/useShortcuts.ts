@@ -0,0 +1,24 @@
+import { useContext, useEffect, useId, useRef } from "react";
+import { ShortcutContext, ShortcutHandlers } from "@/hooks/shortcutContext";
+
+export const useShortcuts = () => {
+  const context = useContext(ShortcutContext);
+  if (context === undefined) {
+    throw new Error("useShortcuts must be used within a ShortcutProvider");
+  }
+  return context;
+};
+
+// Registers a player's command handlers; returns the id to put in SHORTCUT_PLAYER_ATTRIBUTE.
+// Higher priority players win when none of them has been interacted with yet.
+export const useShortcutHandlers = (handlers: ShortcutHandlers, priority = 0, playerId?: string) => {
+  const { register } = useShortcuts();
+  const generatedId = useId();
+  const id = playerId ?? generatedId;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => register({ id, priority, handlersRef }), [register, id, priority]);
+
+  return id;
+};
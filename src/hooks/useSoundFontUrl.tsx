@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_SOUNDFONT_URL, resolveSoundFontUrl } from "@/lib/alphaTab";
+
+// Remembered so tabs saved for offline use find the same soundfont without a connection
+const STORAGE_KEY = "soundfont-url";
+
+const readStoredUrl = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || DEFAULT_SOUNDFONT_URL;
+  } catch {
+    return DEFAULT_SOUNDFONT_URL;
+  }
+};
+
+// The soundfont chosen in the admin settings, or the bundled default
+export const useSoundFontUrl = () => {
+  const { data: soundFontUrl = readStoredUrl() } = useQuery({
+    queryKey: ["soundfont-url"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'soundfont_url')
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error("Error loading soundfont URL:", error);
+        return readStoredUrl();
+      }
+
+      const url = resolveSoundFontUrl(data?.value as string | undefined);
+      try {
+        localStorage.setItem(STORAGE_KEY, url);
+      } catch {
+        // Private mode; the default is used next time
+      }
+      return url;
+    },
+    staleTime: Infinity,
+  });
+
+  return soundFontUrl;
+};
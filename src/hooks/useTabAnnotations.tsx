@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface TabAnnotation {
+  id: string;
+  kind: "bookmark" | "note";
+  bar_number: number;
+  beat_index: number | null;
+  title: string | null;
+  body: string | null;
+  created_at: string;
+}
+
+export interface NewTabAnnotation {
+  kind: "bookmark" | "note";
+  bar_number: number;
+  beat_index?: number | null;
+  title?: string | null;
+  body?: string | null;
+}
+
+// The signed-in user's private bookmarks and notes for a guitar embed
+export const useTabAnnotations = (embedId?: string) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const enabled = !!embedId && !!user;
+  const queryKey = ["tab-annotations", embedId, user?.id];
+
+  const { data: annotations = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tab_annotations")
+        .select("*")
+        .eq("guitar_embed_id", embedId!)
+        .eq("user_id", user!.id)
+        .order("bar_number", { ascending: true })
+        .order("beat_index", { ascending: true, nullsFirst: true });
+
+      if (error) throw error;
+      return data as TabAnnotation[];
+    },
+    enabled,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (annotation: NewTabAnnotation) => {
+      if (!user || !embedId) throw new Error("Must be logged in");
+
+      const { error } = await supabase.from("tab_annotations").insert({
+        ...annotation,
+        user_id: user.id,
+        guitar_embed_id: embedId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, annotation) => {
+      toast({ title: annotation.kind === "bookmark" ? "Bookmark added" : "Note added" });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (annotationId: string) => {
+      const { error } = await supabase.from("tab_annotations").delete().eq("id", annotationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    annotations,
+    isLoading,
+    enabled,
+    bookmarks: annotations.filter((a) => a.kind === "bookmark"),
+    notes: annotations.filter((a) => a.kind === "note"),
+    createMutation,
+    deleteMutation,
+  };
+};
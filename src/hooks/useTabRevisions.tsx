@@ -0,0 +1,136 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface TabRevision {
+  id: string;
+  guitar_embed_id: string;
+  file_url: string;
+  uploaded_by: string | null;
+  change_note: string | null;
+  created_at: string;
+}
+
+export interface NewTabRevision {
+  file: Blob;
+  fileName: string; // only its extension is kept
+  changeNote?: string | null;
+}
+
+// Re-reads metadata from the embed's current file. Failing here leaves the old
+// metadata in place, which is better than failing the whole revision change.
+const refreshMetadata = async (embedId: string) => {
+  const { data, error } = await supabase.functions.invoke("parse-guitarpro", {
+    body: { embedId },
+  });
+  if (error || data?.error) {
+    console.warn("Failed to refresh tab metadata:", error ?? data.error);
+  }
+};
+
+// File history of a guitar embed (admins only). The embed's file_url always
+// points at one of these; uploading or rolling back just moves that pointer.
+export const useTabRevisions = (embedId?: string) => {
+  const { user, isAdmin } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const enabled = !!embedId && isAdmin;
+  const queryKey = ["tab-revisions", embedId];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["guitar-embeds"] });
+    queryClient.invalidateQueries({ queryKey: ["guitar-embed", embedId] });
+  };
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("guitar_embed_revisions")
+        .select("*")
+        .eq("guitar_embed_id", embedId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as TabRevision[];
+    },
+    enabled,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async ({ file, fileName, changeNote }: NewTabRevision) => {
+      if (!user || !embedId) throw new Error("Must be logged in");
+
+      const fileExt = fileName.split(".").pop();
+      const filePath = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+      const { error: uploadError } = await supabase.storage
+        .from("guitar-files")
+        .upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from("guitar-files")
+        .getPublicUrl(filePath);
+
+      const { data: revision, error: insertError } = await supabase
+        .from("guitar_embed_revisions")
+        .insert({
+          guitar_embed_id: embedId,
+          file_url: publicUrl,
+          uploaded_by: user.id,
+          change_note: changeNote || null,
+        })
+        .select()
+        .single();
+      if (insertError) throw insertError;
+
+      const { error: updateError } = await supabase
+        .from("guitar_embeds")
+        .update({ file_url: publicUrl })
+        .eq("id", embedId);
+      if (updateError) throw updateError;
+
+      await refreshMetadata(embedId);
+      return revision as TabRevision;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "New version uploaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (revision: TabRevision) => {
+      if (!embedId) throw new Error("No tab selected");
+
+      const { error } = await supabase
+        .from("guitar_embeds")
+        .update({ file_url: revision.file_url })
+        .eq("id", embedId);
+      if (error) throw error;
+
+      await refreshMetadata(embedId);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rolled back", description: "The selected version is live again" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    revisions,
+    isLoading: enabled && isLoading,
+    addRevision: addMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+    rollback: rollbackMutation.mutate,
+    isRollingBack: rollbackMutation.isPending,
+  };
+};
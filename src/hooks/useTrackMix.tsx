@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import type { TrackMix } from "@/lib/trackMixer";
+
+const SAVE_DELAY_MS = 800;
+
+// Loads and saves the signed-in user's mixer settings for a guitar embed
+export const useTrackMix = (embedId?: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingMixRef = useRef<TrackMix | null>(null);
+  const canPersist = !!embedId && !!user;
+  const queryKey = ["track-mix", embedId, user?.id];
+
+  const { data: savedMix = null, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("track_mixes")
+        .select("mix")
+        .eq("user_id", user!.id)
+        .eq("guitar_embed_id", embedId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.mix as unknown as TrackMix) ?? null;
+    },
+    enabled: canPersist,
+  });
+
+  const { mutate: saveTrackMix } = useMutation({
+    mutationFn: async (mix: TrackMix) => {
+      if (!user || !embedId) throw new Error("Must be logged in");
+
+      const { error } = await supabase
+        .from("track_mixes")
+        .upsert(
+          { user_id: user.id, guitar_embed_id: embedId, mix: mix as unknown as Json },
+          { onConflict: "user_id,guitar_embed_id" }
+        );
+      if (error) throw error;
+      return mix;
+    },
+    onSuccess: (mix) => {
+      queryClient.setQueryData(queryKey, mix);
+    },
+    onError: (error: Error) => {
+      console.error("Failed to save track mix:", error);
+    },
+  });
+
+  // Debounced so dragging a fader doesn't write on every step
+  const saveMix = useCallback(
+    (mix: TrackMix) => {
+      if (!canPersist) return;
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      pendingMixRef.current = mix;
+      saveTimeoutRef.current = setTimeout(() => {
+        saveTimeoutRef.current = null;
+        pendingMixRef.current = null;
+        saveTrackMix(mix);
+      }, SAVE_DELAY_MS);
+    },
+    [canPersist, saveTrackMix]
+  );
+
+  // Flush a pending save when leaving the page
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+        if (pendingMixRef.current) saveTrackMix(pendingMixRef.current);
+      }
+    };
+  }, [saveTrackMix]);
+
+  return { savedMix, isLoading: canPersist && isLoading, saveMix, canPersist };
+};
@@ -128,39 +128,131 @@ export type Database = {
         }
         Relationships: []
       }
+      guitar_embed_revisions: {
+        Row: {
+          change_note: string | null
+          created_at: string
+          file_url: string
+          guitar_embed_id: string
+          id: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          change_note?: string | null
+          created_at?: string
+          file_url: string
+          guitar_embed_id: string
+          id?: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          change_note?: string | null
+          created_at?: string
+          file_url?: string
+          guitar_embed_id?: string
+          id?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guitar_embed_revisions_guitar_embed_id_fkey"
+            columns: ["guitar_embed_id"]
+            isOneToOne: false
+            referencedRelation: "guitar_embeds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       guitar_embeds: {
         Row: {
+          album: string | null
+          artist: string | null
+          backing_track_sync_points: Json
+          backing_track_url: string | null
+          bar_count: number | null
+          capo: number | null
           created_at: string | null
           created_by: string | null
           default_instrument: Json | null
           description: string | null
+          difficulty: number | null
           display_order: number | null
           embed_code: string | null
           file_url: string | null
+          highest_fret: number | null
           id: string
+          lowest_fret: number | null
+          max_notes_per_second: number | null
+          metadata_parsed_at: string | null
+          positions: number[]
+          tabber: string | null
+          techniques: string[]
+          tempo: number | null
+          time_signature: string | null
           title: string
+          track_instruments: Json
+          track_names: string[]
+          tracks: Json
         }
         Insert: {
+          album?: string | null
+          artist?: string | null
+          backing_track_sync_points?: Json
+          backing_track_url?: string | null
+          bar_count?: number | null
+          capo?: number | null
           created_at?: string | null
           created_by?: string | null
           default_instrument?: Json | null
           description?: string | null
+          difficulty?: number | null
           display_order?: number | null
           embed_code?: string | null
           file_url?: string | null
+          highest_fret?: number | null
           id?: string
+          lowest_fret?: number | null
+          max_notes_per_second?: number | null
+          metadata_parsed_at?: string | null
+          positions?: number[]
+          tabber?: string | null
+          techniques?: string[]
+          tempo?: number | null
+          time_signature?: string | null
           title: string
+          track_instruments?: Json
+          track_names?: string[]
+          tracks?: Json
         }
         Update: {
+          album?: string | null
+          artist?: string | null
+          backing_track_sync_points?: Json
+          backing_track_url?: string | null
+          bar_count?: number | null
+          capo?: number | null
           created_at?: string | null
           created_by?: string | null
           default_instrument?: Json | null
           description?: string | null
+          difficulty?: number | null
           display_order?: number | null
           embed_code?: string | null
           file_url?: string | null
+          highest_fret?: number | null
           id?: string
+          lowest_fret?: number | null
+          max_notes_per_second?: number | null
+          metadata_parsed_at?: string | null
+          positions?: number[]
+          tabber?: string | null
+          techniques?: string[]
+          tempo?: number | null
+          time_signature?: string | null
           title?: string
+          track_instruments?: Json
+          track_names?: string[]
+          tracks?: Json
         }
         Relationships: []
       }
@@ -227,6 +319,240 @@ export type Database = {
         }
         Relationships: []
       }
+      player_preferences: {
+        Row: {
+          created_at: string
+          id: string
+          preferences: Json
+          tab_overrides: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          preferences?: Json
+          tab_overrides?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          preferences?: Json
+          tab_overrides?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      practice_sessions: {
+        Row: {
+          bars_played: number[]
+          created_at: string
+          duration_seconds: number
+          guitar_embed_id: string
+          id: string
+          max_stable_bpm: number | null
+          practiced_on: string
+          started_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bars_played?: number[]
+          created_at?: string
+          duration_seconds?: number
+          guitar_embed_id: string
+          id?: string
+          max_stable_bpm?: number | null
+          practiced_on: string
+          started_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bars_played?: number[]
+          created_at?: string
+          duration_seconds?: number
+          guitar_embed_id?: string
+          id?: string
+          max_stable_bpm?: number | null
+          practiced_on?: string
+          started_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "practice_sessions_guitar_embed_id_fkey"
+            columns: ["guitar_embed_id"]
+            isOneToOne: false
+            referencedRelation: "guitar_embeds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      setlist_items: {
+        Row: {
+          created_at: string
+          guitar_embed_id: string
+          id: string
+          instrument: Json | null
+          position: number
+          setlist_id: string
+          speed: number | null
+          transpose: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          guitar_embed_id: string
+          id?: string
+          instrument?: Json | null
+          position?: number
+          setlist_id: string
+          speed?: number | null
+          transpose?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          guitar_embed_id?: string
+          id?: string
+          instrument?: Json | null
+          position?: number
+          setlist_id?: string
+          speed?: number | null
+          transpose?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "setlist_items_guitar_embed_id_fkey"
+            columns: ["guitar_embed_id"]
+            isOneToOne: false
+            referencedRelation: "guitar_embeds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "setlist_items_setlist_id_fkey"
+            columns: ["setlist_id"]
+            isOneToOne: false
+            referencedRelation: "setlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      setlists: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tab_annotations: {
+        Row: {
+          bar_number: number
+          beat_index: number | null
+          body: string | null
+          created_at: string
+          guitar_embed_id: string
+          id: string
+          kind: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bar_number: number
+          beat_index?: number | null
+          body?: string | null
+          created_at?: string
+          guitar_embed_id: string
+          id?: string
+          kind: string
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bar_number?: number
+          beat_index?: number | null
+          body?: string | null
+          created_at?: string
+          guitar_embed_id?: string
+          id?: string
+          kind?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tab_annotations_guitar_embed_id_fkey"
+            columns: ["guitar_embed_id"]
+            isOneToOne: false
+            referencedRelation: "guitar_embeds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      track_mixes: {
+        Row: {
+          created_at: string
+          guitar_embed_id: string
+          id: string
+          mix: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          guitar_embed_id: string
+          id?: string
+          mix?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          guitar_embed_id?: string
+          id?: string
+          mix?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_mixes_guitar_embed_id_fkey"
+            columns: ["guitar_embed_id"]
+            isOneToOne: false
+            referencedRelation: "guitar_embeds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
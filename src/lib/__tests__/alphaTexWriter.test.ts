@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { alphaTab, Score } from "@/lib/alphaTab";
+import { writeAlphaTex } from "@/lib/alphaTexWriter";
+import { EFFECTS_TEX, RIFF_TEX, loadTexScore } from "./fixtures/scores";
+
+// What has to survive a write and re-parse, per staff, bar and beat
+const describeScore = (score: Score) =>
+  score.tracks.map((track) => ({
+    name: track.name,
+    program: track.playbackInfo.program,
+    tuning: [...track.staves[0].tuning],
+    bars: track.staves[0].bars.map((bar) =>
+      bar.voices[0].beats.map((beat) => ({
+        duration: beat.duration,
+        rest: beat.isRest,
+        notes: beat.notes.map((note) => ({
+          string: note.string,
+          fret: note.fret,
+          tie: note.isTieDestination,
+          hammer: note.isHammerPullOrigin,
+          palmMute: note.isPalmMute,
+        })),
+      }))
+    ),
+  }));
+
+const roundTrip = (tex: string, options = { transpose: 0, speed: 1 }) => {
+  const score = loadTexScore(tex);
+  const written = writeAlphaTex(score, options);
+  return { score, written, reparsed: loadTexScore(written) };
+};
+
+describe("writeAlphaTex", () => {
+  it("writes metadata and reads back to the same notes", () => {
+    const { score, written, reparsed } = roundTrip(RIFF_TEX);
+    expect(written).toContain(`\\title "Riff"`);
+    expect(written).toContain(`\\artist "Fixture"`);
+    expect(reparsed.title).toBe("Riff");
+    expect(reparsed.tempo).toBe(100);
+    expect(reparsed.masterBars[1].tempoAutomations[0].value).toBe(120);
+    expect(describeScore(reparsed)).toEqual(describeScore(score));
+  });
+
+  it("scales tempos and writes the transpose as playback and display shifts", () => {
+    const { written, reparsed } = roundTrip(RIFF_TEX, { transpose: -2, speed: 0.5 });
+    expect(written).toContain("\\transpose -2");
+    expect(written).toContain("\\displaytranspose 2");
+    expect(reparsed.tempo).toBe(50);
+    expect(reparsed.masterBars[1].tempoAutomations[0].value).toBe(60);
+    // Frets stay as written
+    expect(reparsed.tracks[0].staves[0].bars[0].voices[0].beats[0].notes[0].fret).toBe(3);
+  });
+
+  it("keeps slides, harmonics and other note effects", () => {
+    const { written, reparsed } = roundTrip(EFFECTS_TEX);
+    expect(written).toContain("5.3{sib}.8 5.3{sia}.8 7.3{ss}.8");
+    const effects = (score: Score) =>
+      score.tracks[0].staves[0].bars.flatMap((bar) =>
+        bar.voices[0].beats.flatMap((beat) =>
+          beat.notes.map((note) => ({
+            slideIn: note.slideInType,
+            slideOut: note.slideOutType,
+            harmonic: note.harmonicType,
+            vibrato: note.vibrato,
+            dead: note.isDead,
+          }))
+        )
+      );
+    const original = effects(loadTexScore(EFFECTS_TEX));
+    expect(original[0].slideIn).toBe(alphaTab.model.SlideInType.IntoFromBelow);
+    expect(original[1].slideIn).toBe(alphaTab.model.SlideInType.IntoFromAbove);
+    expect(effects(reparsed)).toEqual(original);
+  });
+
+  it("quotes titles with quotes and backslashes", () => {
+    const score = loadTexScore(RIFF_TEX);
+    score.title = 'Say "hi" \\ bye';
+    expect(loadTexScore(writeAlphaTex(score, { transpose: 0, speed: 1 })).title).toBe('Say "hi" \\ bye');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { alphaTab, Score } from "@/lib/alphaTab";
+import { parseAsciiTab } from "@/lib/asciiTab";
+import { ASCII_TAB_SAMPLES } from "./fixtures/asciiTabSamples";
+import { loadTexScore } from "./fixtures/scores";
+
+// Each bar's beats against the length its time signature asks for, in ticks
+const barLengths = (score: Score) =>
+  score.tracks.flatMap((track) =>
+    track.staves[0].bars.map((bar) => ({
+      expected: bar.masterBar.calculateDuration(),
+      actual: bar.voices[0].beats.reduce((sum, beat) => sum + beat.playbackDuration, 0),
+    }))
+  );
+
+const expectFullBars = (score: Score) => {
+  for (const { expected, actual } of barLengths(score)) expect(actual).toBe(expected);
+};
+
+const importTab = (text: string) => {
+  const result = parseAsciiTab(text);
+  return { result, score: loadTexScore(result.tex) };
+};
+
+describe("parseAsciiTab durations", () => {
+  it("fills gaps no single duration covers with rests", () => {
+    // Five sixteenths between the notes, then eleven to the bar line
+    const { result, score } = importTab(`e|0----3----------|
+B|----------------|
+G|----------------|
+D|----------------|
+A|----------------|
+E|----------------|
+`);
+    expect(result.tex).toContain("0.1.4 r.16 3.1.2 r.8{d}");
+    expectFullBars(score);
+  });
+
+  it("keeps every note of a busy bar on its own beat", () => {
+    const frets = Array.from({ length: 20 }, (_, i) => String(i % 10)).join("-");
+    const blank = "-".repeat(frets.length);
+    const { score } = importTab(
+      [`e|${frets}-|`, ...["B", "G", "D", "A", "E"].map((name) => `${name}|${blank}-|`)].join("\n")
+    );
+    expect(score.tracks[0].staves[0].bars[0].voices[0].beats.filter((beat) => !beat.isRest)).toHaveLength(20);
+    expectFullBars(score);
+  });
+});
+
+// Tracks found and the lines reported as not imported, per sample
+const EXPECTED: Record<string, { tracks: { name: string; strings: number; bars: number }[]; issueLines: number[] }> = {
+  "Open chords": {
+    tracks: [{ name: "Guitar", strings: 6, bars: 2 }],
+    issueLines: [],
+  },
+  "Techniques: hammer-ons, pull-offs, slides, bends, vibrato, dead notes": {
+    tracks: [{ name: "Guitar", strings: 6, bars: 3 }],
+    issueLines: [],
+  },
+  "Two guitars with labels": {
+    tracks: [
+      { name: "Gtr 1", strings: 6, bars: 2 },
+      { name: "Gtr 2", strings: 6, bars: 2 },
+    ],
+    issueLines: [],
+  },
+  "Stacked guitar and bass": {
+    tracks: [
+      { name: "Guitar", strings: 6, bars: 2 },
+      { name: "Bass", strings: 4, bars: 2 },
+    ],
+    issueLines: [],
+  },
+  "Bass in drop D (5 strings)": {
+    tracks: [{ name: "Bass", strings: 5, bars: 1 }],
+    issueLines: [],
+  },
+  "Real-world file with chords and lyrics": {
+    tracks: [{ name: "Guitar", strings: 6, bars: 3 }],
+    // Header, chord names, lyrics, the PM marker and the three-line chorus
+    issueLines: [1, 2, 3, 6, 13, 15, 24, 25, 26],
+  },
+};
+
+describe("parseAsciiTab samples", () => {
+  it("covers every sample", () => {
+    expect(ASCII_TAB_SAMPLES.map((sample) => sample.name)).toEqual(Object.keys(EXPECTED));
+  });
+
+  for (const sample of ASCII_TAB_SAMPLES) {
+    it(sample.name, () => {
+      const { result, score } = importTab(sample.text);
+      const expected = EXPECTED[sample.name];
+      expect(result.tracks).toEqual(expected.tracks);
+      expect(result.issues.map((issue) => issue.line)).toEqual(expected.issueLines);
+      expect(score.tracks.map((track) => track.name)).toEqual(expected.tracks.map((track) => track.name));
+      expect(score.masterBars).toHaveLength(Math.max(...expected.tracks.map((track) => track.bars)));
+      expectFullBars(score);
+    });
+  }
+
+  it("reads techniques as note effects", () => {
+    const { score } = importTab(ASCII_TAB_SAMPLES[1].text);
+    const notes = score.tracks[0].staves[0].bars.flatMap((bar) =>
+      bar.voices[0].beats.flatMap((beat) => beat.notes)
+    );
+    expect(notes.some((note) => note.isHammerPullOrigin)).toBe(true);
+    expect(notes.some((note) => note.hasBend)).toBe(true);
+    expect(notes.some((note) => note.vibrato)).toBe(true);
+    expect(notes.some((note) => note.isDead)).toBe(true);
+    expect(notes.some((note) => note.harmonicType === alphaTab.model.HarmonicType.Natural)).toBe(true);
+    expect(notes.some((note) => note.slideInType === alphaTab.model.SlideInType.IntoFromBelow)).toBe(true);
+  });
+});
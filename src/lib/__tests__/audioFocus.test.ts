@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import { AudioFocusManager, AudioFocusSource } from "@/lib/audioFocus";
+
+const createSource = (id: string, interruption: AudioFocusSource["interruption"], remote = false) => ({
+  id,
+  interruption,
+  pause: vi.fn(),
+  setDucked: vi.fn(),
+  ...(remote && { playTrack: vi.fn(), togglePlayback: vi.fn(), seek: vi.fn() }),
+});
+
+// The MP3 player ducks under tab players; tab players pause for each other
+const setup = () => {
+  const manager = new AudioFocusManager();
+  const music = createSource("music", "duck", true);
+  const tabA = createSource("tab-a", "pause");
+  const tabB = createSource("tab-b", "pause");
+  const unregister = {
+    music: manager.register(music),
+    tabA: manager.register(tabA),
+    tabB: manager.register(tabB),
+  };
+  return { manager, music, tabA, tabB, unregister };
+};
+
+describe("AudioFocusManager focus", () => {
+  it("pauses or ducks the other sources when one requests focus", () => {
+    const { manager, music, tabA, tabB } = setup();
+    manager.requestFocus("tab-a");
+
+    expect(manager.getFocusedId()).toBe("tab-a");
+    expect(music.setDucked).toHaveBeenCalledWith(true);
+    expect(music.pause).not.toHaveBeenCalled();
+    expect(manager.isDucked("music")).toBe(true);
+    expect(tabB.pause).toHaveBeenCalledTimes(1);
+    expect(tabA.pause).not.toHaveBeenCalled();
+  });
+
+  it("hands focus between two competing players", () => {
+    const { manager, music, tabA, tabB } = setup();
+    manager.requestFocus("tab-a");
+    manager.requestFocus("tab-b");
+
+    expect(manager.getFocusedId()).toBe("tab-b");
+    expect(tabA.pause).toHaveBeenCalledTimes(1);
+    expect(tabB.pause).toHaveBeenCalledTimes(1);
+    // Already ducked, so not ducked again
+    expect(music.setDucked).toHaveBeenCalledTimes(1);
+
+    // The player that lost focus releasing it changes nothing
+    manager.releaseFocus("tab-a");
+    expect(manager.getFocusedId()).toBe("tab-b");
+    expect(manager.isDucked("music")).toBe(true);
+  });
+
+  it("restores ducked sources when the focused one releases", () => {
+    const { manager, music } = setup();
+    manager.requestFocus("tab-a");
+    manager.releaseFocus("tab-a");
+
+    expect(manager.getFocusedId()).toBeNull();
+    expect(music.setDucked).toHaveBeenLastCalledWith(false);
+    expect(manager.isDucked("music")).toBe(false);
+  });
+
+  it("un-ducks a ducked source that takes focus itself", () => {
+    const { manager, music, tabA } = setup();
+    manager.requestFocus("tab-a");
+    manager.requestFocus("music");
+
+    expect(music.setDucked).toHaveBeenLastCalledWith(false);
+    expect(manager.isDucked("music")).toBe(false);
+    expect(tabA.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it("pauses a duck source that can't duck", () => {
+    const manager = new AudioFocusManager();
+    const quiet = { id: "quiet", interruption: "duck" as const, pause: vi.fn() };
+    manager.register(quiet);
+    manager.register(createSource("tab-a", "pause"));
+    manager.requestFocus("tab-a");
+
+    expect(quiet.pause).toHaveBeenCalledTimes(1);
+    expect(manager.isDucked("quiet")).toBe(false);
+  });
+
+  it("ignores focus requests from unknown sources", () => {
+    const { manager, music } = setup();
+    manager.requestFocus("unknown");
+    expect(manager.getFocusedId()).toBeNull();
+    expect(music.setDucked).not.toHaveBeenCalled();
+  });
+});
+
+describe("AudioFocusManager unregister", () => {
+  it("releases focus and un-ducks when the focused source goes away", () => {
+    const { manager, music, unregister } = setup();
+    manager.requestFocus("tab-a");
+    unregister.tabA();
+
+    expect(manager.getFocusedId()).toBeNull();
+    expect(music.setDucked).toHaveBeenLastCalledWith(false);
+
+    // It no longer takes focus or gets paused
+    manager.requestFocus("tab-a");
+    expect(manager.getFocusedId()).toBeNull();
+  });
+
+  it("forgets a ducked source without un-ducking it", () => {
+    const { manager, music, unregister } = setup();
+    manager.requestFocus("tab-a");
+    unregister.music();
+
+    expect(manager.isDucked("music")).toBe(false);
+    expect(music.setDucked).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears now playing for the removed source", () => {
+    const { manager, unregister } = setup();
+    manager.reportState("tab-a", { trackId: "song", isPlaying: true });
+    unregister.tabA();
+
+    expect(manager.getNowPlaying()).toMatchObject({ sourceId: null, trackId: "song", isPlaying: false });
+  });
+});
+
+describe("AudioFocusManager remote control", () => {
+  it("sends commands to the focused source or the first one that supports them", () => {
+    const { manager, music } = setup();
+    manager.requestFocus("tab-a");
+    manager.togglePlayback();
+    manager.playTrack(2);
+    manager.seek(1.5);
+
+    expect(music.togglePlayback).toHaveBeenCalledTimes(1);
+    expect(music.playTrack).toHaveBeenCalledWith(2);
+    expect(music.seek).toHaveBeenCalledWith(1);
+  });
+});
+
+describe("AudioFocusManager state reporting", () => {
+  it("lets the source that starts playing take over now playing", () => {
+    const { manager } = setup();
+    const listener = vi.fn();
+    manager.subscribe(listener);
+
+    manager.reportState("music", { trackId: "song-1", isPlaying: true, progress: 0.25 });
+    expect(manager.getNowPlaying()).toEqual({
+      sourceId: "music",
+      trackId: "song-1",
+      isPlaying: true,
+      progress: { "song-1": 0.25 },
+    });
+
+    manager.reportState("tab-a", { trackId: "tab", isPlaying: true });
+    expect(manager.getNowPlaying()).toMatchObject({ sourceId: "tab-a", trackId: "tab", isPlaying: true });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("only records progress from a source in the background", () => {
+    const { manager } = setup();
+    manager.reportState("tab-a", { trackId: "tab", isPlaying: true });
+    manager.reportState("music", { trackId: "song-1", isPlaying: false, progress: 0.5 });
+
+    expect(manager.getNowPlaying()).toEqual({
+      sourceId: "tab-a",
+      trackId: "tab",
+      isPlaying: true,
+      progress: { "song-1": 0.5 },
+    });
+  });
+
+  it("keeps the current track when its source pauses", () => {
+    const { manager } = setup();
+    manager.reportState("music", { trackId: "song-1", isPlaying: true });
+    manager.reportState("music", { isPlaying: false, progress: 0.75 });
+
+    expect(manager.getNowPlaying()).toEqual({
+      sourceId: "music",
+      trackId: "song-1",
+      isPlaying: false,
+      progress: { "song-1": 0.75 },
+    });
+  });
+
+  it("doesn't notify when nothing changed", () => {
+    const { manager } = setup();
+    manager.reportState("music", { trackId: "song-1", isPlaying: true });
+    const listener = vi.fn();
+    const unsubscribe = manager.subscribe(listener);
+
+    manager.reportState("tab-a", {});
+    expect(listener).not.toHaveBeenCalled();
+
+    unsubscribe();
+    manager.reportState("tab-a", { isPlaying: true });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+// ASCII tabs for the importer tests, one for each layout and technique it handles
+
+export interface AsciiTabSample {
+  name: string;
+  text: string;
+}
+
+export const ASCII_TAB_SAMPLES: AsciiTabSample[] = [
+  {
+    name: "Open chords",
+    text: `e|---0-------0---|---3-------3---|
+B|---1-------1---|---0-------0---|
+G|---0-------0---|---0-------0---|
+D|---2-------2---|---0-------0---|
+A|---3-------3---|---2-------2---|
+E|---------------|---3-------3---|
+`,
+  },
+  {
+    name: "Techniques: hammer-ons, pull-offs, slides, bends, vibrato, dead notes",
+    text: `[Intro]
+e|-----------------|-----------------|-----------------|
+B|-----------------|--8b10r8--5------|-----------------|
+G|--5h7--7p5--5/7--|------------7~~~-|--<12>--(5)------|
+D|-----------------|-----------------|--x-x--7\\5--/9--|
+A|-----------------|-----------------|-----------------|
+E|-----------------|-----------------|-----------------|
+`,
+  },
+  {
+    name: "Two guitars with labels",
+    text: `Gtr 1:
+e|-------0-----|-------0-----|
+B|-----1---1---|-----3---3---|
+G|---2-------2-|---2-------2-|
+D|-0-----------|-------------|
+A|-------------|-0-----------|
+E|-------------|-------------|
+
+Gtr 2:
+e|-------------|-------------|
+B|-------------|-------------|
+G|-------------|-------------|
+D|-7---7---7---|-------------|
+A|-------------|-7---7---7---|
+E|-------------|-------------|
+`,
+  },
+  {
+    name: "Stacked guitar and bass",
+    text: `e|-0---0---0---0--|-3---3---3---3--|
+B|-1---1---1---1--|-0---0---0---0--|
+G|-0---0---0---0--|-0---0---0---0--|
+D|-2---2---2---2--|-0---0---0---0--|
+A|-3---3---3---3--|-2---2---2---2--|
+E|----------------|-3---3---3---3--|
+G|----------------|----------------|
+D|----------------|----------------|
+A|-3-------3------|----------------|
+E|-----------3----|-3-------3------|
+`,
+  },
+  {
+    name: "Bass in drop D (5 strings)",
+    text: `G|----------------|
+D|----------------|
+A|----------------|
+D|-0-0-3-0-5-0-3--|
+B|----------------|
+`,
+  },
+  {
+    name: "Real-world file with chords and lyrics",
+    text: `Song Title - Some Band
+Tabbed by: someone
+Tuning: Standard
+
+Verse:
+   Am              G
+e|-0-------0-------|-3-------3-------|
+B|---1-------1-----|---0-------0-----|
+G|-----2-------2---|-----0-------0---|
+D|-----------------|-----------------|
+A|-0---------------|-----------------|
+E|-----------------|-3---------------|
+   I walked along the road
+
+PM-------
+e|-----------------|
+B|-----------------|
+G|-----------------|
+D|-----------------|
+A|-----------------|
+E|-0-0-0-0-0-0-0-0-|
+
+Chorus
+e|-3-----2---|
+B|-3-----3---|
+G|-0-----2---|
+`,
+  },
+];
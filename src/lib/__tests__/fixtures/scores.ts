@@ -0,0 +1,29 @@
+// Small alphaTex scores the exporter and transposition tests load
+import { alphaTab, Score } from "@/lib/alphaTab";
+
+export const loadTexScore = (tex: string): Score =>
+  alphaTab.importer.ScoreLoader.loadScoreFromBytes(new TextEncoder().encode(tex), new alphaTab.Settings());
+
+// Guitar and bass, a tempo change in bar 2, chords, a tie, a hammer-on and palm mutes
+export const RIFF_TEX = `\\title "Riff" \\artist "Fixture" \\tempo 100 .
+\\track "Guitar"
+\\staff {tabs}
+\\instrument 25
+  3.6.8 5.6.8 (0.1 2.2).4 3.6{h}.8 5.6.8 0.5{pm}.8 0.5{pm}.8 |
+  \\tempo 120 5.5.4 5.5{t}.4 7.5{pm}.4 r.4
+
+\\track "Bass"
+\\staff {tabs}
+\\instrument 33
+\\tuning G2 D2 A1 E1
+  3.4.2 5.4.2 |
+  0.3.1
+`;
+
+// One note per slide and harmonic type the alphaTex writer knows
+export const EFFECTS_TEX = `\\tempo 90 .
+\\track "Guitar"
+\\staff {tabs}
+  5.3{sib}.8 5.3{sia}.8 7.3{ss}.8 9.3.8 7.3{sl}.8 9.3.8 12.2{sou}.8 12.2{sod}.8 |
+  12.1{nh}.4 5.2{ah}.4 7.3{v}.4 0.6{x}.4
+`;
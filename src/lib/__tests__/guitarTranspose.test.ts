@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { Score } from "@/lib/alphaTab";
+import { restoreGuitarTranspose, transposeForGuitar } from "@/lib/guitarTranspose";
+import { RIFF_TEX, loadTexScore } from "./fixtures/scores";
+
+const DROP_D = [64, 59, 55, 50, 45, 38];
+
+// Everything the transposition changes and the restore has to put back
+const describeStaff = (score: Score, trackIndex = 0) => {
+  const staff = score.tracks[trackIndex].staves[0];
+  return {
+    tuning: [...staff.stringTuning.tunings],
+    tuningName: staff.stringTuning.name,
+    isStandard: staff.stringTuning.isStandard,
+    capo: staff.capo,
+    beats: staff.bars.flatMap((bar) =>
+      bar.voices[0].beats.map((beat) => ({
+        notes: beat.notes.map((note) => ({ string: note.string, fret: note.fret, index: note.index })),
+        lookup: beat.notes.map((note) => beat.getNoteOnString(note.string) === note),
+        lowestString: beat.minStringNote?.string ?? null,
+        highestString: beat.maxStringNote?.string ?? null,
+      }))
+    ),
+  };
+};
+
+const soundingPitches = (score: Score) =>
+  score.tracks[0].staves[0].bars.flatMap((bar) =>
+    bar.voices[0].beats.map((beat) => beat.notes.map((note) => note.realValue).sort((a, b) => a - b))
+  );
+
+describe("transposeForGuitar", () => {
+  it("re-fingers notes on the new tuning and capo at the new pitch", () => {
+    const score = loadTexScore(RIFF_TEX);
+    const before = soundingPitches(score);
+    const { report } = transposeForGuitar(score, { semitones: 2, tuning: DROP_D, capo: 2, trackIndexes: [0] });
+
+    const staff = score.tracks[0].staves[0];
+    expect(staff.tuning).toEqual(DROP_D);
+    expect(staff.stringTuning.isStandard).toBe(false);
+    expect(staff.capo).toBe(2);
+    expect(report.unplaced).toBe(0);
+    expect(soundingPitches(score)).toEqual(before.map((beat) => beat.map((pitch) => pitch + 2)));
+    // Frets are written relative to the capo: G2 up to A2 is the fifth fret over the D string capoed at E
+    expect(staff.bars[0].voices[0].beats[0].notes[0]).toMatchObject({ string: 1, fret: 5 });
+    // The bass track wasn't selected
+    expect(score.tracks[1].staves[0].tuning).toEqual([43, 38, 33, 28]);
+  });
+
+  it("doesn't call a tuning standard just because the old one was", () => {
+    const score = loadTexScore(RIFF_TEX);
+    transposeForGuitar(score, { semitones: 0, tuning: [65, 60, 56, 51, 46, 41], capo: 0, trackIndexes: [0] });
+    expect(score.tracks[0].staves[0].stringTuning.isStandard).toBe(false);
+  });
+});
+
+describe("restoreGuitarTranspose", () => {
+  it("puts tuning, capo, frets and beat lookups back", () => {
+    const score = loadTexScore(RIFF_TEX);
+    const original = describeStaff(score);
+    expect(original.isStandard).toBe(true);
+
+    const { snapshot } = transposeForGuitar(score, { semitones: -3, tuning: DROP_D, capo: 0, trackIndexes: [0] });
+    expect(describeStaff(score)).not.toEqual(original);
+
+    restoreGuitarTranspose(snapshot);
+    expect(describeStaff(score)).toEqual(original);
+  });
+
+  it("puts back notes that were left out", () => {
+    const score = loadTexScore(`\\tempo 100 .
+\\track "Guitar"
+\\staff {tabs}
+  (0.1 0.2 0.3 0.4 0.5 0.6).1
+`);
+    const original = describeStaff(score);
+    // With only open strings there is nowhere to put a note a semitone up
+    const { report, snapshot } = transposeForGuitar(score, {
+      semitones: 1,
+      tuning: null,
+      capo: 0,
+      maxFret: 0,
+      trackIndexes: [0],
+    });
+    const chord = score.tracks[0].staves[0].bars[0].voices[0].beats[0];
+    expect(report.unplaced).toBe(6);
+    expect(chord.notes).toHaveLength(0);
+
+    restoreGuitarTranspose(snapshot);
+    expect(describeStaff(score)).toEqual(original);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { writeMusicXml } from "@/lib/musicXmlWriter";
+import { RIFF_TEX, loadTexScore } from "./fixtures/scores";
+
+const write = (transpose = 0, speed = 1) => writeMusicXml(loadTexScore(RIFF_TEX), { transpose, speed });
+
+const parts = (xml: string) => xml.match(/<part id="[^"]+">[\s\S]*?<\/part>/g) ?? ([] as string[]);
+const measures = (part: string) => part.match(/<measure [\s\S]*?<\/measure>/g) ?? ([] as string[]);
+const pitches = (xml: string) =>
+  [...xml.matchAll(/<step>(\w)<\/step>(?:<alter>(-?\d)<\/alter>)?<octave>(\d)<\/octave>/g)].map(
+    ([, step, alter, octave]) => `${step}${alter === "1" ? "#" : alter === "-1" ? "b" : ""}${octave}`
+  );
+
+// Durations of the notes that advance time: chord members share their first note's
+const measureDuration = (measure: string) =>
+  (measure.match(/<note>[\s\S]*?<\/note>/g) ?? ([] as string[]))
+    .filter((note) => !note.includes("<chord/>"))
+    .reduce((sum, note) => sum + Number(note.match(/<duration>(\d+)<\/duration>/)?.[1] ?? 0), 0);
+
+describe("writeMusicXml", () => {
+  it("writes one part per track with title, instruments and attributes", () => {
+    const xml = write();
+    expect(xml).toContain(`<work><work-title>Riff</work-title></work>`);
+    expect(xml).toContain(`<creator type="composer">Fixture</creator>`);
+    expect(parts(xml)).toHaveLength(2);
+    expect(xml).toContain(`<part-name>Guitar</part-name>`);
+    expect(xml).toContain(`<midi-program>26</midi-program>`);
+    expect(xml).toContain(`<midi-program>34</midi-program>`);
+    expect(xml).toContain(`<divisions>960</divisions>`);
+    expect(xml).toContain(`<time><beats>4</beats><beat-type>4</beat-type></time>`);
+  });
+
+  it("writes sounding pitches with string and fret hints", () => {
+    const [guitar, bass] = parts(write());
+    expect(pitches(guitar).slice(0, 4)).toEqual(["G2", "A2", "E4", "C#4"]);
+    expect(guitar).toContain(`<technical><string>6</string><fret>3</fret></technical>`);
+    expect(guitar).toContain(`<hammer-on type="start">H</hammer-on>`);
+    expect(guitar).toContain(`<tied type="stop"/>`);
+    expect(pitches(bass)[0]).toBe("G1");
+    // Bass reads in bass clef
+    expect(bass).toContain(`<clef><sign>F</sign>`);
+  });
+
+  it("fills every measure to the time signature", () => {
+    for (const part of parts(write())) {
+      for (const measure of measures(part)) expect(measureDuration(measure)).toBe(4 * 960);
+    }
+  });
+
+  it("applies transpose and speed", () => {
+    const xml = write(2, 1.5);
+    expect(pitches(parts(xml)[0]).slice(0, 2)).toEqual(["A2", "B2"]);
+    // Frets no longer match the transposed pitches
+    expect(xml).not.toContain("<technical>");
+    expect(xml).toContain(`<per-minute>150</per-minute>`);
+    expect(xml).toContain(`<per-minute>180</per-minute>`);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { alphaTab } from "@/lib/alphaTab";
+import { withScoreOverrides, writeMidiFile } from "@/lib/scoreExport";
+import { RIFF_TEX, loadTexScore } from "./fixtures/scores";
+
+interface MidiSummary {
+  format: number;
+  trackCount: number;
+  tempos: number[]; // BPM, in file order
+  programs: { channel: number; program: number }[];
+  noteOns: number[]; // keys of non-percussion note-ons, in file order
+}
+
+const readVarLength = (bytes: Uint8Array, offset: number) => {
+  let value = 0;
+  let byte: number;
+  do {
+    byte = bytes[offset++];
+    value = (value << 7) | (byte & 0x7f);
+  } while (byte & 0x80);
+  return { value, offset };
+};
+
+// Just enough of a Standard MIDI File reader to check what the exporter wrote
+const readMidi = (bytes: Uint8Array): MidiSummary => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = (offset: number) => String.fromCharCode(...bytes.slice(offset, offset + 4));
+  expect(text(0)).toBe("MThd");
+  const summary: MidiSummary = {
+    format: view.getUint16(8),
+    trackCount: view.getUint16(10),
+    tempos: [],
+    programs: [],
+    noteOns: [],
+  };
+
+  let offset = 8 + view.getUint32(4);
+  while (offset < bytes.length) {
+    expect(text(offset)).toBe("MTrk");
+    const end = offset + 8 + view.getUint32(offset + 4);
+    offset += 8;
+    let status = 0;
+    while (offset < end) {
+      offset = readVarLength(bytes, offset).offset;
+      if (bytes[offset] & 0x80) status = bytes[offset++];
+      if (status === 0xff) {
+        const type = bytes[offset++];
+        const length = readVarLength(bytes, offset);
+        if (type === 0x51) {
+          const microseconds = (bytes[length.offset] << 16) | (bytes[length.offset + 1] << 8) | bytes[length.offset + 2];
+          summary.tempos.push(Math.round(60000000 / microseconds));
+        }
+        offset = length.offset + length.value;
+      } else if (status === 0xf0 || status === 0xf7) {
+        const length = readVarLength(bytes, offset);
+        offset = length.offset + length.value;
+      } else {
+        const command = status & 0xf0;
+        const channel = status & 0x0f;
+        if (command === 0xc0) summary.programs.push({ channel, program: bytes[offset] });
+        if (command === 0x90 && bytes[offset + 1] > 0 && channel !== 9) summary.noteOns.push(bytes[offset]);
+        offset += command === 0xc0 || command === 0xd0 ? 1 : 2;
+      }
+    }
+    offset = end;
+  }
+  return summary;
+};
+
+const exportMidi = (overrides = { transpose: 0, speed: 1 }) => {
+  const score = loadTexScore(RIFF_TEX);
+  const api = { score, settings: new alphaTab.Settings() };
+  return { score, midi: readMidi(writeMidiFile(api, overrides)) };
+};
+
+describe("writeMidiFile", () => {
+  it("writes a multi-track file with the score's tempos and programs", () => {
+    const { midi } = exportMidi();
+    expect(midi.format).toBe(1);
+    expect(midi.trackCount).toBeGreaterThanOrEqual(2);
+    expect(midi.tempos).toEqual([100, 120]);
+    expect(midi.programs).toEqual(expect.arrayContaining([{ channel: 0, program: 25 }, { channel: 2, program: 33 }]));
+    // G2, the first note of the guitar riff
+    expect(midi.noteOns).toContain(43);
+  });
+
+  it("applies speed and transpose to the file only", () => {
+    const original = exportMidi().midi;
+    const { score, midi } = exportMidi({ transpose: 2, speed: 0.5 });
+
+    expect(midi.tempos).toEqual([50, 60]);
+    expect(midi.noteOns).toEqual(original.noteOns.map((key) => key + 2));
+    expect(score.tempo).toBe(100);
+    expect(score.masterBars[1].tempoAutomations[0].value).toBe(120);
+    expect(score.tracks.every((track) => track.staves.every((staff) => staff.transpositionPitch === 0))).toBe(true);
+  });
+});
+
+describe("withScoreOverrides", () => {
+  it("sets programs, transpose and tempo while running", () => {
+    const score = loadTexScore(RIFF_TEX);
+    withScoreOverrides(score, { program: 30, trackPrograms: { 1: 34 }, transpose: 3, speed: 2 }, () => {
+      expect(score.tracks.map((track) => track.playbackInfo.program)).toEqual([30, 34]);
+      expect(score.tracks[0].staves[0].transpositionPitch).toBe(-3);
+      expect(score.tempo).toBe(200);
+      expect(score.masterBars[1].tempoAutomations[0].value).toBe(240);
+    });
+  });
+
+  it("puts program, transpose and tempo back when run throws", () => {
+    const score = loadTexScore(RIFF_TEX);
+    const run = () =>
+      withScoreOverrides(score, { program: 30, transpose: 3, speed: 2 }, () => {
+        throw new Error("export failed");
+      });
+
+    expect(run).toThrow("export failed");
+    expect(score.tracks.map((track) => track.playbackInfo.program)).toEqual([25, 33]);
+    expect(score.tracks.map((track) => track.staves[0].transpositionPitch)).toEqual([0, 0]);
+    expect(score.tempo).toBe(100);
+    expect(score.masterBars.map((masterBar) => masterBar.tempoAutomations[0].value)).toEqual([100, 120]);
+  });
+});
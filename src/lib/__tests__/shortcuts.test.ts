@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SHORTCUT_BINDINGS, findCommandForEvent, rebindShortcut } from "@/lib/shortcuts";
+
+const keyDown = (code: string, key: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({ code, key, ctrlKey: false, altKey: false, metaKey: false, shiftKey: false, ...modifiers }) as KeyboardEvent;
+
+describe("findCommandForEvent", () => {
+  it("matches positional bindings on the key code", () => {
+    expect(findCommandForEvent(DEFAULT_SHORTCUT_BINDINGS, keyDown("Space", " "))).toBe("togglePlayback");
+    expect(findCommandForEvent(DEFAULT_SHORTCUT_BINDINGS, keyDown("KeyM", "m"))).toBe("toggleMute");
+  });
+
+  it("opens help on the typed ? whatever key produces it", () => {
+    const us = keyDown("Slash", "?", { shiftKey: true });
+    const german = keyDown("Minus", "?", { shiftKey: true });
+    const french = keyDown("KeyM", "?", { shiftKey: true });
+    for (const e of [us, german, french]) expect(findCommandForEvent(DEFAULT_SHORTCUT_BINDINGS, e)).toBe("showHelp");
+  });
+
+  it("prefers an explicit positional binding over the typed character", () => {
+    const bindings = rebindShortcut(DEFAULT_SHORTCUT_BINDINGS, "toggleLoop", "Shift+Slash");
+    expect(findCommandForEvent(bindings, keyDown("Slash", "?", { shiftKey: true }))).toBe("toggleLoop");
+  });
+
+  it("ignores the typed character with Ctrl, Alt or Meta held", () => {
+    expect(findCommandForEvent(DEFAULT_SHORTCUT_BINDINGS, keyDown("Slash", "?", { ctrlKey: true, shiftKey: true }))).toBeNull();
+  });
+});
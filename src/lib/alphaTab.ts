@@ -0,0 +1,34 @@
+// The single entry point to AlphaTab. The package is bundled from node_modules;
+// vite.config.ts copies its fonts, soundfonts and worker scripts into the public
+// directory, so nothing is loaded from a CDN.
+import * as alphaTab from "@coderline/alphatab";
+
+export { alphaTab };
+
+export type AlphaTabApi = alphaTab.AlphaTabApi;
+export type AlphaTabSettings = alphaTab.json.SettingsJson;
+export type Score = alphaTab.model.Score;
+export type Track = alphaTab.model.Track;
+export type Staff = alphaTab.model.Staff;
+export type MasterBar = alphaTab.model.MasterBar;
+export type Bar = alphaTab.model.Bar;
+export type Voice = alphaTab.model.Voice;
+export type Beat = alphaTab.model.Beat;
+export type Note = alphaTab.model.Note;
+
+// Served from our own origin (see alphaTabAssets in vite.config.ts)
+export const ALPHATAB_FONT_DIRECTORY = "/font/";
+export const DEFAULT_SOUNDFONT_URL = "/soundfont/sonivox.sf2";
+
+// Settings saved before the bundle point the default soundfont at the CDN
+const CDN_PREFIX = "https://cdn.jsdelivr.net/npm/@coderline/alphatab";
+
+export const resolveSoundFontUrl = (url: string | null | undefined): string =>
+  !url || url.startsWith(CDN_PREFIX) ? DEFAULT_SOUNDFONT_URL : url;
+
+// Fills in the bundled font directory unless the caller sets one
+export const createAlphaTabApi = (element: HTMLElement, settings: AlphaTabSettings): AlphaTabApi =>
+  new alphaTab.AlphaTabApi(element, {
+    ...settings,
+    core: { fontDirectory: ALPHATAB_FONT_DIRECTORY, ...settings.core },
+  });
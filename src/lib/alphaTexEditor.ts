@@ -0,0 +1,66 @@
+// Parsing and conversion for the admin alphaTex editor.
+import { alphaTab, Score } from "@/lib/alphaTab";
+import { writeAlphaTex } from "@/lib/alphaTexWriter";
+
+export interface AlphaTexProblem {
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export type AlphaTexParseResult = { score: Score; problem: null } | { score: null; problem: AlphaTexProblem };
+
+export const NEW_TAB_TEMPLATE = `\\title "Untitled"
+\\tempo 120
+.
+\\track "Guitar"
+\\staff {tabs}
+\\tuning E4 B3 G3 D3 A2 E2
+  :4 0.6 2.5 2.4 0.3 |
+  :4 (0.6 0.1 1.2) r r r
+`;
+
+// AlphaTab prefixes its messages with the position we show separately
+const MESSAGE_PREFIX = /^MalFormed AlphaTex: @\d+ \(line \d+, col \d+\): /;
+
+export const parseAlphaTex = (tex: string): AlphaTexParseResult => {
+  const importer = new alphaTab.importer.AlphaTexImporter();
+  importer.logErrors = false;
+  try {
+    importer.initFromString(tex, new alphaTab.Settings());
+    return { score: importer.readScore(), problem: null };
+  } catch (e) {
+    // Syntax errors arrive wrapped in an UnsupportedFormatError with the position on the cause
+    const source = typeof e?.cause?.line === "number" ? e.cause : e;
+    return {
+      score: null,
+      problem: {
+        message: String(source?.message ?? e?.message ?? "Invalid alphaTex").replace(MESSAGE_PREFIX, ""),
+        line: typeof source?.line === "number" ? Math.max(1, source.line) : 1,
+        column: typeof source?.col === "number" ? Math.max(1, source.col) : 1,
+      },
+    };
+  }
+};
+
+// Character offset of a line/column in the text, for moving the caret to an error
+export const getTextOffset = (text: string, line: number, column: number): number => {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const next = text.indexOf("\n", offset);
+    if (next === -1) return text.length;
+    offset = next + 1;
+  }
+  const lineEnd = text.indexOf("\n", offset);
+  return Math.min(offset + column - 1, lineEnd === -1 ? text.length : lineEnd);
+};
+
+// Any file AlphaTab can read, as alphaTex for editing
+export const convertToAlphaTex = (bytes: Uint8Array): string => {
+  const score = alphaTab.importer.ScoreLoader.loadScoreFromBytes(bytes, new alphaTab.Settings());
+  return writeAlphaTex(score, { transpose: 0, speed: 1 });
+};
+
+// Saved as Guitar Pro 7 so the rest of the site (metadata, revisions) treats it like an upload
+export const exportGuitarPro = (score: Score): Uint8Array =>
+  new alphaTab.exporter.Gp7Exporter().export(score, new alphaTab.Settings());
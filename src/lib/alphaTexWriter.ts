@@ -0,0 +1,202 @@
+// Serializes an AlphaTab score model into alphaTex text. Covers what our tabs
+// use: metadata, tracks/staves/voices, tunings, bar metadata, durations, and the
+// common guitar note effects. Anything else is dropped rather than guessed.
+
+import { alphaTab, Bar, Beat, Note, Score, Staff, Track } from "@/lib/alphaTab";
+import { pitchName } from "@/lib/pitch";
+import type { ScoreExportOptions } from "@/lib/scoreExport";
+
+const { GraceType, HarmonicType, KeySignatureType, SlideInType, SlideOutType } = alphaTab.model;
+
+const MAJOR_KEYS = ["Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#"];
+const MINOR_KEYS = ["Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#", "G#", "D#", "A#"];
+
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const formatTempo = (tempo: number) => String(Math.round(tempo * 100) / 100);
+
+const formatKeySignature = (keySignature: number, keySignatureType: number) => {
+  const index = Math.max(0, Math.min(14, keySignature + 7));
+  return keySignatureType === KeySignatureType.Minor ? `${MINOR_KEYS[index]}minor` : MAJOR_KEYS[index];
+};
+
+const writeNoteValue = (note: Note, staff: Staff): string => {
+  if (note.isPercussion) return String(note.percussionArticulation);
+  if (note.isPiano) return pitchName(note.octave * 12 + note.tone);
+  // AlphaTab counts strings from the lowest, alphaTex from the highest
+  return `${note.fret}.${staff.tuning.length - note.string + 1}`;
+};
+
+const writeNoteEffects = (note: Note): string[] => {
+  const effects: string[] = [];
+  if (note.isTieDestination) effects.push("t");
+  if (note.hasBend && note.bendPoints?.length) {
+    effects.push(`be (${note.bendPoints.map((p) => `${p.offset} ${p.value}`).join(" ")})`);
+  }
+  if (note.harmonicType === HarmonicType.Natural) effects.push("nh");
+  if (note.harmonicType === HarmonicType.Artificial) effects.push("ah");
+  if (note.vibrato) effects.push("v");
+  if (note.slideInType === SlideInType.IntoFromBelow) effects.push("sib");
+  if (note.slideInType === SlideInType.IntoFromAbove) effects.push("sia");
+  if (note.slideOutType === SlideOutType.Shift) effects.push("ss");
+  if (note.slideOutType === SlideOutType.Legato) effects.push("sl");
+  if (note.slideOutType === SlideOutType.OutUp) effects.push("sou");
+  if (note.slideOutType === SlideOutType.OutDown) effects.push("sod");
+  if (note.isHammerPullOrigin) effects.push("h");
+  if (note.isLeftHandTapped) effects.push("lht");
+  if (note.isGhost) effects.push("g");
+  if (note.isPalmMute) effects.push("pm");
+  if (note.isStaccato) effects.push("st");
+  if (note.isLetRing) effects.push("lr");
+  if (note.isDead) effects.push("x");
+  return effects;
+};
+
+const writeNote = (note: Note, staff: Staff): string => {
+  const effects = writeNoteEffects(note);
+  return writeNoteValue(note, staff) + (effects.length ? `{${effects.join(" ")}}` : "");
+};
+
+const writeBeat = (beat: Beat, staff: Staff): string => {
+  let content: string;
+  if (beat.isRest || !beat.notes?.length) {
+    content = "r";
+  } else if (beat.notes.length === 1) {
+    content = writeNote(beat.notes[0], staff);
+  } else {
+    content = `(${beat.notes.map((note) => writeNote(note, staff)).join(" ")})`;
+  }
+
+  const effects: string[] = [];
+  if (beat.dots === 1) effects.push("d");
+  if (beat.dots === 2) effects.push("dd");
+  if (beat.hasTuplet && beat.tupletNumerator > 1) {
+    effects.push(
+      beat.tupletDenominator > 0 && beat.tupletDenominator !== 2
+        ? `tu ${beat.tupletNumerator} ${beat.tupletDenominator}`
+        : `tu ${beat.tupletNumerator}`
+    );
+  }
+  if (beat.text) effects.push(`txt ${quote(beat.text)}`);
+
+  return `${content}.${beat.duration}` + (effects.length ? `{${effects.join(" ")}}` : "");
+};
+
+// Master bar metadata is only written once, on the first staff of the first track
+const writeBarMetadata = (bar: Bar, previousBar: Bar | undefined, speed: number): string[] => {
+  const masterBar = bar.masterBar;
+  const previousMaster = previousBar?.masterBar;
+  const meta: string[] = [];
+
+  if (
+    !previousMaster ||
+    previousMaster.timeSignatureNumerator !== masterBar.timeSignatureNumerator ||
+    previousMaster.timeSignatureDenominator !== masterBar.timeSignatureDenominator
+  ) {
+    meta.push(`\\ts ${masterBar.timeSignatureNumerator} ${masterBar.timeSignatureDenominator}`);
+  }
+  if (
+    !previousBar ||
+    previousBar.keySignature !== bar.keySignature ||
+    previousBar.keySignatureType !== bar.keySignatureType
+  ) {
+    meta.push(`\\ks ${formatKeySignature(bar.keySignature, bar.keySignatureType)}`);
+  }
+  if (masterBar.isRepeatStart) meta.push("\\ro");
+  if (masterBar.repeatCount > 0) meta.push(`\\rc ${masterBar.repeatCount}`);
+  if (masterBar.section) {
+    meta.push(
+      masterBar.section.marker
+        ? `\\section ${quote(masterBar.section.marker)} ${quote(masterBar.section.text ?? "")}`
+        : `\\section ${quote(masterBar.section.text ?? "")}`
+    );
+  }
+  // The score-level tempo covers bar one; later changes are bar metadata
+  for (const automation of masterBar.tempoAutomations ?? []) {
+    if (masterBar.index === 0 && automation.ratioPosition === 0) continue;
+    meta.push(`\\tempo ${formatTempo(automation.value * speed)}`);
+  }
+  return meta;
+};
+
+const writeVoiceBars = (staff: Staff, voiceIndex: number, withMasterMetadata: boolean, speed: number): string => {
+  return staff.bars
+    .map((bar, barIndex) => {
+      const meta = withMasterMetadata && voiceIndex === 0 ? writeBarMetadata(bar, staff.bars[barIndex - 1], speed) : [];
+      const voice = bar.voices[voiceIndex];
+      const beats = (voice?.beats ?? [])
+        .filter((beat) => beat.graceType === GraceType.None || beat.graceType === undefined)
+        .map((beat) => writeBeat(beat, staff));
+      // An empty voice still needs a placeholder so bar lines stay aligned
+      const content = beats.length ? beats.join(" ") : `r.${bar.masterBar.timeSignatureDenominator}`;
+      return [...meta, content].join(" ");
+    })
+    .join(" |\n  ");
+};
+
+const writeStaff = (track: Track, staff: Staff, isFirstTrack: boolean, options: ScoreExportOptions): string => {
+  const lines: string[] = [];
+  const display = [
+    staff.showStandardNotation ? "score" : null,
+    staff.showTablature && staff.isStringed ? "tabs" : null,
+  ].filter(Boolean);
+  lines.push(`\\staff {${display.length ? display.join(" ") : "score"}}`);
+
+  if (staff.isPercussion) {
+    lines.push("\\instrument percussion");
+  } else {
+    // The instrument goes first, as it would otherwise reset an explicit tuning
+    lines.push(`\\instrument ${track.playbackInfo?.program ?? 0}`);
+    if (staff.isStringed && staff.tuning?.length) {
+      lines.push(`\\tuning ${[...staff.tuning].map((value: number) => pitchName(value)).join(" ")}`);
+    } else {
+      lines.push(`\\tuning piano`);
+    }
+    if (staff.capo > 0) lines.push(`\\capo ${staff.capo}`);
+    if (options.transpose !== 0) {
+      // Same representation the player uses: shifted playback, shifted notation, unchanged frets
+      lines.push(`\\transpose ${options.transpose}`);
+      lines.push(`\\displaytranspose ${-options.transpose}`);
+    }
+  }
+
+  const barsWithNotes = (voiceIndex: number) =>
+    staff.bars.some((bar) => bar.voices[voiceIndex]?.beats?.some((beat) => !beat.isRest));
+  const voiceCount = Math.max(1, ...staff.bars.map((bar) => bar.voices.length));
+  const voices = Array.from({ length: voiceCount }, (_, i) => i).filter((i) => i === 0 || barsWithNotes(i));
+
+  const isFirstStaff = isFirstTrack && staff.index === 0;
+  if (voices.length === 1) {
+    lines.push(`  ${writeVoiceBars(staff, 0, isFirstStaff, options.speed)}`);
+  } else {
+    for (const voiceIndex of voices) {
+      lines.push("\\voice");
+      lines.push(`  ${writeVoiceBars(staff, voiceIndex, isFirstStaff, options.speed)}`);
+    }
+  }
+  return lines.join("\n");
+};
+
+export const writeAlphaTex = (score: Score, options: ScoreExportOptions): string => {
+  const lines: string[] = [];
+  if (score.title) lines.push(`\\title ${quote(score.title)}`);
+  if (score.subTitle) lines.push(`\\subtitle ${quote(score.subTitle)}`);
+  if (score.artist) lines.push(`\\artist ${quote(score.artist)}`);
+  if (score.album) lines.push(`\\album ${quote(score.album)}`);
+  if (score.words) lines.push(`\\words ${quote(score.words)}`);
+  if (score.music) lines.push(`\\music ${quote(score.music)}`);
+  if (score.tab) lines.push(`\\tab ${quote(score.tab)}`);
+  if (score.copyright) lines.push(`\\copyright ${quote(score.copyright)}`);
+  lines.push(`\\tempo ${formatTempo(score.tempo * options.speed)}`);
+  lines.push(".");
+
+  score.tracks.forEach((track, trackIndex) => {
+    lines.push("");
+    lines.push(`\\track ${quote(track.name || `Track ${trackIndex + 1}`)}`);
+    for (const staff of track.staves) {
+      lines.push(writeStaff(track, staff, trackIndex === 0, options));
+    }
+  });
+
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,429 @@
+// Converts plain-text ASCII tab (e|--0--3h5--|) into alphaTex. ASCII tab has no
+// rhythm, so durations are estimated from the spacing of the notes in each bar,
+// with the first note of a bar taken as the downbeat. Every non-empty line that
+// isn't used ends up in the issues list so nothing is dropped silently.
+import { pitchName } from "@/lib/pitch";
+
+export interface AsciiTabIssue {
+  line: number; // 1-based
+  text: string;
+  reason: string;
+}
+
+export interface AsciiTabTrackSummary {
+  name: string;
+  strings: number;
+  bars: number;
+}
+
+export interface AsciiTabImport {
+  tex: string;
+  tracks: AsciiTabTrackSummary[];
+  issues: AsciiTabIssue[];
+}
+
+export interface AsciiTabOptions {
+  title?: string;
+  tempo?: number;
+}
+
+interface TabLine {
+  lineNumber: number;
+  raw: string;
+  name: string | null;
+  body: string;
+}
+
+interface TabNote {
+  column: number;
+  string: number; // 1 is the top (highest) line, as in alphaTex
+  fret: number;
+  effects: string[];
+}
+
+interface Track {
+  name: string;
+  tuning: number[];
+  bars: string[];
+}
+
+const MIN_STRINGS = 4;
+const MAX_STRINGS = 8;
+
+// Highest string first
+const DEFAULT_TUNINGS: Record<number, number[]> = {
+  4: [43, 38, 33, 28],
+  5: [43, 38, 33, 28, 23],
+  6: [64, 59, 55, 50, 45, 40],
+  7: [64, 59, 55, 50, 45, 40, 35],
+  8: [64, 59, 55, 50, 45, 40, 35, 30],
+};
+
+const PROGRAM_GUITAR = 25; // Acoustic Guitar (steel)
+const PROGRAM_BASS = 33; // Electric Bass (finger)
+
+const NOTE_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Characters that can appear in a tab line, interpreted or not
+const TAB_CHARACTERS = /^[-0-9|hpbr/\\~xX<>()s.*: ]*$/;
+// Repeat signs and spacing that carry no notes
+const DECORATION = new Set([":", "*", ".", " "]);
+
+const INSTRUMENT_LABEL = /\b(gtr|guitar|bass|rhythm|lead|acoustic|electric)\b/i;
+const SECTION_LABEL =
+  /^\s*(?:\[([^\]]{1,30})\]|((?:intro|verse|pre-?chorus|chorus|bridge|solo|outro|interlude|riff|breakdown|coda)\b[^:]{0,20}):?)\s*$/i;
+
+// Bars are 4/4, measured in 64th notes
+const BAR_LENGTH = 64;
+
+// Allowed durations, longest first, and how alphaTex writes them
+const DURATIONS: [number, string][] = [
+  [64, "1"],
+  [48, "2{d}"],
+  [32, "2"],
+  [24, "4{d}"],
+  [16, "4"],
+  [12, "8{d}"],
+  [8, "8"],
+  [6, "16{d}"],
+  [4, "16"],
+  [3, "32{d}"],
+  [2, "32"],
+  [1, "64"],
+];
+
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// "e|--0--", "D ---2---" or "|---0---|". The body starts after the string name and first bar line.
+const readTabLine = (raw: string, lineNumber: number): TabLine | null => {
+  const prefix = raw.match(/^\s*([A-Ga-g][#b]?)?\s*(\|{1,2}|:)?/);
+  const name = prefix?.[1] ?? null;
+  const body = raw.slice(prefix?.[0].length ?? 0).trimEnd();
+  if (body.length < 4 || (!name && !prefix?.[2] && !body.includes("|"))) return null;
+
+  const dashes = body.split("-").length - 1;
+  if (dashes < body.length * 0.4) return null;
+  // Mostly tab characters; the rest is reported per line
+  const unknown = [...body].filter((ch) => !TAB_CHARACTERS.test(ch)).length;
+  if (unknown > body.length * 0.1) return null;
+  return { lineNumber, raw, name, body };
+};
+
+const noteClass = (name: string): number => {
+  const base = NOTE_CLASSES[name[0].toUpperCase()];
+  const alter = name[1] === "#" ? 1 : name[1] === "b" ? -1 : 0;
+  return (base + alter + 12) % 12;
+};
+
+// String names only give pitch classes; the octave comes from the usual tuning for that many strings
+const getTuning = (lines: TabLine[]): number[] => {
+  const defaults = DEFAULT_TUNINGS[lines.length];
+  if (lines.some((line) => !line.name)) return defaults;
+  return lines.map((line, i) => {
+    const target = defaults[i];
+    const offset = (noteClass(line.name!) - target + 120) % 12;
+    return offset <= 6 ? target + offset : target + offset - 12;
+  });
+};
+
+const readNotes = (line: TabLine, string: number, issues: AsciiTabIssue[]): TabNote[] => {
+  const notes: TabNote[] = [];
+  const body = line.body;
+  const unknown: string[] = [];
+  let last: TabNote | null = null;
+  let adjacent = false; // the previous token belongs to the last note
+  let slideIn: string | null = null;
+
+  const addEffect = (note: TabNote, effect: string) => {
+    if (!note.effects.includes(effect)) note.effects.push(effect);
+  };
+  const readNumber = (from: number) => {
+    const match = body.slice(from).match(/^\d{1,2}/);
+    return match ? match[0] : null;
+  };
+
+  let i = 0;
+  while (i < body.length) {
+    const ch = body[i];
+    const digits = readNumber(i);
+    const wrapped = /[<(]/.test(ch) ? body.slice(i).match(/^([<(])(\d{1,2})([>)])/) : null;
+
+    if (digits || wrapped || ch === "x" || ch === "X") {
+      const note: TabNote = { column: i, string, fret: 0, effects: [] };
+      if (digits) {
+        note.fret = Number(digits);
+        i += digits.length;
+      } else if (wrapped) {
+        note.fret = Number(wrapped[2]);
+        note.effects.push(wrapped[1] === "<" ? "nh" : "g");
+        i += wrapped[0].length;
+      } else {
+        note.effects.push("x");
+        i++;
+      }
+      if (slideIn) {
+        note.effects.push(slideIn);
+        slideIn = null;
+      }
+      notes.push(note);
+      last = note;
+      adjacent = true;
+      continue;
+    }
+
+    if (ch === "-" || ch === "|") {
+      if (ch === "|") last = null;
+      adjacent = false;
+    } else if ((ch === "h" || ch === "p") && last) {
+      addEffect(last, "h");
+    } else if (ch === "/" || ch === "\\" || ch === "s") {
+      if (last && adjacent) {
+        // Into the next note, or out of this one when nothing follows
+        const into = readNumber(i + 1) !== null;
+        addEffect(last, into ? "ss" : ch === "\\" ? "sod" : "sou");
+      } else {
+        slideIn = ch === "\\" ? "sia" : "sib";
+      }
+    } else if (ch === "b" && last) {
+      // 7b9 bends a whole tone, 7b9r7 releases it again; a bare b is a full bend
+      const target = readNumber(i + 1);
+      const quarterTones = target ? Math.max(1, (Number(target) - last.fret) * 2) : 4;
+      i += 1 + (target?.length ?? 0);
+      const release = body[i] === "r";
+      if (release) i += 1 + (readNumber(i + 1)?.length ?? 0);
+      addEffect(last, release ? `b (0 ${quarterTones} 0)` : `b (0 ${quarterTones})`);
+      continue;
+    } else if (ch === "~" && last) {
+      addEffect(last, "v");
+    } else if (!DECORATION.has(ch)) {
+      unknown.push(`'${ch}' at column ${i + 1}`);
+    }
+    i++;
+  }
+
+  if (unknown.length) {
+    issues.push({
+      line: line.lineNumber,
+      text: line.raw,
+      reason: `Ignored ${unknown.length === 1 ? "symbol" : "symbols"} ${unknown.join(", ")}`,
+    });
+  }
+  return notes;
+};
+
+// Durations that add up to exactly `length`, longest first
+const splitDuration = (length: number): string[] => {
+  const parts: string[] = [];
+  let remaining = length;
+  for (const [value, written] of DURATIONS) {
+    while (remaining >= value) {
+      parts.push(written);
+      remaining -= value;
+    }
+  }
+  return parts;
+};
+
+const writeBeat = (notes: TabNote[], duration: string): string => {
+  const written = notes
+    .sort((a, b) => a.string - b.string)
+    .map((note) => `${note.fret}.${note.string}${note.effects.length ? `{${note.effects.join(" ")}}` : ""}`);
+  const content = written.length === 1 ? written[0] : `(${written.join(" ")})`;
+  return `${content}.${duration}`;
+};
+
+// Columns where most lines have a bar line split the system into bars
+const getBarColumns = (lines: TabLine[]): number[] => {
+  const width = Math.max(...lines.map((line) => line.body.length));
+  const columns: number[] = [];
+  for (let column = 0; column < width; column++) {
+    const bars = lines.filter((line) => line.body[column] === "|").length;
+    if (bars * 2 >= lines.length) columns.push(column);
+  }
+  return columns;
+};
+
+const writeSystemBars = (lines: TabLine[], issues: AsciiTabIssue[]): string[] => {
+  const notes = lines.flatMap((line, i) => readNotes(line, i + 1, issues));
+  const width = Math.max(...lines.map((line) => line.body.length));
+  const boundaries = [-1, ...getBarColumns(lines), width];
+
+  const bars: string[] = [];
+  for (let b = 0; b < boundaries.length - 1; b++) {
+    const start = boundaries[b];
+    const end = boundaries[b + 1];
+    const inBar = notes.filter((note) => note.column > start && note.column < end);
+    if (inBar.length === 0) {
+      // Double bar lines and trailing padding aren't bars
+      if (end - start > 3 && b > 0 && b < boundaries.length - 2) bars.push("r.1");
+      continue;
+    }
+
+    // Positions are rounded to a grid as a whole so the durations add up to the bar. Busy
+    // bars get a finer grid, so every column keeps its own beat.
+    const columns = [...new Set(inBar.map((note) => note.column))].sort((a, c) => a - c);
+    const barWidth = end - start - 1;
+    const slots = [16, 32].find((size) => size >= columns.length) ?? BAR_LENGTH;
+    const slotLength = BAR_LENGTH / slots;
+    const positions: number[] = [];
+    for (const column of columns) {
+      const position = Math.round(((column - columns[0]) / barWidth) * slots);
+      positions.push(Math.max(position, (positions[positions.length - 1] ?? -1) + 1));
+    }
+    // Pushed past the bar line: pull back, sharing a beat when there are more columns than slots
+    for (let k = positions.length - 1; k >= 0; k--) {
+      const limit = k + 1 < positions.length ? positions[k + 1] - 1 : slots - 1;
+      positions[k] = Math.max(0, Math.min(positions[k], limit));
+    }
+
+    const beats: string[] = [];
+    positions.forEach((position, k) => {
+      if (position === positions[k - 1]) return;
+      const sharing = columns.filter((_, c) => positions[c] === position);
+      const next = positions.find((other) => other > position) ?? slots;
+      // Gaps with no single duration become the note plus rests
+      const [duration, ...rests] = splitDuration((next - position) * slotLength);
+      const chord = inBar.filter((note) => sharing.includes(note.column));
+      beats.push(writeBeat(chord, duration), ...rests.map((rest) => `r.${rest}`));
+    });
+    bars.push(beats.join(" "));
+  }
+  return bars;
+};
+
+// How well a group of lines fits one staff: string names matching the usual tuning, and the usual sizes
+const scoreStaff = (lines: TabLine[]): number => {
+  const defaults = DEFAULT_TUNINGS[lines.length];
+  const matches = lines.filter((line, i) => line.name && noteClass(line.name) === defaults[i] % 12).length;
+  return matches + (lines.length === 6 ? 0.5 : lines.length === 4 ? 0.25 : 0);
+};
+
+// Runs longer than one staff are staves stacked without a gap between them
+const splitStack = (run: TabLine[]): TabLine[][] => {
+  if (run.length <= MAX_STRINGS) return [run];
+  // Best split into staves of 4 to 8 lines
+  const best: ({ score: number; staves: TabLine[][] } | null)[] = [{ score: 0, staves: [] }];
+  for (let end = 1; end <= run.length; end++) {
+    best[end] = null;
+    for (let size = MIN_STRINGS; size <= Math.min(MAX_STRINGS, end); size++) {
+      const before = best[end - size];
+      if (!before) continue;
+      const staff = run.slice(end - size, end);
+      const score = before.score + scoreStaff(staff);
+      if (!best[end] || score > best[end]!.score) best[end] = { score, staves: [...before.staves, staff] };
+    }
+  }
+  return best[run.length]?.staves ?? [run];
+};
+
+const padBars = (tracks: Track[]) => {
+  const length = Math.max(0, ...tracks.map((track) => track.bars.length));
+  for (const track of tracks) {
+    while (track.bars.length < length) track.bars.push("r.1");
+  }
+};
+
+export const parseAsciiTab = (text: string, options: AsciiTabOptions = {}): AsciiTabImport => {
+  const lines = text.replace(/\t/g, "    ").split(/\r?\n/);
+  const issues: AsciiTabIssue[] = [];
+  const tracks = new Map<string, Track>();
+  let label: string | null = null;
+  let section: string | null = null;
+
+  const trackFor = (key: string, name: string, tuning: number[]) => {
+    let track = tracks.get(key);
+    if (!track) {
+      const taken = [...tracks.values()].filter((t) => t.name === name || t.name.startsWith(`${name} `)).length;
+      track = { name: taken ? `${name} ${taken + 1}` : name, tuning, bars: [] };
+      tracks.set(key, track);
+    }
+    return track;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const raw = lines[i];
+    const first = readTabLine(raw, i + 1);
+    if (!first) {
+      const trimmed = raw.trim();
+      const sectionMatch = trimmed.match(SECTION_LABEL);
+      if (!trimmed) {
+        // Blank lines keep a label for the staff right below it
+      } else if (sectionMatch) {
+        section = (sectionMatch[1] ?? sectionMatch[2]).trim();
+      } else if (trimmed.length <= 30 && INSTRUMENT_LABEL.test(trimmed)) {
+        label = trimmed.replace(/:$/, "").trim();
+      } else {
+        issues.push({ line: i + 1, text: raw, reason: "Text outside the tab" });
+        label = null;
+      }
+      i++;
+      continue;
+    }
+
+    const run: TabLine[] = [first];
+    while (i + run.length < lines.length) {
+      const next = readTabLine(lines[i + run.length], i + run.length + 1);
+      if (!next) break;
+      run.push(next);
+    }
+    i += run.length;
+
+    const staves = splitStack(run);
+    if (staves.some((staff) => staff.length < MIN_STRINGS || staff.length > MAX_STRINGS)) {
+      for (const line of run) {
+        issues.push({
+          line: line.lineNumber,
+          text: line.raw,
+          reason: `Looks like tab, but the staff has ${run.length} string lines (expected ${MIN_STRINGS} to ${MAX_STRINGS})`,
+        });
+      }
+      continue;
+    }
+
+    const stacked = staves.map((staff, position) => {
+      const tuning = getTuning(staff);
+      const fallbackName = staff.length <= 5 ? "Bass" : "Guitar";
+      const key =
+        label && staves.length === 1
+          ? `label:${label}`
+          : `${staves.length > 1 ? `stack:${position}:` : ""}${tuning.join(" ")}`;
+      return { staff, track: trackFor(key, staves.length === 1 && label ? label : fallbackName, tuning) };
+    });
+
+    // Stacked staves play together, so they start on the same bar
+    padBars(stacked.map(({ track }) => track));
+    for (const { staff, track } of stacked) {
+      const bars = writeSystemBars(staff, issues);
+      if (section && bars.length) {
+        bars[0] = `\\section ${quote(section)} ${bars[0]}`;
+      }
+      track.bars.push(...bars);
+    }
+    section = null;
+    label = null;
+  }
+
+  const allTracks = [...tracks.values()].filter((track) => track.bars.length > 0);
+  padBars(allTracks);
+
+  const tex: string[] = [];
+  tex.push(`\\title ${quote(options.title || "Imported tab")}`);
+  tex.push(`\\tempo ${options.tempo ?? 120}`);
+  tex.push(".");
+  for (const track of allTracks) {
+    tex.push("");
+    tex.push(`\\track ${quote(track.name)}`);
+    tex.push("\\staff {tabs}");
+    // The instrument goes first, as it would otherwise reset the tuning
+    tex.push(`\\instrument ${track.tuning.length <= 5 ? PROGRAM_BASS : PROGRAM_GUITAR}`);
+    tex.push(`\\tuning ${track.tuning.map((value) => pitchName(value)).join(" ")}`);
+    tex.push(`  ${track.bars.join(" |\n  ")}`);
+  }
+
+  return {
+    tex: tex.join("\n") + "\n",
+    tracks: allTracks.map((track) => ({ name: track.name, strings: track.tuning.length, bars: track.bars.length })),
+    issues: issues.sort((a, b) => a.line - b.line),
+  };
+};
@@ -0,0 +1,118 @@
+// Offline rendering of the loaded score through AlphaTab's synthesizer into a
+// WAV file. Everything runs in the browser; nothing is uploaded.
+
+import { alphaTab, type AlphaTabApi } from "@/lib/alphaTab";
+import { withScoreOverrides } from "@/lib/scoreExport";
+
+export interface AudioExportSettings {
+  program: number | null; // synth instrument applied to all non-percussion tracks
+  trackPrograms: Record<number, number>; // per track index, takes precedence over program
+  speed: number; // playback speed multiplier, 1 = original tempo
+  trackVolumes: Map<number, number>; // track index -> 0..1
+  masterVolume: number; // 0..1
+  sampleRate?: number;
+}
+
+export interface AudioExportHandle {
+  promise: Promise<Blob>;
+  cancel: () => void;
+}
+
+const CHANNELS = 2; // AlphaSynth always renders interleaved stereo
+const CHUNK_MS = 500;
+
+// Encode interleaved float samples as 16-bit PCM WAV
+export const encodeWav = (chunks: Float32Array[], sampleRate: number, channels = CHANNELS): Blob => {
+  const sampleCount = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const dataSize = sampleCount * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      const sample = Math.max(-1, Math.min(1, chunk[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+};
+
+export const exportScoreToWav = (
+  api: AlphaTabApi | null,
+  settings: AudioExportSettings,
+  onProgress: (progress: number) => void
+): AudioExportHandle => {
+  let cancelled = false;
+
+  const promise = (async () => {
+    const AudioExportOptions = alphaTab.synth.AudioExportOptions;
+    if (!api?.score || typeof api.exportAudio !== "function") {
+      throw new Error("Audio export is not supported by this player");
+    }
+
+    const options = new AudioExportOptions();
+    options.sampleRate = settings.sampleRate ?? 44100;
+    options.masterVolume = settings.masterVolume;
+    options.metronomeVolume = 0;
+    options.useSyncPoints = false;
+    for (const [trackIndex, volume] of settings.trackVolumes) {
+      options.trackVolume.set(trackIndex, volume);
+    }
+
+    // exportAudio builds its own MIDI file without firing midiLoad, so the player's
+    // instrument and tempo are applied to the score. Generation happens synchronously,
+    // before exportAudio's first await, so the overrides are gone again by the time it resolves.
+    const pending = withScoreOverrides(
+      api.score,
+      { program: settings.program, trackPrograms: settings.trackPrograms, speed: settings.speed },
+      () => api.exportAudio(options)
+    );
+    const exporter = await pending;
+
+    const chunks: Float32Array[] = [];
+    try {
+      while (!cancelled) {
+        const chunk = await exporter.render(CHUNK_MS);
+        if (!chunk) break;
+        chunks.push(chunk.samples);
+        if (chunk.endTime > 0) {
+          onProgress(Math.min(1, chunk.currentTime / chunk.endTime));
+        }
+      }
+    } finally {
+      exporter.destroy();
+    }
+
+    if (cancelled) throw new Error("Export cancelled");
+    onProgress(1);
+    return encodeWav(chunks, options.sampleRate);
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+    },
+  };
+};
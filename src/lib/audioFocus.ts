@@ -0,0 +1,154 @@
+// Coordinates the site's audio sources (the MP3 player and tab players) so only
+// one of them has the foreground: starting one pauses or ducks the others.
+// It also holds the now-playing state that pages like Recordings display.
+
+export type AudioInterruption = "pause" | "duck";
+
+export interface AudioFocusSource {
+  id: string;
+  // What happens to this source when another one starts playing
+  interruption: AudioInterruption;
+  pause: () => void;
+  setDucked?: (ducked: boolean) => void;
+  // Remote control, implemented by the MP3 player
+  playTrack?: (index: number) => void;
+  togglePlayback?: () => void;
+  seek?: (progress: number) => void;
+}
+
+export interface NowPlaying {
+  sourceId: string | null;
+  trackId: string | null;
+  isPlaying: boolean;
+  progress: Record<string, number>; // trackId -> 0..1
+}
+
+export interface PlaybackStateUpdate {
+  trackId?: string | null;
+  isPlaying?: boolean;
+  progress?: number;
+}
+
+export const DUCK_VOLUME = 0.2;
+
+const INITIAL_NOW_PLAYING: NowPlaying = { sourceId: null, trackId: null, isPlaying: false, progress: {} };
+
+export class AudioFocusManager {
+  private sources = new Map<string, AudioFocusSource>();
+  private focusedId: string | null = null;
+  private duckedIds = new Set<string>();
+  private nowPlaying: NowPlaying = INITIAL_NOW_PLAYING;
+  private listeners = new Set<() => void>();
+
+  register(source: AudioFocusSource): () => void {
+    this.sources.set(source.id, source);
+    return () => this.unregister(source.id);
+  }
+
+  unregister(sourceId: string) {
+    if (!this.sources.has(sourceId)) return;
+    this.releaseFocus(sourceId);
+    this.sources.delete(sourceId);
+    this.duckedIds.delete(sourceId);
+    if (this.nowPlaying.sourceId === sourceId) {
+      this.setNowPlaying({ ...this.nowPlaying, sourceId: null, isPlaying: false });
+    }
+  }
+
+  // Call when a source starts playing; the others are paused or ducked
+  requestFocus(sourceId: string) {
+    if (!this.sources.has(sourceId)) return;
+    this.focusedId = sourceId;
+
+    if (this.duckedIds.delete(sourceId)) {
+      this.sources.get(sourceId)?.setDucked?.(false);
+    }
+
+    for (const source of this.sources.values()) {
+      if (source.id === sourceId) continue;
+      if (source.interruption === "duck" && source.setDucked) {
+        if (!this.duckedIds.has(source.id)) {
+          this.duckedIds.add(source.id);
+          source.setDucked(true);
+        }
+      } else {
+        source.pause();
+      }
+    }
+  }
+
+  // Call when a source pauses or stops; ducked sources come back to full volume
+  releaseFocus(sourceId: string) {
+    if (this.focusedId !== sourceId) return;
+    this.focusedId = null;
+    for (const id of this.duckedIds) {
+      this.sources.get(id)?.setDucked?.(false);
+    }
+    this.duckedIds.clear();
+  }
+
+  getFocusedId(): string | null {
+    return this.focusedId;
+  }
+
+  isDucked(sourceId: string): boolean {
+    return this.duckedIds.has(sourceId);
+  }
+
+  playTrack(index: number) {
+    this.findSource((source) => !!source.playTrack)?.playTrack!(index);
+  }
+
+  togglePlayback() {
+    this.findSource((source) => !!source.togglePlayback)?.togglePlayback!();
+  }
+
+  seek(progress: number) {
+    this.findSource((source) => !!source.seek)?.seek!(Math.max(0, Math.min(1, progress)));
+  }
+
+  // Sources report what they are playing. Starting playback takes over now-playing;
+  // pauses and track changes from a source in the background only update progress.
+  reportState(sourceId: string, update: PlaybackStateUpdate) {
+    const current = this.nowPlaying;
+    const isCurrent = current.sourceId === sourceId;
+    const trackId = update.trackId !== undefined ? update.trackId : isCurrent ? current.trackId : null;
+    let next = current;
+
+    if (update.progress !== undefined && trackId) {
+      next = { ...next, progress: { ...next.progress, [trackId]: update.progress } };
+    }
+    if (update.isPlaying) {
+      next = { ...next, sourceId, trackId, isPlaying: true };
+    } else if (isCurrent || !current.isPlaying) {
+      if (update.isPlaying === false || update.trackId !== undefined) {
+        next = { ...next, sourceId, trackId, isPlaying: update.isPlaying ?? (isCurrent && current.isPlaying) };
+      }
+    }
+
+    if (next !== current) this.setNowPlaying(next);
+  }
+
+  getNowPlaying(): NowPlaying {
+    return this.nowPlaying;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setNowPlaying(next: NowPlaying) {
+    this.nowPlaying = next;
+    for (const listener of this.listeners) listener();
+  }
+
+  // The focused source if it can do it, otherwise the first registered one that can
+  private findSource(canHandle: (source: AudioFocusSource) => boolean): AudioFocusSource | undefined {
+    const focused = this.focusedId ? this.sources.get(this.focusedId) : undefined;
+    if (focused && canHandle(focused)) return focused;
+    return Array.from(this.sources.values()).find(canHandle);
+  }
+}
@@ -0,0 +1,126 @@
+// Recorded backing tracks for guitar tabs. Sync points tie positions in the
+// score to timestamps in the recording so the tab cursor can follow it.
+
+import { alphaTab, AlphaTabApi } from "@/lib/alphaTab";
+
+export type PlaybackSource = "synth" | "recording" | "both";
+
+// Same shape as AlphaTab's FlatSyncPoint, stored in guitar_embeds.backing_track_sync_points
+export interface BackingTrackSyncPoint {
+  barIndex: number; // 0-based master bar
+  barPosition: number; // 0..1 within the bar
+  barOccurence: number; // 0 on the first time the bar is played, 1 on the first repeat, ...
+  millisecondOffset: number; // position in the recording
+}
+
+export interface BackingTrack {
+  url: string;
+  syncPoints: BackingTrackSyncPoint[];
+}
+
+interface SyncMapEntry {
+  synthTime: number;
+  recordingTime: number;
+}
+
+export const PLAYBACK_SOURCES: { value: PlaybackSource; label: string }[] = [
+  { value: "synth", label: "Synth" },
+  { value: "recording", label: "Recording" },
+  { value: "both", label: "Both" },
+];
+
+export const sortSyncPoints = (syncPoints: BackingTrackSyncPoint[]) =>
+  [...syncPoints].sort(
+    (a, b) => a.barIndex - b.barIndex || a.barOccurence - b.barOccurence || a.barPosition - b.barPosition
+  );
+
+// Puts the recording and its sync points into the score so AlphaTab can play it
+export const attachBackingTrack = (api: AlphaTabApi | null, audio: Uint8Array, syncPoints: BackingTrackSyncPoint[]): boolean => {
+  const score = api?.score;
+  if (!score) return false;
+
+  score.backingTrack = new alphaTab.model.BackingTrack();
+  score.backingTrack.rawAudioFile = audio;
+  score.applyFlatSyncPoints(sortSyncPoints(syncPoints));
+  return true;
+};
+
+export const updateSyncPoints = (api: AlphaTabApi | null, syncPoints: BackingTrackSyncPoint[]) => {
+  if (!api?.score) return;
+  api.score.applyFlatSyncPoints(sortSyncPoints(syncPoints));
+  if (typeof api.updateSyncPoints === "function") api.updateSyncPoints();
+};
+
+// "recording" lets AlphaTab play the backing track itself; "synth" and "both" use the synthesizer
+// (for "both" the recording is played alongside, see getRecordingTime)
+export const setPlaybackSource = (api: AlphaTabApi | null, source: PlaybackSource) => {
+  const PlayerMode = alphaTab.PlayerMode;
+  const settings = api?.settings;
+  if (!settings) return;
+
+  const playerMode = source === "recording" ? PlayerMode.EnabledBackingTrack : PlayerMode.EnabledSynthesizer;
+  if (settings.player.playerMode === playerMode) return;
+
+  api.stop();
+  settings.player.playerMode = playerMode;
+  api.updateSettings();
+  api.loadMidiForScore();
+};
+
+// Synth time -> recording time pairs for every sync point, in playback order
+export const buildSyncMap = (api: AlphaTabApi | null): SyncMapEntry[] => {
+  if (!api?.score) return [];
+  try {
+    return alphaTab.midi.MidiFileGenerator.generateSyncPoints(api.score)
+      .map((point) => ({ synthTime: point.synthTime, recordingTime: point.syncTime }))
+      .sort((a, b) => a.synthTime - b.synthTime);
+  } catch (e) {
+    console.warn("Failed to build backing track sync map:", e);
+    return [];
+  }
+};
+
+// Where the recording should be for a synth position (both in ms at original tempo),
+// and how fast it runs relative to the synth around that point
+export const getRecordingTime = (map: SyncMapEntry[], synthTime: number): { time: number; rate: number } => {
+  if (map.length === 0) return { time: synthTime, rate: 1 };
+  if (map.length === 1 || synthTime <= map[0].synthTime) {
+    return { time: map[0].recordingTime + (synthTime - map[0].synthTime), rate: 1 };
+  }
+
+  let index = map.findIndex((entry) => entry.synthTime > synthTime) - 1;
+  if (index < 0) index = map.length - 2; // past the last sync point: keep the last segment's pace
+  const from = map[index];
+  const to = map[index + 1];
+  const synthSpan = to.synthTime - from.synthTime;
+  const rate = synthSpan > 0 ? (to.recordingTime - from.recordingTime) / synthSpan : 1;
+  return { time: from.recordingTime + (synthTime - from.synthTime) * rate, rate: rate > 0 ? rate : 1 };
+};
+
+// Sync point fields for the current cursor position
+export const getSyncPositionAtTick = (
+  api: AlphaTabApi | null,
+  tick: number
+): Pick<BackingTrackSyncPoint, "barIndex" | "barPosition" | "barOccurence"> | null => {
+  const lookups = api?.tickCache?.masterBars;
+  if (!lookups?.length) return null;
+
+  const occurences = new Map<number, number>();
+  for (const lookup of lookups) {
+    const barIndex = lookup.masterBar.index;
+    const barOccurence = occurences.get(barIndex) ?? 0;
+    occurences.set(barIndex, barOccurence + 1);
+    if (tick >= lookup.start && tick < lookup.end) {
+      const barPosition = lookup.end > lookup.start ? (tick - lookup.start) / (lookup.end - lookup.start) : 0;
+      return { barIndex, barPosition: Math.round(barPosition * 1000) / 1000, barOccurence };
+    }
+  }
+  return null;
+};
+
+export const formatRecordingTime = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, milliseconds) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${minutes}:${seconds.toFixed(3).padStart(6, "0")}`;
+};
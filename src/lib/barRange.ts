@@ -0,0 +1,85 @@
+// Helpers for converting between 1-based bar numbers (as shown to users)
+// and the MIDI tick ranges AlphaTab uses for playback ranges.
+import type { AlphaTabApi } from "@/lib/alphaTab";
+
+export interface BarRange {
+  startBar: number; // 1-based, inclusive
+  endBar: number; // 1-based, inclusive
+}
+
+export interface TickRange {
+  startTick: number;
+  endTick: number;
+}
+
+export const getBarCount = (api: AlphaTabApi | null): number => {
+  return api?.score?.masterBars?.length ?? 0;
+};
+
+export const clampBarRange = (range: BarRange, barCount: number): BarRange => {
+  const start = Math.max(1, Math.min(barCount, Math.round(range.startBar)));
+  const end = Math.max(1, Math.min(barCount, Math.round(range.endBar)));
+  return start <= end ? { startBar: start, endBar: end } : { startBar: end, endBar: start };
+};
+
+// Resolve a bar range to ticks using the first occurrence of each bar (respects repeats)
+export const barRangeToTicks = (api: AlphaTabApi | null, range: BarRange): TickRange | null => {
+  const masterBars = api?.score?.masterBars;
+  const tickCache = api?.tickCache;
+  if (!masterBars?.length || !tickCache) return null;
+
+  const { startBar, endBar } = clampBarRange(range, masterBars.length);
+  try {
+    const startLookup = tickCache.getMasterBar(masterBars[startBar - 1]);
+    const endLookup = tickCache.getMasterBar(masterBars[endBar - 1]);
+    if (!startLookup || !endLookup) return null;
+    return { startTick: startLookup.start, endTick: endLookup.end };
+  } catch (e) {
+    console.warn("Failed to resolve bar range to ticks:", e);
+    return null;
+  }
+};
+
+export const getBarStartTick = (api: AlphaTabApi | null, bar: number): number | null => {
+  const masterBar = api?.score?.masterBars?.[bar - 1];
+  if (!masterBar || !api?.tickCache) return null;
+  try {
+    return api.tickCache.getMasterBarStart(masterBar);
+  } catch (e) {
+    console.warn("Failed to resolve bar start tick:", e);
+    return null;
+  }
+};
+
+// Move the player cursor to the start of a bar
+export const seekToBar = (api: AlphaTabApi | null, bar: number): boolean => {
+  const tick = getBarStartTick(api, bar);
+  if (tick === null) return false;
+  api.tickPosition = tick;
+  return true;
+};
+
+// Find the 1-based bar number that is playing at the given tick
+export const findBarAtTick = (api: AlphaTabApi | null, tick: number): number | null => {
+  const lookups = api?.tickCache?.masterBars;
+  if (!lookups?.length) return null;
+  for (const lookup of lookups) {
+    if (tick >= lookup.start && tick < lookup.end) {
+      return lookup.masterBar.index + 1;
+    }
+  }
+  const last = lookups[lookups.length - 1];
+  return tick >= last.end ? last.masterBar.index + 1 : null;
+};
+
+export const ticksToBarRange = (api: AlphaTabApi | null, ticks: TickRange): BarRange | null => {
+  const startBar = findBarAtTick(api, ticks.startTick);
+  // endTick is exclusive, so look up the tick just before it
+  const endBar = findBarAtTick(api, Math.max(ticks.startTick, ticks.endTick - 1));
+  if (startBar === null || endBar === null) return null;
+  return clampBarRange({ startBar, endBar }, getBarCount(api));
+};
+
+export const formatBarRange = (range: BarRange) => {
+  return range.startBar === range.endBar ? `Bar ${range.startBar}` : `Bars ${range.startBar}–${range.endBar}`;
+};
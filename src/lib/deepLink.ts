@@ -0,0 +1,65 @@
+// Deep links into the tab player, e.g. /guitar/:id?bar=33&track=2&speed=0.75&loop=33-40.
+// Bars and tracks are 1-based, as shown to users.
+
+import { BarRange } from "@/lib/barRange";
+
+export interface PlayerDeepLink {
+  bar?: number;
+  track?: number;
+  speed?: number;
+  loop?: BarRange;
+}
+
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 2;
+
+const parsePositiveInt = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export const parseDeepLink = (params: URLSearchParams): PlayerDeepLink | null => {
+  const link: PlayerDeepLink = {};
+
+  const bar = parsePositiveInt(params.get("bar"));
+  if (bar) link.bar = bar;
+
+  const track = parsePositiveInt(params.get("track"));
+  if (track) link.track = track;
+
+  const speed = parseFloat(params.get("speed") ?? "");
+  if (Number.isFinite(speed) && speed > 0) {
+    link.speed = Math.max(MIN_SPEED, Math.min(MAX_SPEED, speed));
+  }
+
+  // "33-40", or a single bar "33"
+  const loopMatch = params.get("loop")?.match(/^(\d+)(?:-(\d+))?$/);
+  if (loopMatch) {
+    const startBar = parseInt(loopMatch[1], 10);
+    const endBar = loopMatch[2] ? parseInt(loopMatch[2], 10) : startBar;
+    if (startBar > 0 && endBar > 0) {
+      link.loop = startBar <= endBar ? { startBar, endBar } : { startBar: endBar, endBar: startBar };
+    }
+  }
+
+  return Object.keys(link).length > 0 ? link : null;
+};
+
+export const buildDeepLink = (baseUrl: string, link: PlayerDeepLink): string => {
+  const params = new URLSearchParams();
+  if (link.bar && link.bar > 1) params.set("bar", String(link.bar));
+  if (link.track && link.track > 1) params.set("track", String(link.track));
+  if (link.speed && link.speed !== 1) params.set("speed", String(Math.round(link.speed * 100) / 100));
+  if (link.loop) {
+    params.set(
+      "loop",
+      link.loop.startBar === link.loop.endBar
+        ? String(link.loop.startBar)
+        : `${link.loop.startBar}-${link.loop.endBar}`
+    );
+  }
+
+  const query = params.toString();
+  return query ? `${baseUrl}?${query}` : baseUrl;
+};
@@ -0,0 +1,92 @@
+// Turns AlphaTab beats into fretboard positions for the fretboard panel.
+import { alphaTab, Beat, Staff, Track } from "@/lib/alphaTab";
+import { pitchClassName } from "@/lib/pitch";
+
+export type FretboardLabels = "names" | "intervals" | "frets";
+
+export const FRETBOARD_LABELS: { value: FretboardLabels; label: string }[] = [
+  { value: "names", label: "Note names" },
+  { value: "intervals", label: "Intervals" },
+  { value: "frets", label: "Fret numbers" },
+];
+
+export interface FretboardNote {
+  // 0 is the highest-pitched string, the same order as staff.tuning
+  stringIndex: number;
+  // Counted from the nut, so a capo at 2 turns tab fret 0 into 2
+  fret: number;
+  value: number; // MIDI note as played, ignoring any display transposition
+  isTied: boolean;
+  isDead: boolean;
+}
+
+export interface FretboardKey {
+  tonic: number; // pitch class 0..11
+  preferFlats: boolean;
+}
+
+const INTERVAL_NAMES = ["1", "b2", "2", "b3", "3", "4", "b5", "5", "b6", "6", "b7", "7"];
+const MIN_FRETS = 15;
+const MAX_FRETS = 24;
+
+// Fret positions marked with inlays
+export const FRET_MARKERS = [3, 5, 7, 9, 15, 17, 19, 21];
+export const DOUBLE_FRET_MARKERS = [12, 24];
+
+export const getStringTunings = (staff: Staff | null): number[] => (staff?.tuning ? [...staff.tuning] : []);
+
+export const getBeatNotes = (beat: Beat | null): FretboardNote[] => {
+  const staff = beat?.voice?.bar?.staff;
+  const tuning = getStringTunings(staff);
+  if (!beat || beat.isRest || tuning.length === 0) return [];
+  const capo = staff.capo ?? 0;
+
+  return (beat.notes ?? [])
+    .filter((note) => note.string >= 1 && note.string <= tuning.length && note.fret >= 0)
+    .map((note) => {
+      // AlphaTab numbers strings from the lowest (1) up
+      const stringIndex = tuning.length - note.string;
+      const fret = capo + note.fret;
+      return {
+        stringIndex,
+        fret,
+        value: tuning[stringIndex] + fret,
+        isTied: !!note.isTieDestination,
+        isDead: !!note.isDead,
+      };
+    });
+};
+
+// Enough frets for the highest note in the track, within a normal guitar neck
+export const getFretCount = (track: Track | null): number => {
+  let highest = 0;
+  for (const staff of track?.staves ?? []) {
+    const capo = staff.capo ?? 0;
+    for (const bar of staff.bars ?? []) {
+      for (const voice of bar.voices ?? []) {
+        for (const beat of voice.beats ?? []) {
+          for (const note of beat.notes ?? []) {
+            if (note.fret >= 0) highest = Math.max(highest, capo + note.fret);
+          }
+        }
+      }
+    }
+  }
+  return Math.min(MAX_FRETS, Math.max(MIN_FRETS, highest));
+};
+
+// The key of the bar, from its key signature: sharps and flats walk the circle of fifths
+export const getBeatKey = (beat: Beat | null): FretboardKey => {
+  const bar = beat?.voice?.bar;
+  const signature: number = bar?.keySignature ?? 0;
+  const major = (((signature * 7) % 12) + 12) % 12;
+  const isMinor = bar?.keySignatureType === alphaTab.model.KeySignatureType.Minor;
+  return { tonic: isMinor ? (major + 9) % 12 : major, preferFlats: signature < 0 };
+};
+
+export const getNoteLabel = (note: FretboardNote, labels: FretboardLabels, key: FretboardKey): string => {
+  if (note.isDead) return "x";
+  if (labels === "frets") return String(note.fret);
+  if (labels === "intervals") return INTERVAL_NAMES[(((note.value - key.tonic) % 12) + 12) % 12];
+  return pitchClassName(note.value, key.preferFlats);
+};
@@ -0,0 +1,112 @@
+// Metadata extracted from uploaded Guitar Pro files by the parse-guitarpro edge
+// function and stored on guitar_embeds.
+
+export interface GuitarProTrackMetadata {
+  name: string;
+  program: number;
+  tuning: string[]; // highest string first, e.g. ["E4", "B3", ...]
+  tuning_name: string | null;
+  capo: number;
+  is_percussion: boolean;
+}
+
+// Playing analysis of the stringed tracks, computed by the same edge function
+export interface TabAnalysis {
+  techniques: string[];
+  lowest_fret: number | null;
+  highest_fret: number | null;
+  positions: number[]; // lowest fretted fret of the main hand positions
+  max_notes_per_second: number | null; // fastest passage at the marked tempo
+  difficulty: number | null; // 1 (easy) to 10
+}
+
+export interface GuitarProMetadata extends TabAnalysis {
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  tabber: string | null;
+  tempo: number | null;
+  time_signature: string | null;
+  bar_count: number;
+  capo: number | null;
+  track_names: string[];
+  tracks: GuitarProTrackMetadata[];
+}
+
+// Short tuning label for a track, e.g. "Dropped D" or "D A D G B E".
+// AlphaTab's preset names look like "Guitar Dropped D Tuning".
+export const formatTuning = (track: GuitarProTrackMetadata): string | null => {
+  if (track.is_percussion || track.tuning.length === 0) return null;
+  if (track.tuning_name) {
+    return track.tuning_name.replace(/^(Guitar|Bass)\s+/i, "").replace(/\s+Tuning$/i, "");
+  }
+  return [...track.tuning]
+    .reverse()
+    .map((note) => note.replace(/-?\d+$/, ""))
+    .join(" ");
+};
+
+export const TAB_TECHNIQUES: { value: string; label: string }[] = [
+  { value: "bend", label: "Bends" },
+  { value: "slide", label: "Slides" },
+  { value: "legato", label: "Hammer-ons & pull-offs" },
+  { value: "tapping", label: "Tapping" },
+  { value: "harmonic", label: "Harmonics" },
+  { value: "palm_mute", label: "Palm mute" },
+  { value: "vibrato", label: "Vibrato" },
+];
+
+export const getTechniqueLabel = (technique: string) =>
+  TAB_TECHNIQUES.find((t) => t.value === technique)?.label ?? technique;
+
+export const DIFFICULTY_LEVELS: { value: string; label: string; min: number; max: number }[] = [
+  { value: "beginner", label: "Beginner", min: 1, max: 3 },
+  { value: "intermediate", label: "Intermediate", min: 4, max: 6 },
+  { value: "advanced", label: "Advanced", min: 7, max: 10 },
+];
+
+export const getDifficultyLevel = (difficulty: number | null | undefined) =>
+  difficulty ? DIFFICULTY_LEVELS.find((level) => difficulty >= level.min && difficulty <= level.max) ?? null : null;
+
+// Distinct tuning labels of a tab's pitched tracks
+export const getTuningLabels = (tracks: unknown): string[] => {
+  const list = Array.isArray(tracks) ? (tracks as GuitarProTrackMetadata[]) : [];
+  return Array.from(new Set(list.map(formatTuning).filter(Boolean))) as string[];
+};
+
+// Compact facts for listings, e.g. ["120 BPM", "4/4", "64 bars", "Dropped D", "Capo 2"]
+export const getMetadataSummary = (metadata: {
+  tempo?: number | null;
+  time_signature?: string | null;
+  bar_count?: number | null;
+  capo?: number | null;
+  tracks?: unknown;
+}): string[] => {
+  const summary: string[] = [];
+  if (metadata.tempo) summary.push(`${metadata.tempo} BPM`);
+  if (metadata.time_signature) summary.push(metadata.time_signature);
+  if (metadata.bar_count) summary.push(`${metadata.bar_count} bars`);
+
+  const tunings = getTuningLabels(metadata.tracks);
+  if (tunings.length === 1) summary.push(tunings[0]);
+
+  if (metadata.capo) summary.push(`Capo ${metadata.capo}`);
+  return summary;
+};
+
+// Playing facts for listings, e.g. ["Intermediate (5/10)", "Frets 0–12", "8 notes/s"]
+export const getAnalysisSummary = (analysis: {
+  difficulty?: number | null;
+  lowest_fret?: number | null;
+  highest_fret?: number | null;
+  max_notes_per_second?: number | null;
+}): string[] => {
+  const summary: string[] = [];
+  const level = getDifficultyLevel(analysis.difficulty);
+  if (level) summary.push(`${level.label} (${analysis.difficulty}/10)`);
+  if (analysis.lowest_fret != null && analysis.highest_fret != null) {
+    summary.push(`Frets ${analysis.lowest_fret}–${analysis.highest_fret}`);
+  }
+  if (analysis.max_notes_per_second) summary.push(`${analysis.max_notes_per_second} notes/s`);
+  return summary;
+};
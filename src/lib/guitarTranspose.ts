@@ -0,0 +1,301 @@
+// Guitar-aware transposition: notes are moved by a number of semitones and then
+// re-fingered on the target tuning and capo, so the tab shows frets that can be
+// played instead of the old fret numbers at a new pitch. The score is changed in
+// place; the returned snapshot puts it back.
+import { alphaTab, Beat, Note, Score, Staff, Track } from "@/lib/alphaTab";
+
+export interface GuitarTransposeOptions {
+  semitones: number;
+  // Target tuning, highest string first like staff.tuning. Only used for staves with
+  // the same number of strings; null keeps every staff's own tuning.
+  tuning: number[] | null;
+  capo: number; // virtual capo; frets are written relative to it
+  trackIndexes: number[];
+  maxFret?: number;
+}
+
+export interface GuitarTransposeReport {
+  notes: number;
+  moved: number; // notes that ended up on another string
+  octaveShifted: number; // out of range on the new tuning, moved by whole octaves
+  unplaced: number; // no free string even an octave away; these notes are left out
+}
+
+export interface TuningPreset {
+  name: string;
+  tunings: number[];
+}
+
+interface StaffSnapshot {
+  staff: Staff;
+  stringTuning: alphaTab.model.Tuning;
+  capo: number;
+}
+
+interface NotePlacement {
+  note: Note;
+  string: number;
+  fret: number;
+}
+
+interface BeatSnapshot {
+  beat: Beat;
+  notes: NotePlacement[]; // in their original order
+}
+
+export interface GuitarTransposeSnapshot {
+  staves: StaffSnapshot[];
+  beats: BeatSnapshot[];
+}
+
+export const MAX_VIRTUAL_CAPO = 12;
+const DEFAULT_MAX_FRET = 22;
+// Widest comfortable stretch before the fingering cost climbs steeply
+const COMFORTABLE_SPAN = 4;
+
+// "Guitar Dropped D Tuning" -> "Dropped D", as in guitarProMetadata's formatTuning
+export const formatTuningName = (name: string) =>
+  name.replace(/^(Guitar|Bass)\s+/i, "").replace(/\s+Tuning$/i, "").trim();
+
+export const getTuningPresets = (stringCount: number): TuningPreset[] =>
+  alphaTab.model.Tuning.getPresetsFor(stringCount).map((preset) => ({
+    name: formatTuningName(preset.name),
+    tunings: [...preset.tunings],
+  }));
+
+export const isGuitarStaff = (staff: Staff) => !!staff && !staff.isPercussion && staff.tuning?.length > 0;
+
+// Stringed tracks that can be re-fingered
+export const getGuitarTracks = (score: Score | null): Track[] =>
+  (score?.tracks ?? []).filter((track) => track.staves.some(isGuitarStaff));
+
+const forEachBeat = (staff: Staff, callback: (beat: Beat) => void) => {
+  for (const bar of staff.bars) {
+    for (const voice of bar.voices) {
+      for (const beat of voice.beats) callback(beat);
+    }
+  }
+};
+
+// Puts the notes back through Beat.removeNote/addNote, which keep the string lookup
+// and note indexes right. Beat.finish() would redo bend and grace handling, so only
+// the lowest and highest notes it works out for the renderer are recomputed.
+const setBeatNotes = (beat: Beat, notes: NotePlacement[]) => {
+  for (const note of [...beat.notes]) beat.removeNote(note);
+  for (const { note, string, fret } of notes) {
+    note.string = string;
+    note.fret = fret;
+    beat.addNote(note);
+  }
+  beat.minNote = null;
+  beat.maxNote = null;
+  beat.minStringNote = null;
+  beat.maxStringNote = null;
+  for (const note of beat.notes) {
+    if (!note.isVisible) continue;
+    if (!beat.minNote || note.realValue < beat.minNote.realValue) beat.minNote = note;
+    if (!beat.maxNote || note.realValue > beat.maxNote.realValue) beat.maxNote = note;
+    if (!beat.minStringNote || note.string < beat.minStringNote.string) beat.minStringNote = note;
+    if (!beat.maxStringNote || note.string > beat.maxStringNote.string) beat.maxStringNote = note;
+  }
+};
+
+interface Placement {
+  stringIndex: number; // 0 is the highest string
+  fret: number;
+}
+
+interface PendingNote {
+  note: Note;
+  pitch: number;
+  candidates: Placement[];
+  // String of the note this one is slurred or slid from, which it should stay on
+  legatoString: number | null;
+}
+
+const getPlacements = (pitch: number, tuning: number[], capo: number, maxFret: number): Placement[] =>
+  tuning
+    .map((open, stringIndex) => ({ stringIndex, fret: pitch - open - capo }))
+    .filter((placement) => placement.fret >= 0 && placement.fret + capo <= maxFret);
+
+// Lower is easier: a small stretch, little movement from the last hand position,
+// low frets, and legato notes kept on the string they started on
+const scoreFingering = (pending: PendingNote[], placements: Placement[], handPosition: number | null) => {
+  const fretted = placements.map((p) => p.fret).filter((fret) => fret > 0);
+  let cost = 0;
+  if (fretted.length > 0) {
+    const low = Math.min(...fretted);
+    const span = Math.max(...fretted) - low;
+    cost += span + Math.max(0, span - COMFORTABLE_SPAN) * 4;
+    if (handPosition !== null) cost += Math.abs(low - handPosition) * 0.5;
+    cost += fretted.reduce((sum, fret) => sum + fret, 0) * 0.05;
+  }
+  pending.forEach((entry, i) => {
+    if (entry.legatoString !== null && entry.legatoString !== placements[i].stringIndex) cost += 3;
+  });
+  return cost;
+};
+
+// Tries every way of putting the notes on different strings and keeps the easiest
+const findFingering = (pending: PendingNote[], usedStrings: Set<number>, handPosition: number | null) => {
+  let best: Placement[] | null = null;
+  let bestCost = Infinity;
+  const current: Placement[] = [];
+
+  const search = (i: number) => {
+    if (i === pending.length) {
+      const cost = scoreFingering(pending, current, handPosition);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [...current];
+      }
+      return;
+    }
+    for (const placement of pending[i].candidates) {
+      if (usedStrings.has(placement.stringIndex)) continue;
+      usedStrings.add(placement.stringIndex);
+      current.push(placement);
+      search(i + 1);
+      current.pop();
+      usedStrings.delete(placement.stringIndex);
+    }
+  };
+
+  search(0);
+  return best as Placement[] | null;
+};
+
+const toStringNumber = (stringIndex: number, stringCount: number) => stringCount - stringIndex;
+const toStringIndex = (stringNumber: number, stringCount: number) => stringCount - stringNumber;
+
+const transposeStaff = (
+  staff: Staff,
+  options: GuitarTransposeOptions,
+  report: GuitarTransposeReport,
+  snapshot: GuitarTransposeSnapshot
+) => {
+  const oldTuning: number[] = [...staff.tuning];
+  const oldCapo: number = staff.capo ?? 0;
+  const stringCount = oldTuning.length;
+  const tuning = options.tuning?.length === stringCount ? options.tuning : oldTuning;
+  const capo = options.capo;
+  const maxFret = options.maxFret ?? DEFAULT_MAX_FRET;
+  const lowest = Math.min(...tuning) + capo;
+  const highest = Math.max(...tuning) + maxFret;
+
+  snapshot.staves.push({ staff, stringTuning: staff.stringTuning, capo: oldCapo });
+
+  // New placement of every note, so tied and legato notes can follow their origin
+  const placed = new Map<Note, Placement>();
+  let handPosition: number | null = null;
+
+  forEachBeat(staff, (beat) => {
+    if (beat.notes.length === 0) return;
+    const usedStrings = new Set<number>();
+    const pending: PendingNote[] = [];
+    snapshot.beats.push({
+      beat,
+      notes: beat.notes.map((note) => ({ note, string: note.string, fret: note.fret })),
+    });
+
+    for (const note of beat.notes) {
+      report.notes++;
+      const oldIndex = toStringIndex(note.string, stringCount);
+      const origin = note.isTieDestination ? note.tieOrigin : null;
+
+      if (origin && placed.has(origin)) {
+        const placement = placed.get(origin)!;
+        placed.set(note, placement);
+        usedStrings.add(placement.stringIndex);
+        continue;
+      }
+      // Dead notes have no pitch to keep
+      if (note.isDead) {
+        const placement = { stringIndex: oldIndex, fret: Math.max(0, note.fret + oldCapo - capo) };
+        placed.set(note, placement);
+        usedStrings.add(placement.stringIndex);
+        continue;
+      }
+
+      let pitch = note.fret + oldCapo + oldTuning[oldIndex] + options.semitones;
+      if (pitch < lowest || pitch > highest) report.octaveShifted++;
+      while (pitch < lowest) pitch += 12;
+      while (pitch > highest) pitch -= 12;
+
+      const legatoOrigin = note.hammerPullOrigin ?? note.slideOrigin ?? null;
+      const legatoString = legatoOrigin && placed.has(legatoOrigin) ? placed.get(legatoOrigin)!.stringIndex : null;
+      pending.push({ note, pitch, candidates: getPlacements(pitch, tuning, capo, maxFret), legatoString });
+    }
+
+    const fingering = pending.length > 0 ? findFingering(pending, usedStrings, handPosition) : [];
+    if (fingering) {
+      pending.forEach((entry, i) => placed.set(entry.note, fingering[i]));
+    } else {
+      // The chord doesn't fit on the new tuning: place the notes with the fewest options
+      // first, try an octave up or down for the rest, and leave out what is still left
+      const byOptions = [...pending].sort((a, b) => a.candidates.length - b.candidates.length);
+      for (const entry of byOptions) {
+        let free = entry.candidates.find((c) => !usedStrings.has(c.stringIndex));
+        if (!free) {
+          free = [entry.pitch + 12, entry.pitch - 12]
+            .flatMap((pitch) => getPlacements(pitch, tuning, capo, maxFret))
+            .find((c) => !usedStrings.has(c.stringIndex));
+          if (free) report.octaveShifted++;
+        }
+        if (!free) {
+          report.unplaced++;
+          continue;
+        }
+        usedStrings.add(free.stringIndex);
+        placed.set(entry.note, free);
+      }
+    }
+
+    const fretted = beat.notes
+      .map((note) => placed.get(note)?.fret ?? 0)
+      .filter((fret) => fret > 0);
+    if (fretted.length > 0) handPosition = Math.min(...fretted);
+  });
+
+  // A new Tuning rather than an edited one, so the original keeps its name and
+  // isStandard for the restore. finish() names it if it is a known tuning.
+  const stringTuning = new alphaTab.model.Tuning("", [...tuning], false);
+  stringTuning.finish();
+  staff.stringTuning = stringTuning;
+  staff.capo = capo;
+
+  forEachBeat(staff, (beat) => {
+    if (beat.notes.length === 0) return;
+    const kept: NotePlacement[] = [];
+    for (const note of beat.notes) {
+      const placement = placed.get(note);
+      if (!placement) continue;
+      const string = toStringNumber(placement.stringIndex, stringCount);
+      if (string !== note.string) report.moved++;
+      kept.push({ note, string, fret: placement.fret });
+    }
+    setBeatNotes(beat, kept);
+  });
+};
+
+export const transposeForGuitar = (score: Score, options: GuitarTransposeOptions) => {
+  const report: GuitarTransposeReport = { notes: 0, moved: 0, octaveShifted: 0, unplaced: 0 };
+  const snapshot: GuitarTransposeSnapshot = { staves: [], beats: [] };
+
+  for (const trackIndex of options.trackIndexes) {
+    const track = score?.tracks?.[trackIndex];
+    if (!track) continue;
+    for (const staff of track.staves) {
+      if (isGuitarStaff(staff)) transposeStaff(staff, options, report, snapshot);
+    }
+  }
+  return { report, snapshot };
+};
+
+export const restoreGuitarTranspose = (snapshot: GuitarTransposeSnapshot) => {
+  for (const { staff, stringTuning, capo } of snapshot.staves) {
+    staff.stringTuning = stringTuning;
+    staff.capo = capo;
+  }
+  for (const { beat, notes } of snapshot.beats) setBeatNotes(beat, notes);
+};
@@ -0,0 +1,205 @@
+// Click patterns for the metronome and count-in. AlphaTab's own metronome clicks
+// once per beat with a fixed sound, so our clicks are written into the generated
+// MIDI instead. They go on the synth's metronome channel, which api.metronomeVolume
+// turns up and down and which solo never mutes.
+import { alphaTab } from "@/lib/alphaTab";
+
+export type MetronomeSubdivision = "none" | "eighths" | "triplets" | "sixteenths";
+export type MetronomeAccent = "first" | "custom" | "none";
+export type MetronomeSound = "click" | "woodblock" | "sidestick" | "cowbell" | "claves" | "hihat";
+
+export interface MetronomeSettings {
+  subdivision: MetronomeSubdivision;
+  accent: MetronomeAccent;
+  accentBeats: number[]; // 1-based beats accented by the custom pattern
+  sound: MetronomeSound;
+  volume: number; // 0..1
+  countInBars: number;
+  // Gap click trainer: clicks for gapPlayBars, then silence for gapMuteBars, repeating
+  gapClick: boolean;
+  gapPlayBars: number;
+  gapMuteBars: number;
+}
+
+export interface MetronomeClick {
+  offset: number; // midi ticks from the start of the bar
+  key: number; // GM drum key
+  velocity: number;
+}
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  subdivision: "none",
+  accent: "first",
+  accentBeats: [1],
+  sound: "click",
+  volume: 1,
+  countInBars: 1,
+  gapClick: false,
+  gapPlayBars: 2,
+  gapMuteBars: 2,
+};
+
+export const METRONOME_SUBDIVISIONS: { value: MetronomeSubdivision; label: string; perBeat: number }[] = [
+  { value: "none", label: "Beats only", perBeat: 1 },
+  { value: "eighths", label: "Eighths", perBeat: 2 },
+  { value: "triplets", label: "Triplets", perBeat: 3 },
+  { value: "sixteenths", label: "Sixteenths", perBeat: 4 },
+];
+
+export const METRONOME_ACCENTS: { value: MetronomeAccent; label: string }[] = [
+  { value: "first", label: "Accent beat 1" },
+  { value: "custom", label: "Custom accents" },
+  { value: "none", label: "No accents" },
+];
+
+// GM percussion keys for the accented and normal clicks
+export const METRONOME_SOUNDS: { value: MetronomeSound; label: string; accentKey: number; key: number }[] = [
+  { value: "click", label: "Metronome", accentKey: 34, key: 33 },
+  { value: "woodblock", label: "Wood block", accentKey: 76, key: 77 },
+  { value: "sidestick", label: "Side stick", accentKey: 37, key: 37 },
+  { value: "cowbell", label: "Cowbell", accentKey: 56, key: 56 },
+  { value: "claves", label: "Claves", accentKey: 75, key: 75 },
+  { value: "hihat", label: "Hi-hat", accentKey: 46, key: 42 },
+];
+
+export const MAX_COUNT_IN_BARS = 4;
+export const MAX_GAP_BARS = 16;
+
+// SynthConstants.MetronomeChannel, which AlphaTab doesn't export
+const METRONOME_CHANNEL = 16;
+const QUARTER_TICKS = 960;
+const CLICK_TICKS = 120;
+const ACCENT_VELOCITY = 127;
+const BEAT_VELOCITY = 96;
+const SUBDIVISION_VELOCITY = 56;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const sanitizeMetronomeSettings = (value: unknown): MetronomeSettings | null => {
+  if (!value || typeof value !== "object") return null;
+  const input = value as Record<string, unknown>;
+  const settings = { ...DEFAULT_METRONOME_SETTINGS };
+  const number = (key: string) => (typeof input[key] === "number" && Number.isFinite(input[key]) ? (input[key] as number) : null);
+
+  if (METRONOME_SUBDIVISIONS.some((s) => s.value === input.subdivision)) {
+    settings.subdivision = input.subdivision as MetronomeSubdivision;
+  }
+  if (METRONOME_ACCENTS.some((a) => a.value === input.accent)) settings.accent = input.accent as MetronomeAccent;
+  if (Array.isArray(input.accentBeats)) {
+    settings.accentBeats = input.accentBeats.filter((beat): beat is number => Number.isInteger(beat) && beat >= 1 && beat <= 32);
+  }
+  if (METRONOME_SOUNDS.some((s) => s.value === input.sound)) settings.sound = input.sound as MetronomeSound;
+  const volume = number("volume");
+  if (volume !== null) settings.volume = clamp(volume, 0, 1);
+  const countInBars = number("countInBars");
+  if (countInBars !== null) settings.countInBars = clamp(Math.round(countInBars), 1, MAX_COUNT_IN_BARS);
+  if (typeof input.gapClick === "boolean") settings.gapClick = input.gapClick;
+  const gapPlayBars = number("gapPlayBars");
+  if (gapPlayBars !== null) settings.gapPlayBars = clamp(Math.round(gapPlayBars), 1, MAX_GAP_BARS);
+  const gapMuteBars = number("gapMuteBars");
+  if (gapMuteBars !== null) settings.gapMuteBars = clamp(Math.round(gapMuteBars), 1, MAX_GAP_BARS);
+  return settings;
+};
+
+// Compound meters (6/8, 9/8, 12/8) are counted in dotted quarters
+export const getBeatGrid = (numerator: number, denominator: number) => {
+  const unit = (QUARTER_TICKS * 4) / denominator;
+  if (denominator === 8 && numerator > 3 && numerator % 3 === 0) {
+    return { beats: numerator / 3, beatTicks: unit * 3 };
+  }
+  return { beats: numerator, beatTicks: unit };
+};
+
+const isAccented = (beat: number, settings: MetronomeSettings) => {
+  if (settings.accent === "first") return beat === 0;
+  if (settings.accent === "custom") return settings.accentBeats.includes(beat + 1);
+  return false;
+};
+
+export const getBarClicks = (
+  numerator: number,
+  denominator: number,
+  settings: MetronomeSettings,
+  withSubdivisions = true
+): MetronomeClick[] => {
+  const sound = METRONOME_SOUNDS.find((s) => s.value === settings.sound) ?? METRONOME_SOUNDS[0];
+  const perBeat = withSubdivisions
+    ? (METRONOME_SUBDIVISIONS.find((s) => s.value === settings.subdivision)?.perBeat ?? 1)
+    : 1;
+  const { beats, beatTicks } = getBeatGrid(numerator, denominator);
+
+  const clicks: MetronomeClick[] = [];
+  for (let beat = 0; beat < beats; beat++) {
+    const accented = isAccented(beat, settings);
+    for (let sub = 0; sub < perBeat; sub++) {
+      clicks.push({
+        offset: Math.round(beat * beatTicks + (sub * beatTicks) / perBeat),
+        key: accented && sub === 0 ? sound.accentKey : sound.key,
+        velocity: sub > 0 ? SUBDIVISION_VELOCITY : accented ? ACCENT_VELOCITY : BEAT_VELOCITY,
+      });
+    }
+  }
+  return clicks;
+};
+
+// Bar index in playback order, counted from the start of the song
+export const isGapBar = (barIndex: number, settings: MetronomeSettings) =>
+  settings.gapClick && barIndex % (settings.gapPlayBars + settings.gapMuteBars) >= settings.gapPlayBars;
+
+const addClick = (file: alphaTab.midi.MidiFile, tick: number, click: MetronomeClick) => {
+  file.addEvent(new alphaTab.midi.NoteOnEvent(0, tick, METRONOME_CHANNEL, click.key, click.velocity));
+  file.addEvent(new alphaTab.midi.NoteOffEvent(0, tick + CLICK_TICKS, METRONOME_CHANNEL, click.key, 0));
+};
+
+// Replaces AlphaTab's beat clicks in a freshly generated song with ours, following its time signatures
+export const addMetronomeClicks = (
+  file: alphaTab.midi.MidiFile,
+  tickCache: alphaTab.midi.MidiTickLookup | null,
+  settings: MetronomeSettings
+) => {
+  const MidiEventType = alphaTab.midi.MidiEventType;
+  for (const track of file.tracks ?? []) {
+    // The event list can only be changed in place
+    const events = track.events;
+    let kept = 0;
+    for (const event of events) {
+      if (event.type !== MidiEventType.AlphaTabMetronome) events[kept++] = event;
+    }
+    events.length = kept;
+  }
+
+  (tickCache?.masterBars ?? []).forEach((lookup, index) => {
+    if (isGapBar(index, settings)) return;
+    const { timeSignatureNumerator, timeSignatureDenominator } = lookup.masterBar;
+    const length = lookup.end - lookup.start;
+    for (const click of getBarClicks(timeSignatureNumerator, timeSignatureDenominator, settings)) {
+      if (click.offset < length) addClick(file, lookup.start + click.offset, click);
+    }
+  });
+};
+
+export interface CountIn {
+  file: alphaTab.midi.MidiFile;
+  durationMs: number; // at normal speed
+}
+
+// A short song of count-in bars in the time signature and tempo of the bar playback starts from
+export const createCountIn = (tickCache: alphaTab.midi.MidiTickLookup | null, tick: number, settings: MetronomeSettings): CountIn => {
+  const lookups = tickCache?.masterBars ?? [];
+  const lookup = lookups.find((l) => tick >= l.start && tick < l.end) ?? lookups[0];
+  const numerator = lookup?.masterBar.timeSignatureNumerator ?? 4;
+  const denominator = lookup?.masterBar.timeSignatureDenominator ?? 4;
+  const tempoChanges = lookup?.tempoChanges ?? [];
+  const tempo = [...tempoChanges].reverse().find((change) => change.tick <= tick)?.tempo ?? tempoChanges[0]?.tempo ?? 120;
+
+  const file = new alphaTab.midi.MidiFile();
+  file.addEvent(new alphaTab.midi.TempoChangeEvent(0, 60000000 / tempo));
+  const barTicks = (QUARTER_TICKS * 4 * numerator) / denominator;
+  for (let bar = 0; bar < settings.countInBars; bar++) {
+    for (const click of getBarClicks(numerator, denominator, settings, false)) {
+      addClick(file, bar * barTicks + click.offset, click);
+    }
+  }
+  const totalTicks = barTicks * settings.countInBars;
+  return { file, durationMs: (totalTicks / QUARTER_TICKS) * (60000 / tempo) };
+};
@@ -0,0 +1,230 @@
+// Serializes an AlphaTab score model into MusicXML 4.0 (partwise). Each track
+// becomes one part built from its first staff. Pitches are written as sounding
+// pitch; stringed parts use an octave-down treble clef like most guitar editions.
+
+import { alphaTab, Bar, Beat, Note, Score, Staff, Voice } from "@/lib/alphaTab";
+import { pitchParts } from "@/lib/pitch";
+import type { ScoreExportOptions } from "@/lib/scoreExport";
+
+const { GraceType, KeySignatureType } = alphaTab.model;
+
+const DIVISIONS = 960; // AlphaTab's ticks per quarter note
+
+const NOTE_TYPES: Record<number, string> = {
+  [-4]: "long",
+  [-2]: "breve",
+  1: "whole",
+  2: "half",
+  4: "quarter",
+  8: "eighth",
+  16: "16th",
+  32: "32nd",
+  64: "64th",
+  128: "128th",
+  256: "256th",
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatTempo = (tempo: number) => String(Math.round(tempo * 100) / 100);
+
+const writeAttributes = (bar: Bar, previousBar: Bar | undefined, staff: Staff, program: number): string[] => {
+  const masterBar = bar.masterBar;
+  const previousMaster = previousBar?.masterBar;
+  const parts: string[] = [];
+
+  if (!previousBar) parts.push(`<divisions>${DIVISIONS}</divisions>`);
+  if (
+    !previousBar ||
+    previousBar.keySignature !== bar.keySignature ||
+    previousBar.keySignatureType !== bar.keySignatureType
+  ) {
+    const mode = bar.keySignatureType === KeySignatureType.Minor ? "minor" : "major";
+    parts.push(`<key><fifths>${bar.keySignature}</fifths><mode>${mode}</mode></key>`);
+  }
+  if (
+    !previousMaster ||
+    previousMaster.timeSignatureNumerator !== masterBar.timeSignatureNumerator ||
+    previousMaster.timeSignatureDenominator !== masterBar.timeSignatureDenominator
+  ) {
+    parts.push(
+      `<time><beats>${masterBar.timeSignatureNumerator}</beats><beat-type>${masterBar.timeSignatureDenominator}</beat-type></time>`
+    );
+  }
+  if (!previousBar) {
+    if (staff.isPercussion) {
+      parts.push(`<clef><sign>percussion</sign></clef>`);
+    } else if (staff.isStringed) {
+      // Bass instruments read in bass clef, everything else in treble 8vb
+      const lowest = Math.min(...staff.tuning);
+      parts.push(
+        lowest < 40 || (program >= 32 && program <= 39)
+          ? `<clef><sign>F</sign><line>4</line><clef-octave-change>-1</clef-octave-change></clef>`
+          : `<clef><sign>G</sign><line>2</line><clef-octave-change>-1</clef-octave-change></clef>`
+      );
+    } else {
+      parts.push(`<clef><sign>G</sign><line>2</line></clef>`);
+    }
+  }
+
+  return parts.length ? [`<attributes>${parts.join("")}</attributes>`] : [];
+};
+
+const writeDirections = (bar: Bar, speed: number, scoreTempo: number): string[] => {
+  const masterBar = bar.masterBar;
+  const directions: string[] = [];
+
+  if (masterBar.section) {
+    const label = [masterBar.section.marker, masterBar.section.text].filter(Boolean).join(" ");
+    directions.push(
+      `<direction placement="above"><direction-type><rehearsal>${escapeXml(label)}</rehearsal></direction-type></direction>`
+    );
+  }
+
+  const tempos = (masterBar.tempoAutomations ?? []).map((a) => a.value);
+  if (masterBar.index === 0 && tempos.length === 0) tempos.push(scoreTempo);
+  for (const tempo of tempos) {
+    const scaled = formatTempo(tempo * speed);
+    directions.push(
+      `<direction placement="above"><direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${scaled}</per-minute></metronome></direction-type><sound tempo="${scaled}"/></direction>`
+    );
+  }
+  return directions;
+};
+
+const writeNote = (beat: Beat, note: Note | null, isChord: boolean, voiceNumber: number, options: ScoreExportOptions) => {
+  const parts: string[] = [];
+  const isGrace = beat.graceType !== GraceType.None;
+
+  if (isGrace) parts.push(`<grace/>`);
+  if (isChord) parts.push(`<chord/>`);
+
+  if (!note) {
+    parts.push(`<rest/>`);
+  } else if (note.isPercussion) {
+    parts.push(`<unpitched><display-step>C</display-step><display-octave>5</display-octave></unpitched>`);
+  } else {
+    const pitch = pitchParts(note.calculateRealValue(false, true) + options.transpose);
+    parts.push(
+      `<pitch><step>${pitch.step}</step>${pitch.alter ? `<alter>${pitch.alter}</alter>` : ""}<octave>${pitch.octave}</octave></pitch>`
+    );
+  }
+
+  if (!isGrace) parts.push(`<duration>${Math.round(beat.displayDuration)}</duration>`);
+  if (note?.isTieDestination) parts.push(`<tie type="stop"/>`);
+  if (note?.isTieOrigin) parts.push(`<tie type="start"/>`);
+  parts.push(`<voice>${voiceNumber}</voice>`);
+  if (NOTE_TYPES[beat.duration]) parts.push(`<type>${NOTE_TYPES[beat.duration]}</type>`);
+  for (let i = 0; i < beat.dots; i++) parts.push(`<dot/>`);
+  if (beat.hasTuplet && beat.tupletNumerator > 1) {
+    parts.push(
+      `<time-modification><actual-notes>${beat.tupletNumerator}</actual-notes><normal-notes>${beat.tupletDenominator}</normal-notes></time-modification>`
+    );
+  }
+  if (note?.isDead) parts.push(`<notehead>x</notehead>`);
+
+  const notations: string[] = [];
+  if (note?.isTieDestination) notations.push(`<tied type="stop"/>`);
+  if (note?.isTieOrigin) notations.push(`<tied type="start"/>`);
+  // Fret/string hints only make sense while the pitch still matches the fingering
+  if (note?.isStringed && options.transpose === 0) {
+    // MusicXML numbers strings from the highest, AlphaTab from the lowest
+    const stringNumber = note.beat.voice.bar.staff.tuning.length - note.string + 1;
+    const technical = [`<string>${stringNumber}</string>`, `<fret>${note.fret}</fret>`];
+    if (note.isHammerPullOrigin) technical.push(`<hammer-on type="start">H</hammer-on>`);
+    if (note.isPalmMute) technical.push(`<other-technical>P.M.</other-technical>`);
+    notations.push(`<technical>${technical.join("")}</technical>`);
+  }
+  if (notations.length) parts.push(`<notations>${notations.join("")}</notations>`);
+
+  return `<note>${parts.join("")}</note>`;
+};
+
+const writeVoice = (voice: Voice, voiceNumber: number, options: ScoreExportOptions): { xml: string[]; duration: number } => {
+  const xml: string[] = [];
+  let duration = 0;
+  for (const beat of voice?.beats ?? []) {
+    if (beat.isRest || !beat.notes?.length) {
+      xml.push(writeNote(beat, null, false, voiceNumber, options));
+    } else {
+      beat.notes.forEach((note, i) => {
+        xml.push(writeNote(beat, note, i > 0, voiceNumber, options));
+      });
+    }
+    if (beat.graceType === GraceType.None) duration += Math.round(beat.displayDuration);
+  }
+  return { xml, duration };
+};
+
+const writeMeasure = (staff: Staff, barIndex: number, program: number, scoreTempo: number, options: ScoreExportOptions) => {
+  const bar = staff.bars[barIndex];
+  const masterBar = bar.masterBar;
+  const content: string[] = [];
+
+  if (masterBar.isRepeatStart) {
+    content.push(`<barline location="left"><bar-style>heavy-light</bar-style><repeat direction="forward"/></barline>`);
+  }
+  content.push(...writeAttributes(bar, staff.bars[barIndex - 1], staff, program));
+  content.push(...writeDirections(bar, options.speed, scoreTempo));
+
+  let previousDuration = 0;
+  bar.voices.forEach((voice, voiceIndex) => {
+    if (voiceIndex > 0 && (voice.isEmpty || voice.beats.every((beat) => beat.isRest))) return;
+    if (voiceIndex > 0 && previousDuration > 0) {
+      content.push(`<backup><duration>${previousDuration}</duration></backup>`);
+    }
+    const { xml, duration } = writeVoice(voice, voiceIndex + 1, options);
+    content.push(...xml);
+    previousDuration = duration;
+  });
+
+  if (masterBar.repeatCount > 0) {
+    content.push(
+      `<barline location="right"><bar-style>light-heavy</bar-style><repeat direction="backward" times="${masterBar.repeatCount}"/></barline>`
+    );
+  }
+
+  return `<measure number="${barIndex + 1}">${content.join("")}</measure>`;
+};
+
+export const writeMusicXml = (score: Score, options: ScoreExportOptions): string => {
+  const partList: string[] = [];
+  const parts: string[] = [];
+
+  score.tracks.forEach((track, trackIndex) => {
+    const staff = track.staves[0];
+    if (!staff) return;
+
+    const id = `P${trackIndex + 1}`;
+    const name = escapeXml(track.name || `Track ${trackIndex + 1}`);
+    const program = track.playbackInfo?.program ?? 0;
+    const channel = staff.isPercussion ? 10 : (track.playbackInfo?.primaryChannel ?? trackIndex) + 1;
+
+    partList.push(
+      `<score-part id="${id}"><part-name>${name}</part-name>` +
+        `<score-instrument id="${id}-I1"><instrument-name>${name}</instrument-name></score-instrument>` +
+        `<midi-instrument id="${id}-I1"><midi-channel>${channel}</midi-channel><midi-program>${program + 1}</midi-program></midi-instrument>` +
+        `</score-part>`
+    );
+
+    const measures = staff.bars.map((_, barIndex) =>
+      writeMeasure(staff, barIndex, program, score.tempo, options)
+    );
+    parts.push(`<part id="${id}">\n${measures.join("\n")}\n</part>`);
+  });
+
+  const header = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?>`,
+    `<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">`,
+    `<score-partwise version="4.0">`,
+  ];
+  if (score.title) header.push(`<work><work-title>${escapeXml(score.title)}</work-title></work>`);
+  const creators = [
+    score.artist ? `<creator type="composer">${escapeXml(score.artist)}</creator>` : "",
+    score.tab ? `<creator type="arranger">${escapeXml(score.tab)}</creator>` : "",
+  ].join("");
+  header.push(`<identification>${creators}<encoding><software>alphaTab</software></encoding></identification>`);
+
+  return [...header, `<part-list>${partList.join("")}</part-list>`, ...parts, `</score-partwise>`].join("\n") + "\n";
+};
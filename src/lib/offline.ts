@@ -0,0 +1,163 @@
+// Content saved with "Make available offline". The files live in Cache Storage next
+// to a small index describing what was saved; the service worker (public/sw.js)
+// answers requests for them from the cache before trying the network.
+import { ALPHATAB_FONT_DIRECTORY } from "@/lib/alphaTab";
+
+// Must match OFFLINE_CACHE in public/sw.js
+export const OFFLINE_CACHE = "offline-content-v1";
+const INDEX_URL = "/__offline__/index.json";
+
+export type OfflineKind = "tab" | "recording";
+
+export interface OfflineItem {
+  kind: OfflineKind;
+  id: string;
+  title: string;
+  // The database row, so lists and detail pages still render without a connection
+  row: Record<string, unknown>;
+  urls: string[];
+  savedAt: string;
+}
+
+export interface OfflineIndex {
+  items: OfflineItem[];
+  // Bytes per cached URL. Shared files (soundfont, alphaTab runtime) are stored once.
+  sizes: Record<string, number>;
+}
+
+export const EMPTY_OFFLINE_INDEX: OfflineIndex = { items: [], sizes: {} };
+
+// What every saved tab needs besides its own files: the synthesizer and renderer
+// workers and the notation font. The soundfont is added when saving.
+const ALPHATAB_OFFLINE_ASSETS = [
+  "/alphatab/alphaTab.core.mjs",
+  "/alphatab/alphaTab.worker.mjs",
+  "/alphatab/alphaTab.worklet.mjs",
+  `${ALPHATAB_FONT_DIRECTORY}Bravura.woff2`,
+  `${ALPHATAB_FONT_DIRECTORY}Bravura.woff`,
+];
+
+export const isOfflineSupported = () => typeof window !== "undefined" && "caches" in window;
+
+export const getOfflineUrls = (
+  kind: OfflineKind,
+  row: Record<string, unknown>,
+  soundFontUrl: string
+): string[] => {
+  const own = (kind === "tab" ? [row.file_url, row.backing_track_url] : [row.file_url, row.cover_image_url]).filter(
+    (url): url is string => typeof url === "string" && url.length > 0
+  );
+  return kind === "tab" ? [...own, soundFontUrl, ...ALPHATAB_OFFLINE_ASSETS] : own;
+};
+
+export const readOfflineIndex = async (): Promise<OfflineIndex> => {
+  if (!isOfflineSupported()) return EMPTY_OFFLINE_INDEX;
+  const cache = await caches.open(OFFLINE_CACHE);
+  const response = await cache.match(INDEX_URL);
+  if (!response) return EMPTY_OFFLINE_INDEX;
+  try {
+    return { ...EMPTY_OFFLINE_INDEX, ...(await response.json()) };
+  } catch {
+    return EMPTY_OFFLINE_INDEX;
+  }
+};
+
+const writeOfflineIndex = async (cache: Cache, index: OfflineIndex) => {
+  await cache.put(INDEX_URL, new Response(JSON.stringify(index), { headers: { "Content-Type": "application/json" } }));
+};
+
+// Downloads anything not cached yet, then records the item. Files are fetched
+// before the index is touched so a failed download leaves nothing half-saved.
+export const saveOffline = async (
+  item: Omit<OfflineItem, "savedAt">,
+  onProgress?: (done: number, total: number) => void
+): Promise<OfflineIndex> => {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const index = await readOfflineIndex();
+  const sizes = { ...index.sizes };
+
+  let done = 0;
+  for (const url of item.urls) {
+    if (sizes[url] === undefined || !(await cache.match(url))) {
+      const response = await fetch(url, { mode: "cors" });
+      if (!response.ok) throw new Error(`HTTP ${response.status} when downloading ${url}`);
+      const blob = await response.blob();
+      await cache.put(url, new Response(blob, { headers: { "Content-Type": blob.type || "application/octet-stream" } }));
+      sizes[url] = blob.size;
+    }
+    onProgress?.(++done, item.urls.length);
+  }
+
+  const next: OfflineIndex = {
+    items: [
+      ...index.items.filter((i) => !(i.kind === item.kind && i.id === item.id)),
+      { ...item, savedAt: new Date().toISOString() },
+    ],
+    sizes,
+  };
+  await writeOfflineIndex(cache, next);
+  return next;
+};
+
+// Removes an item and any file no other saved item still uses
+export const removeOffline = async (kind: OfflineKind, id: string): Promise<OfflineIndex> => {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const index = await readOfflineIndex();
+  const items = index.items.filter((i) => !(i.kind === kind && i.id === id));
+  const inUse = new Set(items.flatMap((i) => i.urls));
+  const sizes = { ...index.sizes };
+
+  for (const url of Object.keys(sizes)) {
+    if (inUse.has(url)) continue;
+    await cache.delete(url);
+    delete sizes[url];
+  }
+
+  const next = { items, sizes };
+  await writeOfflineIndex(cache, next);
+  return next;
+};
+
+export const clearOffline = async () => {
+  await caches.delete(OFFLINE_CACHE);
+};
+
+export const getOfflineItem = (index: OfflineIndex, kind: OfflineKind, id: string) =>
+  index.items.find((i) => i.kind === kind && i.id === id) ?? null;
+
+// Saved rows of one kind in list order, or null when there are none
+export const getOfflineRows = (index: OfflineIndex, kind: OfflineKind) => {
+  const rows = index.items.filter((i) => i.kind === kind).map((i) => i.row);
+  if (rows.length === 0) return null;
+  return rows.sort((a, b) => Number(a.display_order ?? 0) - Number(b.display_order ?? 0));
+};
+
+// Bytes this item adds; shared files count towards every item that uses them
+export const getOfflineItemSize = (index: OfflineIndex, item: OfflineItem) =>
+  item.urls.reduce((total, url) => total + (index.sizes[url] ?? 0), 0);
+
+export const getOfflineUsage = (index: OfflineIndex) =>
+  Object.values(index.sizes).reduce((total, size) => total + size, 0);
+
+// Runs a Supabase query and falls back to saved rows when it fails (usually
+// because there is no connection)
+export const withOfflineFallback = async <T>(
+  load: () => Promise<T>,
+  fallback: (index: OfflineIndex) => T | null
+): Promise<T> => {
+  try {
+    return await load();
+  } catch (error) {
+    const saved = fallback(await readOfflineIndex());
+    if (saved === null) throw error;
+    console.warn("Showing content saved for offline use:", error);
+    return saved;
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,117 @@
+// Note timelines for the piano roll panel, built from the score in playback order.
+import { getInstrumentByProgram } from "@/constants/instruments";
+import type { alphaTab, Track } from "@/lib/alphaTab";
+
+export interface PianoRollNote {
+  value: number; // MIDI note
+  start: number; // midi ticks, including repeats
+  end: number;
+}
+
+export interface PianoRange {
+  low: number;
+  high: number;
+}
+
+// GM categories that read better on a keyboard than as tab
+const KEYBOARD_CATEGORIES = new Set([
+  "Piano",
+  "Chromatic Percussion",
+  "Organ",
+  "Strings",
+  "Ensemble",
+  "Brass",
+  "Reed",
+  "Pipe",
+  "Synth Lead",
+  "Synth Pad",
+  "Synth Effects",
+]);
+
+// How far ahead the roll shows, in quarter notes
+export const PIANO_ROLL_LOOKAHEAD = 8;
+export const TICKS_PER_QUARTER = 960;
+
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10]);
+
+export const isBlackKey = (value: number) => BLACK_KEYS.has(((value % 12) + 12) % 12);
+
+export const isPercussionTrack = (track: Track): boolean =>
+  track?.playbackInfo?.primaryChannel === 9 || !!track?.staves?.some((staff) => staff.isPercussion);
+
+export const isKeyboardTrack = (track: Track): boolean => {
+  if (!track || isPercussionTrack(track)) return false;
+  const instrument = getInstrumentByProgram(track.playbackInfo?.program ?? -1);
+  return !!instrument && KEYBOARD_CATEGORIES.has(instrument.category);
+};
+
+// Tracks that can be shown at all, keyboard instruments first
+export const getPianoRollTracks = (tracks: Track[]): Track[] => {
+  const pitched = tracks.filter((track) => !isPercussionTrack(track));
+  return [...pitched.filter(isKeyboardTrack), ...pitched.filter((track) => !isKeyboardTrack(track))];
+};
+
+// Every note of the track in playback order. Tied notes are merged into the note they continue.
+export const buildPianoRollNotes = (
+  tickCache: alphaTab.midi.MidiTickLookup | null,
+  track: Track | null
+): PianoRollNote[] => {
+  const lookups = tickCache?.masterBars;
+  if (!lookups?.length || !track) return [];
+
+  const notes: PianoRollNote[] = [];
+  for (const lookup of lookups) {
+    const barIndex = lookup.masterBar.index;
+    for (const staff of track.staves ?? []) {
+      const bar = staff.bars?.[barIndex];
+      for (const voice of bar?.voices ?? []) {
+        for (const beat of voice.beats ?? []) {
+          const start = lookup.start + beat.playbackStart;
+          const end = start + beat.playbackDuration;
+          for (const note of beat.notes ?? []) {
+            const value = note.realValue;
+            if (note.isTieDestination) {
+              const origin = findLast(notes, (n) => n.value === value && n.end <= start);
+              if (origin) {
+                origin.end = Math.max(origin.end, end);
+                continue;
+              }
+            }
+            notes.push({ value, start, end });
+          }
+        }
+      }
+    }
+  }
+  return notes.sort((a, b) => a.start - b.start);
+};
+
+const findLast = <T>(items: T[], predicate: (item: T) => boolean): T | undefined => {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return items[i];
+  }
+  return undefined;
+};
+
+// Whole octaves around the notes, at least two
+export const getPianoRange = (notes: PianoRollNote[]): PianoRange => {
+  if (notes.length === 0) return { low: 48, high: 83 };
+  let low = Infinity;
+  let high = -Infinity;
+  for (const note of notes) {
+    low = Math.min(low, note.value);
+    high = Math.max(high, note.value);
+  }
+  low = Math.floor(low / 12) * 12;
+  high = Math.max(Math.ceil((high + 1) / 12) * 12 - 1, low + 23);
+  return { low: Math.max(0, low), high: Math.min(127, high) };
+};
+
+export const getSoundingNotes = (notes: PianoRollNote[], tick: number): Set<number> => {
+  const sounding = new Set<number>();
+  for (const note of notes) {
+    if (note.start > tick) break;
+    if (note.end > tick) sounding.add(note.value);
+  }
+  return sounding;
+};
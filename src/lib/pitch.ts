@@ -0,0 +1,30 @@
+// MIDI note numbers <-> note names. Middle C (60) is C4.
+
+const SHARP_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const FLAT_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+export interface PitchParts {
+  step: string; // C..B
+  alter: number; // -1, 0 or 1
+  octave: number;
+}
+
+export const pitchClassName = (value: number, preferFlats = false): string => {
+  const pitchClass = ((value % 12) + 12) % 12;
+  return (preferFlats ? FLAT_NAMES : SHARP_NAMES)[pitchClass];
+};
+
+export const pitchOctave = (value: number): number => Math.floor(value / 12) - 1;
+
+export const pitchName = (value: number, preferFlats = false): string => {
+  return `${pitchClassName(value, preferFlats)}${pitchOctave(value)}`;
+};
+
+export const pitchParts = (value: number, preferFlats = false): PitchParts => {
+  const name = pitchClassName(value, preferFlats);
+  return {
+    step: name[0],
+    alter: name.length > 1 ? (name[1] === "#" ? 1 : -1) : 0,
+    octave: pitchOctave(value),
+  };
+};
@@ -0,0 +1,153 @@
+// Tab player preferences that survive page loads: stored per user in the
+// player_preferences table, or in localStorage for anonymous visitors.
+import type { FretboardLabels } from "@/lib/fretboard";
+import { DEFAULT_METRONOME_SETTINGS, MetronomeSettings, sanitizeMetronomeSettings } from "@/lib/metronome";
+
+export type PlayerLayout = "page" | "horizontal";
+
+export interface PlayerPreferences {
+  zoom: number; // percent
+  layout: PlayerLayout;
+  speed: number; // playback speed multiplier, 1 = original tempo
+  metronome: boolean;
+  countIn: boolean;
+  metronomeSettings: MetronomeSettings; // click pattern, count-in length and gap trainer
+  autoScroll: boolean;
+  containerWidth: number; // percent, above 100 is viewport width
+  containerHeight: number; // pixels
+  scaleControls: boolean;
+  sectionNavigator: boolean; // section sidebar next to the score is expanded
+  fretboardLeftHanded: boolean;
+  fretboardLabels: FretboardLabels;
+}
+
+// Global preferences plus optional overrides keyed by guitar embed id
+export interface StoredPlayerPreferences {
+  preferences: Partial<PlayerPreferences>;
+  tabOverrides: Record<string, Partial<PlayerPreferences>>;
+}
+
+export const DEFAULT_PLAYER_PREFERENCES: PlayerPreferences = {
+  zoom: 100,
+  layout: "page",
+  speed: 1,
+  metronome: false,
+  countIn: false,
+  metronomeSettings: DEFAULT_METRONOME_SETTINGS,
+  autoScroll: false,
+  containerWidth: 80,
+  containerHeight: 1000,
+  scaleControls: true,
+  sectionNavigator: true,
+  fretboardLeftHanded: false,
+  fretboardLabels: "names",
+};
+
+export const EMPTY_STORED_PREFERENCES: StoredPlayerPreferences = { preferences: {}, tabOverrides: {} };
+
+const LOCAL_STORAGE_KEY = "player-preferences";
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Drop unknown keys and out-of-range values from stored JSON
+export const sanitizePreferences = (value: unknown): Partial<PlayerPreferences> => {
+  if (!value || typeof value !== "object") return {};
+  const input = value as Record<string, unknown>;
+  const result: Partial<PlayerPreferences> = {};
+
+  const number = (key: string) => (typeof input[key] === "number" && Number.isFinite(input[key]) ? (input[key] as number) : null);
+  const bool = (key: string) => (typeof input[key] === "boolean" ? (input[key] as boolean) : null);
+
+  const zoom = number("zoom");
+  if (zoom !== null) result.zoom = clamp(Math.round(zoom), 50, 200);
+  if (input.layout === "page" || input.layout === "horizontal") result.layout = input.layout;
+  const speed = number("speed");
+  if (speed !== null) result.speed = clamp(speed, 0.25, 2);
+  const containerWidth = number("containerWidth");
+  if (containerWidth !== null) result.containerWidth = clamp(containerWidth, 50, 500);
+  const containerHeight = number("containerHeight");
+  if (containerHeight !== null) result.containerHeight = clamp(Math.round(containerHeight), 300, 2000);
+
+  if (input.fretboardLabels === "names" || input.fretboardLabels === "intervals" || input.fretboardLabels === "frets") {
+    result.fretboardLabels = input.fretboardLabels;
+  }
+
+  const metronomeSettings = sanitizeMetronomeSettings(input.metronomeSettings);
+  if (metronomeSettings) result.metronomeSettings = metronomeSettings;
+
+  for (const key of ["metronome", "countIn", "autoScroll", "scaleControls", "sectionNavigator", "fretboardLeftHanded"] as const) {
+    const flag = bool(key);
+    if (flag !== null) result[key] = flag;
+  }
+  return result;
+};
+
+export const sanitizeStoredPreferences = (value: unknown): StoredPlayerPreferences => {
+  if (!value || typeof value !== "object") return EMPTY_STORED_PREFERENCES;
+  const input = value as { preferences?: unknown; tabOverrides?: unknown };
+  const tabOverrides: Record<string, Partial<PlayerPreferences>> = {};
+  if (input.tabOverrides && typeof input.tabOverrides === "object") {
+    for (const [embedId, overrides] of Object.entries(input.tabOverrides)) {
+      tabOverrides[embedId] = sanitizePreferences(overrides);
+    }
+  }
+  return { preferences: sanitizePreferences(input.preferences), tabOverrides };
+};
+
+export const hasTabOverride = (stored: StoredPlayerPreferences, embedId?: string): boolean =>
+  !!embedId && !!stored.tabOverrides[embedId];
+
+// Defaults, then the user's preferences, then the tab's overrides
+export const resolvePlayerPreferences = (stored: StoredPlayerPreferences, embedId?: string): PlayerPreferences => ({
+  ...DEFAULT_PLAYER_PREFERENCES,
+  ...stored.preferences,
+  ...(embedId ? stored.tabOverrides[embedId] : undefined),
+});
+
+// Changes go to the tab's overrides when it has them, otherwise to the global preferences
+export const applyPreferenceChanges = (
+  stored: StoredPlayerPreferences,
+  changes: Partial<PlayerPreferences>,
+  embedId?: string
+): StoredPlayerPreferences => {
+  if (embedId && stored.tabOverrides[embedId]) {
+    return {
+      ...stored,
+      tabOverrides: { ...stored.tabOverrides, [embedId]: { ...stored.tabOverrides[embedId], ...changes } },
+    };
+  }
+  return { ...stored, preferences: { ...stored.preferences, ...changes } };
+};
+
+// Start a tab override from what the player currently uses, or drop it
+export const setTabOverride = (
+  stored: StoredPlayerPreferences,
+  embedId: string,
+  enabled: boolean
+): StoredPlayerPreferences => {
+  const tabOverrides = { ...stored.tabOverrides };
+  if (enabled) {
+    tabOverrides[embedId] = resolvePlayerPreferences(stored, embedId);
+  } else {
+    delete tabOverrides[embedId];
+  }
+  return { ...stored, tabOverrides };
+};
+
+export const readLocalPlayerPreferences = (): StoredPlayerPreferences => {
+  try {
+    const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return raw ? sanitizeStoredPreferences(JSON.parse(raw)) : EMPTY_STORED_PREFERENCES;
+  } catch (e) {
+    console.warn("Failed to read player preferences:", e);
+    return EMPTY_STORED_PREFERENCES;
+  }
+};
+
+export const writeLocalPlayerPreferences = (stored: StoredPlayerPreferences) => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn("Failed to save player preferences:", e);
+  }
+};
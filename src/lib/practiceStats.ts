@@ -0,0 +1,140 @@
+// Aggregations of the user's practice sessions for the "My practice" page.
+import { toLocalDateKey } from "@/lib/practiceTracker";
+
+export interface PracticeSession {
+  id: string;
+  guitar_embed_id: string;
+  started_at: string;
+  practiced_on: string; // YYYY-MM-DD, the player's local date
+  duration_seconds: number;
+  bars_played: number[];
+  max_stable_bpm: number | null;
+  guitar_embeds: { title: string; artist: string | null; bar_count: number | null } | null;
+}
+
+export interface TabPracticeSummary {
+  embedId: string;
+  title: string;
+  artist: string | null;
+  totalSeconds: number;
+  sessions: number;
+  coverage: number | null; // share of the tab's bars played at least once, 0-1
+  bestBpm: number | null;
+  lastPracticedOn: string;
+}
+
+export interface TabProgressPoint {
+  date: string;
+  minutes: number;
+  bpm: number | null; // best stable loop tempo that day
+}
+
+// Minutes a day needs for each darker heatmap shade
+const HEAT_LEVEL_MINUTES = [0, 5, 15, 30];
+
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+};
+
+export const getDailySeconds = (sessions: PracticeSession[]): Map<string, number> => {
+  const daily = new Map<string, number>();
+  for (const session of sessions) {
+    daily.set(session.practiced_on, (daily.get(session.practiced_on) ?? 0) + session.duration_seconds);
+  }
+  return daily;
+};
+
+// Consecutive practice days. The current streak still counts when only yesterday
+// was practiced, since today isn't over yet.
+export const getStreaks = (days: Iterable<string>, today: string) => {
+  const practiced = new Set(days);
+  let longest = 0;
+  for (const day of practiced) {
+    if (practiced.has(addDays(day, -1))) continue;
+    let length = 1;
+    while (practiced.has(addDays(day, length))) length++;
+    longest = Math.max(longest, length);
+  }
+
+  let current = 0;
+  let day = practiced.has(today) ? today : addDays(today, -1);
+  while (practiced.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+  return { current, longest };
+};
+
+// 0 (nothing) to 4 (half an hour or more)
+export const getHeatLevel = (seconds: number) => {
+  if (seconds <= 0) return 0;
+  const minutes = seconds / 60;
+  return HEAT_LEVEL_MINUTES.filter((threshold) => minutes >= threshold).length;
+};
+
+export const summarizeByTab = (sessions: PracticeSession[]): TabPracticeSummary[] => {
+  const byTab = new Map<string, { summary: TabPracticeSummary; bars: Set<number>; barCount: number | null }>();
+  for (const session of sessions) {
+    let entry = byTab.get(session.guitar_embed_id);
+    if (!entry) {
+      entry = {
+        summary: {
+          embedId: session.guitar_embed_id,
+          title: session.guitar_embeds?.title ?? "Deleted tab",
+          artist: session.guitar_embeds?.artist ?? null,
+          totalSeconds: 0,
+          sessions: 0,
+          coverage: null,
+          bestBpm: null,
+          lastPracticedOn: session.practiced_on,
+        },
+        bars: new Set(),
+        barCount: session.guitar_embeds?.bar_count ?? null,
+      };
+      byTab.set(session.guitar_embed_id, entry);
+    }
+    const { summary, bars } = entry;
+    summary.totalSeconds += session.duration_seconds;
+    summary.sessions++;
+    session.bars_played.forEach((bar) => bars.add(bar));
+    if (session.max_stable_bpm) summary.bestBpm = Math.max(summary.bestBpm ?? 0, session.max_stable_bpm);
+    if (session.practiced_on > summary.lastPracticedOn) summary.lastPracticedOn = session.practiced_on;
+  }
+
+  return [...byTab.values()]
+    .map(({ summary, bars, barCount }) => ({
+      ...summary,
+      coverage: barCount ? Math.min(1, bars.size / barCount) : null,
+    }))
+    .sort((a, b) => b.lastPracticedOn.localeCompare(a.lastPracticedOn));
+};
+
+// One point per day the tab was practiced, oldest first
+export const getTabProgress = (sessions: PracticeSession[], embedId: string): TabProgressPoint[] => {
+  const byDay = new Map<string, { seconds: number; bpm: number | null }>();
+  for (const session of sessions) {
+    if (session.guitar_embed_id !== embedId) continue;
+    const day = byDay.get(session.practiced_on) ?? { seconds: 0, bpm: null };
+    day.seconds += session.duration_seconds;
+    if (session.max_stable_bpm) day.bpm = Math.max(day.bpm ?? 0, session.max_stable_bpm);
+    byDay.set(session.practiced_on, day);
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { seconds, bpm }]) => ({ date, minutes: Math.round((seconds / 60) * 10) / 10, bpm }));
+};
+
+// "1 h 05 min", "12 min" or "40 s"
+export const formatPracticeTime = (seconds: number) => {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, "0")} min`;
+};
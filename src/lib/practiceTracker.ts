@@ -0,0 +1,89 @@
+// Practice sessions recorded while a signed-in user plays a tab: time spent
+// playing, bars heard and the highest tempo held steadily in a loop.
+import type { Score } from "@/lib/alphaTab";
+
+export interface LoopProgress {
+  rangeKey: string | null; // loop the current streak of passes belongs to
+  bpm: number;
+  passes: number;
+  maxStableBpm: number | null;
+}
+
+export interface PracticeSessionDraft {
+  id: string;
+  embedId: string;
+  startedAt: Date;
+  playedMs: number;
+  lastActiveAt: number; // ms timestamp of the last play or pause
+  bars: Set<number>;
+  loop: LoopProgress;
+}
+
+// Uninterrupted passes through a loop at one tempo before that tempo counts as held
+export const STABLE_LOOP_PASSES = 3;
+// A pause longer than this ends the session; playing again starts a new one
+export const SESSION_IDLE_MS = 10 * 60 * 1000;
+// Shorter sessions (a quick listen) are not saved
+export const MIN_PRACTICE_MS = 30 * 1000;
+// How often a running session is saved, so closing the tab loses little
+export const PRACTICE_SAVE_INTERVAL_MS = 60 * 1000;
+
+const EMPTY_LOOP_PROGRESS: LoopProgress = { rangeKey: null, bpm: 0, passes: 0, maxStableBpm: null };
+
+export const createPracticeSession = (embedId: string, now = Date.now()): PracticeSessionDraft => ({
+  id: crypto.randomUUID(),
+  embedId,
+  startedAt: new Date(now),
+  playedMs: 0,
+  lastActiveAt: now,
+  bars: new Set(),
+  loop: EMPTY_LOOP_PROGRESS,
+});
+
+// Register a finished pass through a loop. A seek during the pass, another loop or
+// another tempo starts the streak over.
+export const registerLoopPass = (
+  progress: LoopProgress,
+  rangeKey: string,
+  bpm: number,
+  clean: boolean
+): LoopProgress => {
+  if (!clean) return { ...progress, rangeKey: null, passes: 0 };
+  const passes = progress.rangeKey === rangeKey && progress.bpm === bpm ? progress.passes + 1 : 1;
+  const stable = passes >= STABLE_LOOP_PASSES;
+  return {
+    rangeKey,
+    bpm,
+    passes,
+    maxStableBpm: stable ? Math.max(progress.maxStableBpm ?? 0, bpm) : progress.maxStableBpm,
+  };
+};
+
+// Written tempo at the start of a bar (0-based master bar index)
+export const getTempoAtBar = (score: Score | null, barIndex: number): number => {
+  let tempo = score?.tempo || 120;
+  const masterBars = score?.masterBars ?? [];
+  for (let i = 0; i <= barIndex && i < masterBars.length; i++) {
+    for (const automation of masterBars[i].tempoAutomations ?? []) {
+      if (i < barIndex || automation.ratioPosition === 0) tempo = automation.value;
+    }
+  }
+  return tempo;
+};
+
+// "2025-11-16" in the user's time zone
+export const toLocalDateKey = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const toPracticeSessionRow = (session: PracticeSessionDraft, userId: string) => ({
+  id: session.id,
+  user_id: userId,
+  guitar_embed_id: session.embedId,
+  started_at: session.startedAt.toISOString(),
+  practiced_on: toLocalDateKey(session.startedAt),
+  duration_seconds: Math.round(session.playedMs / 1000),
+  bars_played: [...session.bars].sort((a, b) => a - b),
+  max_stable_bpm: session.loop.maxStableBpm,
+});
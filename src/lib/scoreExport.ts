@@ -0,0 +1,108 @@
+// Export of the loaded score to other formats (Standard MIDI File, MusicXML,
+// alphaTex). The files are generated in the browser from AlphaTab's model.
+
+import { alphaTab, AlphaTabApi, Score } from "@/lib/alphaTab";
+import { writeAlphaTex } from "@/lib/alphaTexWriter";
+import { writeMusicXml } from "@/lib/musicXmlWriter";
+
+export type ScoreExportFormat = "midi" | "musicxml" | "alphatex";
+
+export interface ScoreExportOptions {
+  transpose: number; // semitones, replaces any transpose applied in the player
+  speed: number; // tempo multiplier, 1 = original tempo
+}
+
+export interface ScoreOverrides {
+  program?: number | null; // synth instrument for all non-percussion tracks
+  trackPrograms?: Record<number, number>; // per track index, takes precedence over program
+  speed?: number;
+  transpose?: number;
+}
+
+export const SCORE_EXPORT_FORMATS: { value: ScoreExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "midi", label: "MIDI", extension: "mid", mimeType: "audio/midi" },
+  { value: "musicxml", label: "MusicXML", extension: "musicxml", mimeType: "application/vnd.recordare.musicxml+xml" },
+  { value: "alphatex", label: "alphaTex", extension: "atex", mimeType: "text/plain" },
+];
+
+// AlphaTab generates MIDI straight from the score model, so instrument, tempo and
+// transposition are written into the score for the duration of `run` and then restored.
+export const withScoreOverrides = <T>(score: Score, overrides: ScoreOverrides, run: () => T): T => {
+  const { program = null, trackPrograms = {}, speed = 1, transpose } = overrides;
+  const programs = score.tracks.map((track) => track.playbackInfo?.program);
+  const transpositions = score.tracks.map((track) => track.staves.map((staff) => staff.transpositionPitch));
+  const tempo = score.tempo;
+  const automations: { automation: alphaTab.model.Automation; value: number }[] = [];
+
+  try {
+    score.tracks.forEach((track, trackIndex) => {
+      const isPercussion = track.playbackInfo?.primaryChannel === 9 || track.staves.some((s) => s.isPercussion);
+      if (isPercussion) return;
+      const trackProgram = trackPrograms[trackIndex] ?? program;
+      if (trackProgram !== null && track.playbackInfo) {
+        track.playbackInfo.program = trackProgram;
+      }
+      if (transpose !== undefined) {
+        // Same sign convention as the player's transpose control
+        for (const staff of track.staves) staff.transpositionPitch = -transpose;
+      }
+    });
+    if (speed !== 1) {
+      score.tempo = tempo * speed;
+      for (const masterBar of score.masterBars) {
+        for (const automation of masterBar.tempoAutomations ?? []) {
+          automations.push({ automation, value: automation.value });
+          automation.value = automation.value * speed;
+        }
+      }
+    }
+    return run();
+  } finally {
+    score.tracks.forEach((track, trackIndex) => {
+      if (track.playbackInfo) track.playbackInfo.program = programs[trackIndex];
+      track.staves.forEach((staff, staffIndex) => {
+        staff.transpositionPitch = transpositions[trackIndex][staffIndex];
+      });
+    });
+    score.tempo = tempo;
+    for (const { automation, value } of automations) {
+      automation.value = value;
+    }
+  }
+};
+
+export const writeMidiFile = (api: Pick<AlphaTabApi, "score" | "settings">, options: ScoreExportOptions): Uint8Array => {
+  const midi = alphaTab.midi;
+  const file = new midi.MidiFile();
+  file.format = midi.MidiFileFormat.MultiTrack;
+  // SMF1 mode leaves out AlphaTab's internal meta events so DAWs can read the file
+  const handler = new midi.AlphaSynthMidiFileHandler(file, true);
+  const generator = new midi.MidiFileGenerator(api.score, api.settings, handler);
+  withScoreOverrides(api.score, { speed: options.speed, transpose: options.transpose }, () => generator.generate());
+  return file.toBinary();
+};
+
+export const exportScore = (api: Pick<AlphaTabApi, "score" | "settings">, format: ScoreExportFormat, options: ScoreExportOptions): Blob => {
+  if (!api?.score) {
+    throw new Error("No score loaded");
+  }
+
+  const { mimeType } = SCORE_EXPORT_FORMATS.find((f) => f.value === format)!;
+  switch (format) {
+    case "midi":
+      return new Blob([writeMidiFile(api, options)], { type: mimeType });
+    case "musicxml":
+      return new Blob([writeMusicXml(api.score, options)], { type: mimeType });
+    case "alphatex":
+      return new Blob([writeAlphaTex(api.score, options)], { type: mimeType });
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
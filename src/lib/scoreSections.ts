@@ -0,0 +1,120 @@
+// Sections, repeats and jump marks read from a score's master bars, for the
+// section navigator. Bar numbers are 1-based like everywhere else in the UI.
+import { alphaTab, type MasterBar, type Score } from "@/lib/alphaTab";
+import type { BarRange } from "@/lib/barRange";
+
+export type ScoreMarkKind = "section" | "repeat" | "ending" | "direction";
+
+export interface ScoreMark {
+  kind: ScoreMarkKind;
+  label: string;
+  range: BarRange;
+  marker?: string; // rehearsal letter of a section, e.g. "A"
+}
+
+const Direction = alphaTab.model.Direction;
+
+const DIRECTION_LABELS: Record<number, string> = {
+  [Direction.TargetFine]: "Fine",
+  [Direction.TargetSegno]: "Segno",
+  [Direction.TargetSegnoSegno]: "Segno segno",
+  [Direction.TargetCoda]: "Coda",
+  [Direction.TargetDoubleCoda]: "Double coda",
+  [Direction.JumpDaCapo]: "D.C.",
+  [Direction.JumpDaCapoAlCoda]: "D.C. al Coda",
+  [Direction.JumpDaCapoAlDoubleCoda]: "D.C. al Double Coda",
+  [Direction.JumpDaCapoAlFine]: "D.C. al Fine",
+  [Direction.JumpDalSegno]: "D.S.",
+  [Direction.JumpDalSegnoAlCoda]: "D.S. al Coda",
+  [Direction.JumpDalSegnoAlDoubleCoda]: "D.S. al Double Coda",
+  [Direction.JumpDalSegnoAlFine]: "D.S. al Fine",
+  [Direction.JumpDalSegnoSegno]: "D.S.S.",
+  [Direction.JumpDalSegnoSegnoAlCoda]: "D.S.S. al Coda",
+  [Direction.JumpDalSegnoSegnoAlDoubleCoda]: "D.S.S. al Double Coda",
+  [Direction.JumpDalSegnoSegnoAlFine]: "D.S.S. al Fine",
+  [Direction.JumpDaCoda]: "To Coda",
+  [Direction.JumpDaDoubleCoda]: "To Double Coda",
+};
+
+const KIND_ORDER: ScoreMarkKind[] = ["section", "repeat", "ending", "direction"];
+
+// Alternate endings are stored as a bit mask: bit 0 is the first ending
+const formatEndings = (mask: number) => {
+  const endings: number[] = [];
+  for (let bit = 0; bit < 32; bit++) {
+    if (mask & (1 << bit)) endings.push(bit + 1);
+  }
+  return endings.length === 1 ? `Ending ${endings[0]}` : `Endings ${endings.join(", ")}`;
+};
+
+// Each section runs until the next one starts
+const getSections = (masterBars: MasterBar[]): ScoreMark[] => {
+  const starts = masterBars.filter((masterBar) => masterBar.section);
+  return starts.map((masterBar, i) => {
+    const next = starts[i + 1];
+    const { marker, text } = masterBar.section;
+    return {
+      kind: "section" as const,
+      label: text?.trim() || (marker ? `Section ${marker}` : `Bar ${masterBar.index + 1}`),
+      marker: marker || undefined,
+      range: { startBar: masterBar.index + 1, endBar: next ? next.index : masterBars.length },
+    };
+  });
+};
+
+const getRepeats = (masterBars: MasterBar[]): ScoreMark[] => {
+  const marks: ScoreMark[] = [];
+  // A closing repeat without an opening one goes back to the start of the song
+  let openBar = 1;
+  let endingStart: MasterBar | null = null;
+
+  for (const masterBar of masterBars) {
+    const bar = masterBar.index + 1;
+    if (masterBar.isRepeatStart) openBar = bar;
+    if (masterBar.repeatCount > 0) {
+      marks.push({ kind: "repeat", label: `Repeat, play ${masterBar.repeatCount}×`, range: { startBar: openBar, endBar: bar } });
+      openBar = bar + 1;
+    }
+
+    // Consecutive bars with the same endings form one bracket
+    if (endingStart && masterBar.alternateEndings !== endingStart.alternateEndings) {
+      marks.push({
+        kind: "ending",
+        label: formatEndings(endingStart.alternateEndings),
+        range: { startBar: endingStart.index + 1, endBar: bar - 1 },
+      });
+      endingStart = null;
+    }
+    if (!endingStart && masterBar.alternateEndings) endingStart = masterBar;
+  }
+  if (endingStart) {
+    marks.push({
+      kind: "ending",
+      label: formatEndings(endingStart.alternateEndings),
+      range: { startBar: endingStart.index + 1, endBar: masterBars.length },
+    });
+  }
+  return marks;
+};
+
+const getDirections = (masterBars: MasterBar[]): ScoreMark[] =>
+  masterBars.flatMap((masterBar) =>
+    Array.from(masterBar.directions ?? [])
+      .filter((direction) => DIRECTION_LABELS[direction])
+      .map((direction) => ({
+        kind: "direction" as const,
+        label: DIRECTION_LABELS[direction],
+        range: { startBar: masterBar.index + 1, endBar: masterBar.index + 1 },
+      }))
+  );
+
+// Everything the navigator lists, in the order it appears in the score
+export const getScoreMarks = (score: Score | null): ScoreMark[] => {
+  const masterBars = score?.masterBars ?? [];
+  return [...getSections(masterBars), ...getRepeats(masterBars), ...getDirections(masterBars)].sort(
+    (a, b) => a.range.startBar - b.range.startBar || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+  );
+};
+
+export const isBarInRange = (bar: number | null, range: BarRange) =>
+  bar !== null && bar >= range.startBar && bar <= range.endBar;
@@ -0,0 +1,85 @@
+// Setlists: ordered tabs played at a gig, each with its own tempo, transpose
+// and instrument. The overrides are applied to the score in performance mode.
+
+import type { alphaTab, AlphaTabApi } from "@/lib/alphaTab";
+import { TrackInstrument, getTrackPrograms, rewriteProgramChanges } from "@/lib/trackInstruments";
+
+export interface SetlistInstrument {
+  name: string;
+  program: number;
+}
+
+export interface SetlistOverrides {
+  speed: number | null; // percent of the tab tempo; null plays it as written
+  transpose: number; // semitones
+  instrument: SetlistInstrument | null; // null keeps the tab's default instrument
+}
+
+export const DEFAULT_SETLIST_OVERRIDES: SetlistOverrides = { speed: null, transpose: 0, instrument: null };
+
+export const SETLIST_SPEED_RANGE = { min: 25, max: 200 };
+export const SETLIST_TRANSPOSE_RANGE = { min: -12, max: 12 };
+
+export const clampSetlistSpeed = (speed: number | null): number | null => {
+  if (speed === null || !Number.isFinite(speed)) return null;
+  return Math.max(SETLIST_SPEED_RANGE.min, Math.min(SETLIST_SPEED_RANGE.max, Math.round(speed)));
+};
+
+export const clampSetlistTranspose = (transpose: number): number => {
+  if (!Number.isFinite(transpose)) return 0;
+  return Math.max(SETLIST_TRANSPOSE_RANGE.min, Math.min(SETLIST_TRANSPOSE_RANGE.max, Math.round(transpose)));
+};
+
+// Short description for the setlist editor, e.g. "90% · +2 · Distortion Guitar"
+export const describeOverrides = (overrides: SetlistOverrides): string[] => {
+  const parts: string[] = [];
+  if (overrides.speed !== null) parts.push(`${overrides.speed}%`);
+  if (overrides.transpose !== 0) parts.push(`${overrides.transpose > 0 ? "+" : ""}${overrides.transpose}`);
+  if (overrides.instrument) parts.push(overrides.instrument.name);
+  return parts;
+};
+
+// Moves the item at `from` to `to` and returns the new order
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Same convention as the player's transpose buttons: transpositionPitch is
+// negated for playback, displayTranspositionPitch moves the written notes
+export const applyTranspose = (api: AlphaTabApi | null, semitones: number) => {
+  for (const track of api?.score?.tracks ?? []) {
+    for (const staff of track.staves) {
+      staff.transpositionPitch = -semitones;
+      staff.displayTranspositionPitch = semitones;
+    }
+  }
+};
+
+// The handler overrideProgram registered on each player, so it can be replaced
+const midiLoadHandlers = new WeakMap<AlphaTabApi, (file: alphaTab.midi.MidiFile) => void>();
+
+// Rewrites program changes whenever the MIDI is generated: tracks with their own
+// instrument get that one, every other track except drums (channel 9) gets `program`
+export const overrideProgram = (
+  api: AlphaTabApi,
+  program: number | null,
+  trackInstruments: TrackInstrument[] = []
+) => {
+  const previous = midiLoadHandlers.get(api);
+  if (previous) {
+    api.midiLoad.off(previous);
+    midiLoadHandlers.delete(api);
+  }
+  if (program === null && trackInstruments.length === 0) return;
+
+  const midiLoadHandler = (file: alphaTab.midi.MidiFile) => {
+    const scoreTracks = api.score?.tracks ?? [];
+    rewriteProgramChanges(file, scoreTracks, getTrackPrograms(scoreTracks, trackInstruments), program);
+  };
+  midiLoadHandlers.set(api, midiLoadHandler);
+  api.midiLoad.on(midiLoadHandler);
+};
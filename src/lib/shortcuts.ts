@@ -0,0 +1,164 @@
+// Keyboard shortcut commands, their default keys and user rebindings.
+// Key combos use KeyboardEvent.code so they don't depend on the keyboard layout,
+// e.g. "Space", "ArrowLeft", "Shift+Slash". A single character such as "?" is
+// matched against KeyboardEvent.key instead, for symbols that every layout has
+// somewhere else.
+
+export type ShortcutCommand =
+  | "togglePlayback"
+  | "seekBackward"
+  | "seekForward"
+  | "toggleMute"
+  | "toggleLoop"
+  | "tempoUp"
+  | "tempoDown"
+  | "transposeUp"
+  | "transposeDown"
+  | "nextPage"
+  | "previousPage"
+  | "showHelp";
+
+export interface ShortcutDefinition {
+  command: ShortcutCommand;
+  label: string;
+  group: "Playback" | "Tabs" | "General";
+  defaultKeys: string[];
+}
+
+export type ShortcutBindings = Record<ShortcutCommand, string[]>;
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { command: "togglePlayback", label: "Play / pause", group: "Playback", defaultKeys: ["Space"] },
+  { command: "seekBackward", label: "Back 5 seconds / previous bar", group: "Playback", defaultKeys: ["ArrowLeft"] },
+  { command: "seekForward", label: "Forward 5 seconds / next bar", group: "Playback", defaultKeys: ["ArrowRight"] },
+  { command: "toggleMute", label: "Mute", group: "Playback", defaultKeys: ["KeyM"] },
+  { command: "toggleLoop", label: "Loop on / off", group: "Tabs", defaultKeys: ["KeyL"] },
+  { command: "tempoUp", label: "Tempo +5 BPM", group: "Tabs", defaultKeys: ["Equal"] },
+  { command: "tempoDown", label: "Tempo -5 BPM", group: "Tabs", defaultKeys: ["Minus"] },
+  { command: "transposeUp", label: "Transpose up a semitone", group: "Tabs", defaultKeys: ["BracketRight"] },
+  { command: "transposeDown", label: "Transpose down a semitone", group: "Tabs", defaultKeys: ["BracketLeft"] },
+  { command: "nextPage", label: "Next page / song (performance mode)", group: "Tabs", defaultKeys: ["PageDown"] },
+  { command: "previousPage", label: "Previous page / song (performance mode)", group: "Tabs", defaultKeys: ["PageUp"] },
+  { command: "showHelp", label: "Show keyboard shortcuts", group: "General", defaultKeys: ["?"] },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUTS.map((shortcut) => [shortcut.command, shortcut.defaultKeys])
+) as ShortcutBindings;
+
+// Players mark their DOM with this attribute so the last one clicked or focused gets the keys
+export const SHORTCUT_PLAYER_ATTRIBUTE = "data-shortcut-player";
+
+const LOCAL_STORAGE_KEY = "shortcut-bindings";
+const MODIFIER_CODES = ["ShiftLeft", "ShiftRight", "ControlLeft", "ControlRight", "AltLeft", "AltRight", "MetaLeft", "MetaRight"];
+
+// "Shift+Slash" for Shift + /; null while only a modifier is held
+export const keyComboFromEvent = (e: KeyboardEvent): string | null => {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push("Ctrl");
+  if (e.altKey) parts.push("Alt");
+  if (e.metaKey) parts.push("Meta");
+  if (e.shiftKey) parts.push("Shift");
+  parts.push(e.code);
+  return parts.join("+");
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Space: "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  PageUp: "Page Up",
+  PageDown: "Page Down",
+  Equal: "=",
+  Minus: "-",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Slash: "/",
+  Comma: ",",
+  Period: ".",
+  Semicolon: ";",
+  Quote: "'",
+  Backquote: "`",
+  Backslash: "\\",
+  Ctrl: "Ctrl",
+  Alt: "Alt",
+  Meta: "⌘",
+  Shift: "Shift",
+};
+
+// Human-readable combo, e.g. "Shift + /"
+export const formatKeyCombo = (combo: string): string => {
+  return combo
+    .split("+")
+    .map((part) => KEY_LABELS[part] ?? part.replace(/^Key/, "").replace(/^Digit/, "").replace(/^Numpad/, "Num "))
+    .join(" + ");
+};
+
+export const findCommandForCombo = (bindings: ShortcutBindings, combo: string): ShortcutCommand | null => {
+  const match = SHORTCUTS.find((shortcut) => bindings[shortcut.command]?.includes(combo));
+  return match?.command ?? null;
+};
+
+// Positional combo first, then the typed character (code names are never a single character)
+export const findCommandForEvent = (bindings: ShortcutBindings, e: KeyboardEvent): ShortcutCommand | null => {
+  const combo = keyComboFromEvent(e);
+  if (!combo) return null;
+  const command = findCommandForCombo(bindings, combo);
+  if (command || e.key.length !== 1 || e.ctrlKey || e.altKey || e.metaKey) return command;
+  return findCommandForCombo(bindings, e.key);
+};
+
+// Bind a combo to a command, taking it away from any command that had it
+export const rebindShortcut = (bindings: ShortcutBindings, command: ShortcutCommand, combo: string): ShortcutBindings => {
+  const next = { ...bindings };
+  for (const shortcut of SHORTCUTS) {
+    next[shortcut.command] = (next[shortcut.command] ?? []).filter((key) => key !== combo);
+  }
+  next[command] = [combo];
+  return next;
+};
+
+// Typing in a form field shouldn't trigger shortcuts
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  );
+};
+
+export const readShortcutBindings = (): ShortcutBindings => {
+  try {
+    const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (!raw) return DEFAULT_SHORTCUT_BINDINGS;
+    const stored = JSON.parse(raw) as Partial<Record<string, unknown>>;
+    const bindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+    for (const shortcut of SHORTCUTS) {
+      const keys = stored[shortcut.command];
+      if (Array.isArray(keys) && keys.every((key) => typeof key === "string")) {
+        bindings[shortcut.command] = keys as string[];
+      }
+    }
+    // Saved before help matched the typed "?"; Shift+Slash is only "?" on some layouts
+    if (bindings.showHelp.length === 1 && bindings.showHelp[0] === "Shift+Slash") {
+      bindings.showHelp = DEFAULT_SHORTCUT_BINDINGS.showHelp;
+    }
+    return bindings;
+  } catch (e) {
+    console.warn("Failed to read shortcut bindings:", e);
+    return DEFAULT_SHORTCUT_BINDINGS;
+  }
+};
+
+export const writeShortcutBindings = (bindings: ShortcutBindings) => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn("Failed to save shortcut bindings:", e);
+  }
+};
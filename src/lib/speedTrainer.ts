@@ -0,0 +1,71 @@
+// Speed trainer: starts a loop below the target tempo and raises the speed
+// after a number of clean repetitions until the target is reached.
+
+export interface SpeedTrainerConfig {
+  startPercent: number;
+  stepPercent: number;
+  cleanRepsPerStep: number;
+  targetPercent: number;
+}
+
+export interface SpeedTrainerState {
+  currentPercent: number;
+  cleanReps: number;
+  totalReps: number;
+  targetReached: boolean;
+}
+
+export const DEFAULT_SPEED_TRAINER_CONFIG: SpeedTrainerConfig = {
+  startPercent: 60,
+  stepPercent: 5,
+  cleanRepsPerStep: 3,
+  targetPercent: 100,
+};
+
+export const normalizeSpeedTrainerConfig = (config: SpeedTrainerConfig): SpeedTrainerConfig => {
+  const targetPercent = Math.max(10, Math.min(200, config.targetPercent));
+  return {
+    startPercent: Math.max(10, Math.min(targetPercent, config.startPercent)),
+    stepPercent: Math.max(1, Math.min(50, config.stepPercent)),
+    cleanRepsPerStep: Math.max(1, Math.min(50, Math.round(config.cleanRepsPerStep))),
+    targetPercent,
+  };
+};
+
+export const createSpeedTrainerState = (config: SpeedTrainerConfig): SpeedTrainerState => {
+  const { startPercent, targetPercent } = normalizeSpeedTrainerConfig(config);
+  return {
+    currentPercent: startPercent,
+    cleanReps: 0,
+    totalReps: 0,
+    targetReached: startPercent >= targetPercent,
+  };
+};
+
+// Register a finished pass through the loop. A pass that was marked as missed
+// resets the clean counter so the tempo only rises after consecutive clean reps.
+export const registerRepetition = (
+  state: SpeedTrainerState,
+  config: SpeedTrainerConfig,
+  clean: boolean
+): SpeedTrainerState => {
+  const normalized = normalizeSpeedTrainerConfig(config);
+  const totalReps = state.totalReps + 1;
+
+  if (!clean) {
+    return { ...state, cleanReps: 0, totalReps };
+  }
+
+  const cleanReps = state.cleanReps + 1;
+  if (state.targetReached || cleanReps < normalized.cleanRepsPerStep) {
+    return { ...state, cleanReps, totalReps };
+  }
+
+  const currentPercent = Math.min(normalized.targetPercent, state.currentPercent + normalized.stepPercent);
+  return {
+    currentPercent,
+    cleanReps: 0,
+    totalReps,
+    targetReached: currentPercent >= normalized.targetPercent,
+  };
+};
@@ -0,0 +1,66 @@
+// Synth instruments per score track. Admins store them on guitar_embeds.track_instruments;
+// listeners can override them for the current session from the mixer.
+import { alphaTab, type Track } from "@/lib/alphaTab";
+
+export interface TrackInstrument {
+  index: number;
+  name: string; // track name when it was set, so a replaced file with other tracks is ignored
+  program: number;
+}
+
+// Channel 9 is always GM percussion, which has no program to change
+const DRUM_CHANNEL = 9;
+
+export const sanitizeTrackInstruments = (value: unknown): TrackInstrument[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (entry): entry is TrackInstrument =>
+      !!entry &&
+      Number.isInteger(entry.index) &&
+      typeof entry.name === "string" &&
+      Number.isInteger(entry.program) &&
+      entry.program >= 0 &&
+      entry.program <= 127
+  );
+};
+
+// Program per score track index: session overrides first, then the tab's stored ones.
+// Stored entries are matched by index and only used while the track name still matches.
+export const getTrackPrograms = (
+  scoreTracks: Track[],
+  stored: TrackInstrument[],
+  session: Record<number, number> = {}
+): Record<number, number> => {
+  const programs: Record<number, number> = {};
+  scoreTracks.forEach((track, index) => {
+    const match = stored.find((entry) => entry.index === index && entry.name === (track?.name ?? ""));
+    const program = session[index] ?? match?.program;
+    if (program !== undefined) programs[index] = program;
+  });
+  return programs;
+};
+
+// Rewrites program changes on each track's channels. Tracks without a program get
+// `fallback`; null keeps the program from the file.
+export const rewriteProgramChanges = (
+  file: alphaTab.midi.MidiFile,
+  scoreTracks: Track[],
+  programs: Record<number, number>,
+  fallback: number | null
+) => {
+  const channelPrograms = new Map<number, number>();
+  scoreTracks.forEach((track, index) => {
+    const program = programs[index];
+    if (program === undefined) return;
+    const { primaryChannel, secondaryChannel } = track?.playbackInfo ?? {};
+    for (const channel of [primaryChannel, secondaryChannel]) {
+      if (typeof channel === "number") channelPrograms.set(channel, program);
+    }
+  });
+
+  for (const ev of file?.events ?? []) {
+    if (!(ev instanceof alphaTab.midi.ProgramChangeEvent) || ev.channel === DRUM_CHANNEL) continue;
+    const program = channelPrograms.get(ev.channel) ?? fallback;
+    if (program !== null) ev.program = program;
+  }
+};
@@ -0,0 +1,98 @@
+// Per-track mixer state and the mapping onto AlphaTab's synth controls.
+// Pan is stored as -100 (left) .. 100 (right); AlphaTab uses a 0..16 balance.
+import type { AlphaTabApi, Track } from "@/lib/alphaTab";
+
+export interface TrackMixEntry {
+  index: number;
+  name: string;
+  mute: boolean;
+  solo: boolean;
+  volume: number; // 0..100, applied as a multiplier of the track's own volume
+  pan: number; // -100..100
+}
+
+export interface TrackMix {
+  tracks: TrackMixEntry[];
+}
+
+export const balanceToPan = (balance: number): number => {
+  if (typeof balance !== "number") return 0;
+  return Math.round(((balance - 8) / 8) * 100);
+};
+
+export const panToBalance = (pan: number): number => {
+  return Math.max(0, Math.min(16, Math.round(8 + (pan / 100) * 8)));
+};
+
+export const createDefaultMix = (tracks: Track[]): TrackMix => ({
+  tracks: tracks.map((track, index) => ({
+    index,
+    name: track?.name || `Track ${index + 1}`,
+    mute: !!track?.playbackInfo?.isMute,
+    solo: !!track?.playbackInfo?.isSolo,
+    volume: 100,
+    pan: balanceToPan(track?.playbackInfo?.balance ?? 8),
+  })),
+});
+
+// Merge a saved mix onto the score's default mix. Entries are matched by index
+// and only reused when the track name still matches, so a replaced file with a
+// different track layout falls back to the defaults.
+export const mergeSavedMix = (defaults: TrackMix, saved: TrackMix | null | undefined): TrackMix => {
+  if (!saved?.tracks?.length) return defaults;
+
+  return {
+    tracks: defaults.tracks.map((entry) => {
+      const match = saved.tracks.find((t) => t.index === entry.index && t.name === entry.name);
+      return match ? { ...entry, mute: match.mute, solo: match.solo, volume: match.volume, pan: match.pan } : entry;
+    }),
+  };
+};
+
+// Apply mute/solo/volume directly on the synth channels (no MIDI reload needed)
+export const applyMixToSynth = (api: AlphaTabApi | null, mix: TrackMix) => {
+  const scoreTracks = api?.score?.tracks;
+  if (!scoreTracks) return;
+
+  for (const entry of mix.tracks) {
+    const track = scoreTracks[entry.index];
+    if (!track) continue;
+    try {
+      api.changeTrackMute([track], entry.mute);
+      api.changeTrackSolo([track], entry.solo);
+      api.changeTrackVolume([track], entry.volume / 100);
+    } catch (e) {
+      console.warn("Failed to apply mixer settings for track", entry.index, e);
+    }
+  }
+};
+
+// Pan is baked into the MIDI as a controller event, so it is written to the
+// track's playback info. Returns true when the MIDI needs to be regenerated.
+export const applyPanToScore = (api: AlphaTabApi | null, mix: TrackMix): boolean => {
+  const scoreTracks = api?.score?.tracks;
+  if (!scoreTracks) return false;
+
+  let changed = false;
+  for (const entry of mix.tracks) {
+    const track = scoreTracks[entry.index];
+    if (!track?.playbackInfo) continue;
+    const balance = panToBalance(entry.pan);
+    if (track.playbackInfo.balance !== balance) {
+      track.playbackInfo.balance = balance;
+      changed = true;
+    }
+  }
+  return changed;
+};
+
+// Per-track volumes for offline rendering, where synth mute/solo state isn't used
+export const getExportTrackVolumes = (mix: TrackMix): Map<number, number> => {
+  const hasSolo = mix.tracks.some((t) => t.solo);
+  const volumes = new Map<number, number>();
+  for (const entry of mix.tracks) {
+    const audible = !entry.mute && (!hasSolo || entry.solo);
+    volumes.set(entry.index, audible ? entry.volume / 100 : 0);
+  }
+  return volumes;
+};
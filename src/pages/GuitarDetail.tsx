@@ -1,4 +1,4 @@
-import { useParams, Link } from "react-router-dom";
+import { useParams, useSearchParams, Link } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
@@ -14,7 +14,12 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { parseDeepLink } from "@/lib/deepLink";
+import type { BackingTrack, BackingTrackSyncPoint } from "@/lib/backingTrack";
+import { TrackInstrument, sanitizeTrackInstruments } from "@/lib/trackInstruments";
+import { getOfflineItem, withOfflineFallback } from "@/lib/offline";
+import { OfflineButton } from "@/components/OfflineButton";
 
 interface GuitarEmbed {
   id: string;
@@ -23,10 +28,15 @@ interface GuitarEmbed {
   file_url: string | null;
   description: string | null;
   default_instrument: { name: string; program: number } | null;
+  backing_track_url: string | null;
+  backing_track_sync_points: BackingTrackSyncPoint[];
+  track_instruments: TrackInstrument[];
 }
 
 const GuitarDetail = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const deepLink = useMemo(() => parseDeepLink(searchParams), [searchParams]);
   const [containerWidth, setContainerWidth] = useState<"narrow" | "normal" | "wide" | "full">("normal");
 
   const widthClasses = {
@@ -39,21 +49,37 @@ const GuitarDetail = () => {
   const { data: embed, isLoading } = useQuery({
     queryKey: ["guitar-embed", id],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("guitar_embeds")
-        .select("*")
-        .eq("id", id)
-        .single();
-      
-      if (error) throw error;
+      const data = await withOfflineFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from("guitar_embeds")
+            .select("*")
+            .eq("id", id)
+            .single();
+
+          if (error) throw error;
+          return data as Record<string, unknown>;
+        },
+        (index) => getOfflineItem(index, "tab", id!)?.row ?? null
+      );
       return {
         ...data,
         default_instrument: data.default_instrument as { name: string; program: number } | null,
+        backing_track_sync_points: (data.backing_track_sync_points as unknown as BackingTrackSyncPoint[]) ?? [],
+        track_instruments: sanitizeTrackInstruments(data.track_instruments),
       } as GuitarEmbed;
     },
     enabled: !!id,
   });
 
+  const backingTrack = useMemo<BackingTrack | null>(
+    () =>
+      embed?.backing_track_url
+        ? { url: embed.backing_track_url, syncPoints: embed.backing_track_sync_points }
+        : null,
+    [embed]
+  );
+
   return (
     <main className="min-h-screen bg-background pt-24 pb-16">
       <div className="w-full">
@@ -65,6 +91,7 @@ const GuitarDetail = () => {
               Back to Guitar Pro
             </Button>
           </Link>
+          {embed?.file_url && <OfflineButton kind="tab" row={embed} />}
         </div>
 
           {isLoading ? (
@@ -91,6 +118,10 @@ const GuitarDetail = () => {
                   fileUrl={embed.file_url} 
                   title={embed.title}
                   defaultInstrument={embed.default_instrument}
+                  trackInstruments={embed.track_instruments}
+                  embedId={embed.id}
+                  deepLink={deepLink}
+                  backingTrack={backingTrack}
                 />
               </div>
             ) : embed.embed_code ? (
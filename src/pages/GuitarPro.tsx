@@ -1,11 +1,26 @@
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
 import { Link } from "react-router-dom";
-import { ChevronRight } from "lucide-react";
+import { ChevronRight, SlidersHorizontal, WifiOff } from "lucide-react";
 import { EditableText } from "@/components/EditableText";
 import { EditableItemText } from "@/components/EditableItemText";
 import { GuitarSkeleton } from "@/components/LoadingSkeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DIFFICULTY_LEVELS,
+  TAB_TECHNIQUES,
+  getAnalysisSummary,
+  getMetadataSummary,
+  getTechniqueLabel,
+  getTuningLabels,
+} from "@/lib/guitarProMetadata";
+import { OfflineButton } from "@/components/OfflineButton";
+import { useOfflineContent, useOnlineStatus } from "@/hooks/useOfflineContent";
+import { getOfflineRows, withOfflineFallback } from "@/lib/offline";
 
 interface GuitarEmbed {
   id: string;
@@ -13,21 +28,118 @@ interface GuitarEmbed {
   embed_code: string | null;
   file_url: string | null;
   description: string | null;
+  artist: string | null;
+  album: string | null;
+  tempo: number | null;
+  time_signature: string | null;
+  bar_count: number | null;
+  capo: number | null;
+  tracks: unknown;
+  // Missing on tabs saved offline before the analysis existed
+  techniques?: string[];
+  lowest_fret?: number | null;
+  highest_fret?: number | null;
+  max_notes_per_second?: number | null;
+  difficulty?: number | null;
 }
 
+type SortOption = "default" | "easiest" | "hardest" | "slowest" | "fastest" | "title";
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: "default", label: "Default order" },
+  { value: "easiest", label: "Easiest first" },
+  { value: "hardest", label: "Hardest first" },
+  { value: "slowest", label: "Slowest first" },
+  { value: "fastest", label: "Fastest first" },
+  { value: "title", label: "Title A–Z" },
+];
+
+const FRET_LIMITS = [
+  { value: "5", label: "Up to fret 5" },
+  { value: "12", label: "Up to fret 12" },
+];
+
+const ALL = "all";
+
+// Unanalyzed tabs go last whichever way the list is sorted
+const compareNullable = (a: number | null | undefined, b: number | null | undefined, direction: 1 | -1) => {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return (a - b) * direction;
+};
+
+const sortEmbeds = (embeds: GuitarEmbed[], sort: SortOption) => {
+  if (sort === "default") return embeds;
+  return [...embeds].sort((a, b) => {
+    switch (sort) {
+      case "easiest":
+        return compareNullable(a.difficulty, b.difficulty, 1);
+      case "hardest":
+        return compareNullable(a.difficulty, b.difficulty, -1);
+      case "slowest":
+        return compareNullable(a.max_notes_per_second, b.max_notes_per_second, 1);
+      case "fastest":
+        return compareNullable(a.max_notes_per_second, b.max_notes_per_second, -1);
+      case "title":
+        return a.title.localeCompare(b.title);
+    }
+  });
+};
+
 const GuitarPro = () => {
+  const isOnline = useOnlineStatus();
+  const { isSaved } = useOfflineContent();
   const { data: embeds, isLoading } = useQuery({
     queryKey: ["guitar-embeds"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("guitar_embeds")
-        .select("*")
-        .order("display_order", { ascending: true });
-      
-      if (error) throw error;
-      return data as GuitarEmbed[];
-    },
+    queryFn: () =>
+      withOfflineFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from("guitar_embeds")
+            .select("*")
+            .order("display_order", { ascending: true });
+
+          if (error) throw error;
+          return data as GuitarEmbed[];
+        },
+        (index) => getOfflineRows(index, "tab") as unknown as GuitarEmbed[] | null
+      ),
   });
+  const [difficulty, setDifficulty] = useState(ALL);
+  const [technique, setTechnique] = useState(ALL);
+  const [tuning, setTuning] = useState(ALL);
+  const [fretLimit, setFretLimit] = useState(ALL);
+  const [sort, setSort] = useState<SortOption>("default");
+  const isFiltered = difficulty !== ALL || technique !== ALL || tuning !== ALL || fretLimit !== ALL;
+
+  // Only offer what at least one tab has
+  const techniqueOptions = useMemo(
+    () => TAB_TECHNIQUES.filter((t) => embeds?.some((embed) => embed.techniques?.includes(t.value))),
+    [embeds]
+  );
+  const tuningOptions = useMemo(
+    () => Array.from(new Set((embeds ?? []).flatMap((embed) => getTuningLabels(embed.tracks)))).sort(),
+    [embeds]
+  );
+
+  const visibleEmbeds = useMemo(() => {
+    const level = DIFFICULTY_LEVELS.find((l) => l.value === difficulty);
+    const filtered = (embeds ?? []).filter((embed) => {
+      if (level && !(embed.difficulty && embed.difficulty >= level.min && embed.difficulty <= level.max)) return false;
+      if (technique !== ALL && !embed.techniques?.includes(technique)) return false;
+      if (tuning !== ALL && !getTuningLabels(embed.tracks).includes(tuning)) return false;
+      if (fretLimit !== ALL && !(embed.highest_fret != null && embed.highest_fret <= Number(fretLimit))) return false;
+      return true;
+    });
+    return sortEmbeds(filtered, sort);
+  }, [embeds, difficulty, technique, tuning, fretLimit, sort]);
+
+  const clearFilters = () => {
+    setDifficulty(ALL);
+    setTechnique(ALL);
+    setTuning(ALL);
+    setFretLimit(ALL);
+  };
 
   return (
     <main className="min-h-screen bg-background pt-24 pb-16">
@@ -49,6 +161,15 @@ const GuitarPro = () => {
           />
         </div>
 
+        {!isOnline && (
+          <Card className="flex items-center gap-3 p-4 mb-6 max-w-2xl mx-auto bg-card/50 backdrop-blur">
+            <WifiOff className="h-5 w-5 text-muted-foreground shrink-0" />
+            <p className="text-sm text-muted-foreground">
+              You're offline. Tabs marked as available offline can still be opened and played.
+            </p>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="grid gap-4 max-w-2xl mx-auto">
             {[1, 2, 3].map((i) => (
@@ -57,9 +178,99 @@ const GuitarPro = () => {
           </div>
         ) : embeds && embeds.length > 0 ? (
           <div className="grid gap-4 max-w-2xl mx-auto">
-            {embeds.map((embed) => (
+            <Card className="p-4 bg-card/50 backdrop-blur space-y-3">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <SlidersHorizontal className="h-4 w-4" />
+                <span className="flex-1">
+                  {isFiltered ? `${visibleEmbeds.length} of ${embeds.length} tabs` : `${embeds.length} tabs`}
+                </span>
+                {isFiltered && (
+                  <Button variant="ghost" size="sm" onClick={clearFilters}>
+                    Clear filters
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                <Select value={difficulty} onValueChange={setDifficulty}>
+                  <SelectTrigger aria-label="Difficulty">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Any difficulty</SelectItem>
+                    {DIFFICULTY_LEVELS.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={technique} onValueChange={setTechnique}>
+                  <SelectTrigger aria-label="Technique">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Any technique</SelectItem>
+                    {techniqueOptions.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={tuning} onValueChange={setTuning}>
+                  <SelectTrigger aria-label="Tuning">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Any tuning</SelectItem>
+                    {tuningOptions.map((label) => (
+                      <SelectItem key={label} value={label}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={fretLimit} onValueChange={setFretLimit}>
+                  <SelectTrigger aria-label="Fret range">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Any frets</SelectItem>
+                    {FRET_LIMITS.map((limit) => (
+                      <SelectItem key={limit.value} value={limit.value}>
+                        {limit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+                  <SelectTrigger aria-label="Sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </Card>
+
+            {visibleEmbeds.length === 0 && (
+              <Card className="p-8 text-center bg-card/50 backdrop-blur">
+                <p className="text-muted-foreground">No tabs match these filters.</p>
+              </Card>
+            )}
+
+            {visibleEmbeds.map((embed) => (
               <Link key={embed.id} to={`/guitar/${embed.id}`}>
-                <Card className="p-6 bg-card/50 backdrop-blur hover:shadow-xl transition-all hover:-translate-y-1 group">
+                <Card
+                  className={`p-6 bg-card/50 backdrop-blur hover:shadow-xl transition-all hover:-translate-y-1 group ${
+                    !isOnline && !isSaved("tab", embed.id) ? "opacity-50" : ""
+                  }`}
+                >
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
                       <EditableItemText
@@ -80,7 +291,36 @@ const GuitarPro = () => {
                         as="p"
                         queryKey={["guitar-embeds"]}
                       />
+                      {(embed.artist || embed.album) && (
+                        <p className="text-sm mt-1">
+                          {[embed.artist, embed.album].filter(Boolean).join(" — ")}
+                        </p>
+                      )}
+                      {getMetadataSummary(embed).length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {getMetadataSummary(embed).map((fact) => (
+                            <Badge key={fact} variant="secondary" className="text-xs font-normal">
+                              {fact}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {(getAnalysisSummary(embed).length > 0 || embed.techniques?.length > 0) && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {getAnalysisSummary(embed).map((fact) => (
+                            <Badge key={fact} variant="outline" className="text-xs font-normal">
+                              {fact}
+                            </Badge>
+                          ))}
+                          {embed.techniques?.map((t) => (
+                            <Badge key={t} variant="outline" className="text-xs font-normal text-muted-foreground">
+                              {getTechniqueLabel(t)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
+                    {embed.file_url && <OfflineButton kind="tab" row={embed} compact />}
                     <ChevronRight className="h-6 w-6 text-muted-foreground group-hover:text-primary transition-colors" />
                   </div>
                 </Card>
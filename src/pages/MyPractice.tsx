@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { format, subMonths } from "date-fns";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { CalendarDays, Clock, Flame, Trophy } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { PRACTICE_HISTORY_MONTHS, usePracticeSessions } from "@/hooks/usePracticeSessions";
+import { toLocalDateKey } from "@/lib/practiceTracker";
+import {
+  formatPracticeTime,
+  getDailySeconds,
+  getHeatLevel,
+  getStreaks,
+  getTabProgress,
+  parseDateKey,
+  summarizeByTab,
+} from "@/lib/practiceStats";
+
+const HEAT_CLASSES: Record<string, string> = {
+  practice1: "bg-primary/20 hover:bg-primary/30",
+  practice2: "bg-primary/40 hover:bg-primary/50",
+  practice3: "bg-primary/70 hover:bg-primary/80 text-primary-foreground",
+  practice4: "bg-primary hover:bg-primary/90 text-primary-foreground",
+};
+
+const chartConfig = {
+  minutes: { label: "Minutes", color: "hsl(var(--primary))" },
+  bpm: { label: "Stable loop tempo (BPM)", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const formatDay = (key: string) => format(parseDateKey(key), "MMM d");
+
+const MyPractice = () => {
+  const { user, loading } = useAuth();
+  const isMobile = useIsMobile();
+  const { sessions, isLoading } = usePracticeSessions();
+  const [selectedTab, setSelectedTab] = useState<string | null>(null);
+
+  const today = toLocalDateKey(new Date());
+  const daily = useMemo(() => getDailySeconds(sessions), [sessions]);
+  const streaks = useMemo(() => getStreaks(daily.keys(), today), [daily, today]);
+  const tabs = useMemo(() => summarizeByTab(sessions), [sessions]);
+
+  const weekSeconds = useMemo(() => {
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 6);
+    const from = toLocalDateKey(weekAgo);
+    return [...daily].filter(([day]) => day >= from).reduce((sum, [, seconds]) => sum + seconds, 0);
+  }, [daily]);
+
+  // Days grouped by heatmap shade, as calendar modifiers
+  const heatModifiers = useMemo(() => {
+    const modifiers: Record<string, Date[]> = { practice1: [], practice2: [], practice3: [], practice4: [] };
+    daily.forEach((seconds, day) => {
+      const level = getHeatLevel(seconds);
+      if (level > 0) modifiers[`practice${level}`].push(parseDateKey(day));
+    });
+    return modifiers;
+  }, [daily]);
+
+  // Default to the most recently practiced tab
+  useEffect(() => {
+    if (tabs.length > 0 && !tabs.some((tab) => tab.embedId === selectedTab)) {
+      setSelectedTab(tabs[0].embedId);
+    }
+  }, [tabs, selectedTab]);
+
+  const progress = useMemo(
+    () => (selectedTab ? getTabProgress(sessions, selectedTab) : []),
+    [sessions, selectedTab]
+  );
+  const hasTempo = progress.some((point) => point.bpm !== null);
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const stats = [
+    { label: "Last 7 days", value: formatPracticeTime(weekSeconds), icon: Clock },
+    { label: "Current streak", value: `${streaks.current} ${streaks.current === 1 ? "day" : "days"}`, icon: Flame },
+    { label: "Longest streak", value: `${streaks.longest} ${streaks.longest === 1 ? "day" : "days"}`, icon: Trophy },
+    { label: "Days practiced", value: String(daily.size), icon: CalendarDays },
+  ];
+
+  return (
+    <main className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          My practice
+        </h1>
+        <p className="text-muted-foreground mb-8">
+          Time spent playing tabs over the last {PRACTICE_HISTORY_MONTHS} months, the bars you covered and the tempos
+          you held in loops.
+        </p>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading practice history...</p>
+        ) : sessions.length === 0 ? (
+          <Card className="p-8 text-center bg-card/50 backdrop-blur">
+            <p className="text-muted-foreground">
+              Nothing recorded yet. Practice sessions are saved while you play a tab from the{" "}
+              <Link to="/guitar" className="text-primary hover:underline">
+                Guitar Pro collection
+              </Link>
+              .
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {stats.map(({ label, value, icon: Icon }) => (
+                <Card key={label} className="p-4 bg-card/50 backdrop-blur">
+                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    <Icon className="h-3.5 w-3.5" />
+                    {label}
+                  </p>
+                  <p className="text-2xl font-semibold mt-1">{value}</p>
+                </Card>
+              ))}
+            </div>
+
+            <Card className="p-4 bg-card/50 backdrop-blur">
+              <h2 className="font-semibold mb-2">Practice calendar</h2>
+              <Calendar
+                numberOfMonths={isMobile ? 1 : 3}
+                defaultMonth={isMobile ? new Date() : subMonths(new Date(), 2)}
+                fromMonth={subMonths(new Date(), PRACTICE_HISTORY_MONTHS)}
+                toMonth={new Date()}
+                showOutsideDays={false}
+                modifiers={heatModifiers}
+                modifiersClassNames={HEAT_CLASSES}
+                className="flex justify-center"
+              />
+              <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+                <span className="mr-1">Less</span>
+                <span className="h-3 w-3 rounded-sm bg-muted" />
+                {Object.keys(HEAT_CLASSES).map((key) => (
+                  <span key={key} className={`h-3 w-3 rounded-sm ${HEAT_CLASSES[key].split(" ")[0]}`} />
+                ))}
+                <span className="ml-1">More</span>
+              </div>
+            </Card>
+
+            <Card className="p-4 bg-card/50 backdrop-blur">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h2 className="font-semibold">Progress per tab</h2>
+                <Select value={selectedTab ?? undefined} onValueChange={setSelectedTab}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Choose a tab" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tabs.map((tab) => (
+                      <SelectItem key={tab.embedId} value={tab.embedId}>
+                        {tab.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <ComposedChart data={progress} margin={{ left: 0, right: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis yAxisId="minutes" tickLine={false} axisLine={false} width={32} />
+                  {hasTempo && (
+                    <YAxis yAxisId="bpm" orientation="right" tickLine={false} axisLine={false} width={32} />
+                  )}
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar yAxisId="minutes" dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                  {hasTempo && (
+                    <Line
+                      yAxisId="bpm"
+                      dataKey="bpm"
+                      stroke="var(--color-bpm)"
+                      strokeWidth={2}
+                      connectNulls
+                      dot={{ r: 3 }}
+                    />
+                  )}
+                </ComposedChart>
+              </ChartContainer>
+              {!hasTempo && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Loop a passage a few times in a row at one speed to track the tempo you can hold.
+                </p>
+              )}
+            </Card>
+
+            <Card className="p-4 bg-card/50 backdrop-blur">
+              <h2 className="font-semibold mb-3">Tabs</h2>
+              <div className="divide-y divide-border">
+                {tabs.map((tab) => (
+                  <div key={tab.embedId} className="py-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                    <Link to={`/guitar/${tab.embedId}`} className="flex-1 min-w-[12rem] font-medium hover:text-primary">
+                      {tab.title}
+                      {tab.artist && <span className="text-muted-foreground font-normal"> · {tab.artist}</span>}
+                    </Link>
+                    <span className="text-muted-foreground">
+                      {formatPracticeTime(tab.totalSeconds)} in {tab.sessions}{" "}
+                      {tab.sessions === 1 ? "session" : "sessions"}
+                    </span>
+                    {tab.coverage !== null && (
+                      <span className="text-muted-foreground">{Math.round(tab.coverage * 100)}% of bars</span>
+                    )}
+                    {tab.bestBpm && <span className="text-muted-foreground">{tab.bestBpm} BPM</span>}
+                    <span className="text-muted-foreground">last {formatDay(tab.lastPracticedOn)}</span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default MyPractice;
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Disc3, Guitar, HardDrive, Trash2, WifiOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useOfflineContent, useOnlineStatus } from "@/hooks/useOfflineContent";
+import { OfflineItem, formatBytes, getOfflineItemSize } from "@/lib/offline";
+
+interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+const OfflineStorage = () => {
+  const isOnline = useOnlineStatus();
+  const { isSupported, isLoading, index, items, usage, remove, clear, isClearing } = useOfflineContent();
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  // Re-read whenever saved content changes
+  useEffect(() => {
+    if (!navigator.storage?.estimate) return;
+    Promise.all([navigator.storage.estimate(), navigator.storage.persisted?.() ?? Promise.resolve(false)])
+      .then(([{ usage = 0, quota = 0 }, persisted]) => setEstimate({ usage, quota, persisted }))
+      .catch((e) => console.warn("Storage estimate unavailable:", e));
+  }, [index]);
+
+  const requestPersistence = async () => {
+    const persisted = (await navigator.storage?.persist?.()) ?? false;
+    setEstimate((current) => current && { ...current, persisted });
+  };
+
+  const tabs = items.filter((item) => item.kind === "tab");
+  const recordings = items.filter((item) => item.kind === "recording");
+
+  const renderItem = (item: OfflineItem) => (
+    <Card key={`${item.kind}:${item.id}`} className="p-4 bg-card/50 backdrop-blur flex items-center gap-4">
+      {item.kind === "tab" ? (
+        <Guitar className="h-5 w-5 text-primary shrink-0" />
+      ) : (
+        <Disc3 className="h-5 w-5 text-primary shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        {item.kind === "tab" ? (
+          <Link to={`/guitar/${item.id}`} className="font-semibold hover:text-primary transition-colors">
+            {item.title}
+          </Link>
+        ) : (
+          <p className="font-semibold">{item.title}</p>
+        )}
+        <p className="text-sm text-muted-foreground">
+          {formatBytes(getOfflineItemSize(index, item))} · saved{" "}
+          {formatDistanceToNow(new Date(item.savedAt), { addSuffix: true })}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        title="Remove from this device"
+        onClick={() => {
+          if (confirm(`Remove "${item.title}" from this device?`)) remove(item.kind, item.id);
+        }}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </Card>
+  );
+
+  return (
+    <main className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Offline storage
+        </h1>
+        <p className="text-muted-foreground mb-8">
+          Tabs and recordings saved on this device play without a connection. Use "Make available offline" on the
+          Guitar Pro and Recordings pages to add more.
+        </p>
+
+        {!isSupported ? (
+          <Card className="p-8 text-center bg-card/50 backdrop-blur">
+            <p className="text-muted-foreground">This browser can't save content for offline use.</p>
+          </Card>
+        ) : (
+          <>
+            <Card className="p-6 mb-8 bg-card/50 backdrop-blur space-y-4">
+              <div className="flex items-center gap-3">
+                <HardDrive className="h-5 w-5 text-primary" />
+                <div className="flex-1">
+                  <p className="font-semibold">{formatBytes(usage)} used by saved content</p>
+                  {estimate && estimate.quota > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} available to this site
+                    </p>
+                  )}
+                </div>
+                {!isOnline && (
+                  <Badge variant="secondary" className="gap-1">
+                    <WifiOff className="h-3 w-3" />
+                    Offline
+                  </Badge>
+                )}
+              </div>
+              {estimate && estimate.quota > 0 && <Progress value={(estimate.usage / estimate.quota) * 100} />}
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {estimate?.persisted
+                    ? "Saved content is kept until you remove it."
+                    : "The browser may clear saved content when the device runs low on space."}
+                </p>
+                <div className="flex gap-2">
+                  {estimate && !estimate.persisted && (
+                    <Button variant="outline" size="sm" onClick={requestPersistence}>
+                      Keep on this device
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={items.length === 0 || isClearing}
+                    onClick={() => {
+                      if (confirm("Remove all offline content from this device?")) clear();
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Remove all
+                  </Button>
+                </div>
+              </div>
+            </Card>
+
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading saved content...</p>
+            ) : items.length === 0 ? (
+              <p className="text-muted-foreground">Nothing saved for offline use yet.</p>
+            ) : (
+              <div className="space-y-8">
+                {tabs.length > 0 && (
+                  <section className="space-y-3">
+                    <h2 className="text-xl font-semibold">Tabs</h2>
+                    {tabs.map(renderItem)}
+                  </section>
+                )}
+                {recordings.length > 0 && (
+                  <section className="space-y-3">
+                    <h2 className="text-xl font-semibold">Recordings</h2>
+                    {recordings.map(renderItem)}
+                  </section>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default OfflineStorage;
@@ -1,9 +1,8 @@
-import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Play, Pause } from "lucide-react";
+import { Play, Pause, WifiOff } from "lucide-react";
 import { EditableText } from "@/components/EditableText";
 import { EditableItemText } from "@/components/EditableItemText";
 import { useAuth } from "@/hooks/useAuth";
@@ -11,6 +10,10 @@ import { WaveformVisualizer } from "@/components/WaveformVisualizer";
 import { RecordingSkeleton } from "@/components/LoadingSkeleton";
 import { cn } from "@/lib/utils";
 import { CommentSection } from "@/components/CommentSection";
+import { useAudioFocus, useNowPlaying } from "@/hooks/useAudioFocus";
+import { useOfflineContent, useOnlineStatus } from "@/hooks/useOfflineContent";
+import { OfflineButton } from "@/components/OfflineButton";
+import { getOfflineRows, withOfflineFallback } from "@/lib/offline";
 
 interface Recording {
   id: string;
@@ -24,58 +27,36 @@ interface Recording {
 
 const Recordings = () => {
   const { isAdmin, isEditMode } = useAuth();
-  const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
-  const [playbackProgress, setPlaybackProgress] = useState<{ [key: string]: number }>({});
+  const audioFocus = useAudioFocus();
+  const nowPlaying = useNowPlaying();
+  const currentlyPlaying = nowPlaying.isPlaying ? nowPlaying.trackId : null;
+  const isOnline = useOnlineStatus();
+  const { isSaved } = useOfflineContent();
 
   const { data: recordings, isLoading } = useQuery({
     queryKey: ["recordings"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("music_tracks")
-        .select("*")
-        .order("display_order", { ascending: true });
-      
-      if (error) throw error;
-      return data as unknown as Recording[];
-    },
-  });
-
-  useEffect(() => {
-    // Listen for playback progress and playing state from MusicPlayer
-    const handleProgress = (e: CustomEvent) => {
-      const { trackId, progress } = e.detail;
-      setPlaybackProgress(prev => ({ ...prev, [trackId]: progress }));
-    };
-
-    const handlePlayingState = (e: CustomEvent) => {
-      const { trackId, isPlaying } = e.detail;
-      if (isPlaying) {
-        setCurrentlyPlaying(trackId);
-      } else if (currentlyPlaying === trackId) {
-        setCurrentlyPlaying(null);
-      }
-    };
+    queryFn: () =>
+      withOfflineFallback(
+        async () => {
+          const { data, error } = await supabase
+            .from("music_tracks")
+            .select("*")
+            .order("display_order", { ascending: true });
 
-    window.addEventListener("playbackProgress", handleProgress as EventListener);
-    window.addEventListener("playingStateChange", handlePlayingState as EventListener);
-    
-    return () => {
-      window.removeEventListener("playbackProgress", handleProgress as EventListener);
-      window.removeEventListener("playingStateChange", handlePlayingState as EventListener);
-    };
-  }, [currentlyPlaying]);
+          if (error) throw error;
+          return data as unknown as Recording[];
+        },
+        (index) => getOfflineRows(index, "recording") as unknown as Recording[] | null
+      ),
+  });
 
   const handlePlay = (trackId: string, index: number) => {
-    const isCurrentlyPlaying = currentlyPlaying === trackId;
-    
-    if (isCurrentlyPlaying) {
+    if (currentlyPlaying === trackId) {
       // Pause current track
-      window.dispatchEvent(new CustomEvent('togglePlayback'));
-      setCurrentlyPlaying(null);
+      audioFocus.togglePlayback();
     } else {
       // Play selected track
-      window.dispatchEvent(new CustomEvent('playTrack', { detail: { index } }));
-      setCurrentlyPlaying(trackId);
+      audioFocus.playTrack(index);
     }
   };
 
@@ -110,6 +91,15 @@ const Recordings = () => {
           />
         </div>
 
+        {!isOnline && (
+          <Card className="flex items-center gap-3 p-4 mb-6 bg-card/50 backdrop-blur">
+            <WifiOff className="h-5 w-5 text-muted-foreground shrink-0" />
+            <p className="text-sm text-muted-foreground">
+              You're offline. Recordings marked as available offline can still be played.
+            </p>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
@@ -120,12 +110,15 @@ const Recordings = () => {
           <div className="space-y-6">
             {recordings.map((recording, index) => {
               const isPlaying = currentlyPlaying === recording.id;
-              const progress = playbackProgress[recording.id] || 0;
+              const progress = nowPlaying.progress[recording.id] || 0;
 
               return (
                 <Card 
                   key={recording.id} 
-                  className="overflow-hidden group hover:shadow-xl transition-all duration-300 bg-card/80 backdrop-blur border-border/50"
+                  className={cn(
+                    "overflow-hidden group hover:shadow-xl transition-all duration-300 bg-card/80 backdrop-blur border-border/50",
+                    !isOnline && !isSaved("recording", recording.id) && "opacity-50"
+                  )}
                 >
                   <div className="flex gap-4 p-4">
                     {/* Album Art / Thumbnail */}
@@ -191,9 +184,12 @@ const Recordings = () => {
                             queryKey={["recordings"]}
                           />
                         </div>
-                        <span className="text-sm text-muted-foreground shrink-0">
-                          {formatTimeAgo()}
-                        </span>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <OfflineButton kind="recording" row={recording} compact />
+                          <span className="text-sm text-muted-foreground">
+                            {formatTimeAgo()}
+                          </span>
+                        </div>
                       </div>
 
                       {/* Waveform */}
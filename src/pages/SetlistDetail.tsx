@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowDown, ArrowLeft, ArrowUp, MonitorPlay, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { SetlistSong, useSetlist } from "@/hooks/useSetlists";
+import { INSTRUMENT_CATEGORIES, getInstrumentByProgram, getInstrumentsByCategory } from "@/constants/instruments";
+import {
+  SETLIST_SPEED_RANGE,
+  SETLIST_TRANSPOSE_RANGE,
+  SetlistOverrides,
+  clampSetlistSpeed,
+  clampSetlistTranspose,
+  moveItem,
+} from "@/lib/setlists";
+
+interface SetlistSongRowProps {
+  song: SetlistSong;
+  index: number;
+  count: number;
+  onMove: (from: number, to: number) => void;
+  onChange: (overrides: Partial<SetlistOverrides>) => void;
+  onRemove: () => void;
+}
+
+const SetlistSongRow = ({ song, index, count, onMove, onChange, onRemove }: SetlistSongRowProps) => {
+  const [speed, setSpeed] = useState(song.speed?.toString() ?? "");
+  const [transpose, setTranspose] = useState(song.transpose.toString());
+
+  useEffect(() => setSpeed(song.speed?.toString() ?? ""), [song.speed]);
+  useEffect(() => setTranspose(song.transpose.toString()), [song.transpose]);
+
+  // Saved when leaving the field so typing doesn't write on every key
+  const commitSpeed = () => {
+    const next = speed.trim() === "" ? null : clampSetlistSpeed(Number(speed));
+    setSpeed(next?.toString() ?? "");
+    if (next !== song.speed) onChange({ speed: next });
+  };
+
+  const commitTranspose = () => {
+    const next = clampSetlistTranspose(Number(transpose));
+    setTranspose(next.toString());
+    if (next !== song.transpose) onChange({ transpose: next });
+  };
+
+  return (
+    <Card className="p-4 bg-card/50 backdrop-blur space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-2xl font-bold text-muted-foreground w-8 text-center">{index + 1}</span>
+        <div className="flex-1 min-w-0">
+          <Link to={`/guitar/${song.embed.id}`} className="font-semibold hover:text-primary transition-colors">
+            {song.embed.title}
+          </Link>
+          {song.embed.artist && <p className="text-sm text-muted-foreground">{song.embed.artist}</p>}
+        </div>
+        <Button variant="ghost" size="icon" title="Move up" disabled={index === 0} onClick={() => onMove(index, index - 1)}>
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Move down"
+          disabled={index === count - 1}
+          onClick={() => onMove(index, index + 1)}
+        >
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" title="Remove from setlist" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor={`speed-${song.id}`} className="text-xs">
+            Tempo (%)
+          </Label>
+          <Input
+            id={`speed-${song.id}`}
+            type="number"
+            min={SETLIST_SPEED_RANGE.min}
+            max={SETLIST_SPEED_RANGE.max}
+            placeholder={song.embed.tempo ? `100 (${song.embed.tempo} BPM)` : "100"}
+            value={speed}
+            onChange={(e) => setSpeed(e.target.value)}
+            onBlur={commitSpeed}
+            onKeyDown={(e) => e.key === "Enter" && commitSpeed()}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`transpose-${song.id}`} className="text-xs">
+            Transpose (semitones)
+          </Label>
+          <Input
+            id={`transpose-${song.id}`}
+            type="number"
+            min={SETLIST_TRANSPOSE_RANGE.min}
+            max={SETLIST_TRANSPOSE_RANGE.max}
+            value={transpose}
+            onChange={(e) => setTranspose(e.target.value)}
+            onBlur={commitTranspose}
+            onKeyDown={(e) => e.key === "Enter" && commitTranspose()}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Instrument</Label>
+          <Select
+            value={song.instrument ? String(song.instrument.program) : "default"}
+            onValueChange={(value) => {
+              const instrument = value === "default" ? null : getInstrumentByProgram(Number(value));
+              onChange({ instrument: instrument ? { name: instrument.name, program: instrument.program } : null });
+            }}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-80">
+              <SelectItem value="default">
+                Tab default{song.embed.default_instrument ? ` (${song.embed.default_instrument.name})` : ""}
+              </SelectItem>
+              {INSTRUMENT_CATEGORIES.map((category) => (
+                <SelectGroup key={category}>
+                  <SelectLabel>{category}</SelectLabel>
+                  {getInstrumentsByCategory(category).map((instrument) => (
+                    <SelectItem key={instrument.program} value={String(instrument.program)}>
+                      {instrument.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+const SetlistDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { setlist, isLoading, updateSetlist, addSong, removeSong, updateSong, reorderSongs } = useSetlist(id);
+  const [name, setName] = useState("");
+  const [songToAdd, setSongToAdd] = useState("");
+
+  const setlistName = setlist?.name;
+  useEffect(() => {
+    if (setlistName !== undefined) setName(setlistName);
+  }, [setlistName]);
+
+  const { data: embeds = [] } = useQuery({
+    queryKey: ["guitar-embeds"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("guitar_embeds")
+        .select("*")
+        .order("display_order", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+  const playableEmbeds = embeds.filter((embed) => embed.file_url);
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const songs = setlist?.songs ?? [];
+
+  return (
+    <main className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-3xl">
+        <div className="flex items-center justify-between mb-6">
+          <Link to="/setlists">
+            <Button variant="ghost" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              All setlists
+            </Button>
+          </Link>
+          {songs.length > 0 && (
+            <Link to={`/setlists/${id}/perform`}>
+              <Button className="gap-2">
+                <MonitorPlay className="h-4 w-4" />
+                Perform
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        {isLoading || !setlist ? (
+          <p className="text-muted-foreground">{isLoading ? "Loading setlist..." : "Setlist not found"}</p>
+        ) : (
+          <>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => name.trim() && name !== setlist.name && updateSetlist({ name: name.trim() })}
+              className="text-2xl font-bold h-auto py-2 mb-6 border-transparent hover:border-border focus:border-border bg-transparent"
+              aria-label="Setlist name"
+            />
+
+            <div className="space-y-3 mb-6">
+              {songs.length === 0 && <p className="text-muted-foreground">No songs yet. Add tabs below.</p>}
+              {songs.map((song, index) => (
+                <SetlistSongRow
+                  key={song.id}
+                  song={song}
+                  index={index}
+                  count={songs.length}
+                  onMove={(from, to) => reorderSongs(moveItem(songs, from, to).map((s) => s.id))}
+                  onChange={(overrides) => updateSong(song.id, overrides)}
+                  onRemove={() => removeSong(song.id)}
+                />
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Select value={songToAdd} onValueChange={setSongToAdd}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a tab to add" />
+                </SelectTrigger>
+                <SelectContent className="max-h-80">
+                  {playableEmbeds.map((embed) => (
+                    <SelectItem key={embed.id} value={embed.id}>
+                      {embed.title}
+                      {embed.artist ? ` - ${embed.artist}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                disabled={!songToAdd}
+                className="gap-2"
+                onClick={() => {
+                  addSong(songToAdd);
+                  setSongToAdd("");
+                }}
+              >
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default SetlistDetail;
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { ChevronLeft, ChevronRight, Columns2, FileText, Maximize, Minimize, Pause, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import PerformanceTabView from "@/components/PerformanceTabView";
+import { useAuth } from "@/hooks/useAuth";
+import { useSetlist } from "@/hooks/useSetlists";
+import { usePlayerPreferences } from "@/hooks/usePlayerPreferences";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+import { describeOverrides } from "@/lib/setlists";
+import type { PlayerLayout } from "@/lib/playerPreferences";
+
+const SetlistPerformance = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { setlist, isLoading } = useSetlist(id);
+  const { preferences, isLoaded: preferencesLoaded } = usePlayerPreferences();
+  const [index, setIndex] = useState(0);
+  const [layout, setLayout] = useState<PlayerLayout>("page");
+  const [autoPlay, setAutoPlay] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const apiRef = useRef<AlphaTabApi | null>(null);
+
+  const songs = setlist?.songs ?? [];
+  const song = songs[Math.min(index, songs.length - 1)];
+
+  // Start in the layout the player normally uses
+  useEffect(() => {
+    if (preferencesLoaded) setLayout(preferences.layout);
+  }, [preferencesLoaded, preferences.layout]);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  const goTo = (next: number, play = false) => {
+    if (next < 0 || next >= songs.length) return;
+    setAutoPlay(play);
+    setIndex(next);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch((e) => console.warn("Fullscreen not available:", e));
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-background">
+      <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+        <Link to={`/setlists/${id}`}>
+          <Button variant="ghost" size="icon" title="Leave performance mode">
+            <X className="h-5 w-5" />
+          </Button>
+        </Link>
+
+        <Button variant="ghost" size="icon" title="Previous song" disabled={index === 0} onClick={() => goTo(index - 1)}>
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={isPlaying ? "Pause" : "Play"}
+          disabled={!song}
+          onClick={() => apiRef.current?.playPause()}
+        >
+          {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Next song"
+          disabled={index >= songs.length - 1}
+          onClick={() => goTo(index + 1)}
+        >
+          <ChevronRight className="h-5 w-5" />
+        </Button>
+
+        <div className="flex-1 min-w-0 px-2">
+          {song ? (
+            <p className="truncate">
+              <span className="text-muted-foreground mr-2">
+                {index + 1}/{songs.length}
+              </span>
+              <span className="font-semibold">{song.embed.title}</span>
+              {describeOverrides(song).length > 0 && (
+                <span className="text-sm text-muted-foreground ml-2">{describeOverrides(song).join(" · ")}</span>
+              )}
+            </p>
+          ) : (
+            <p className="text-muted-foreground">{isLoading ? "Loading setlist..." : "This setlist has no songs"}</p>
+          )}
+          {songs[index + 1] && (
+            <p className="text-xs text-muted-foreground truncate">Next: {songs[index + 1].embed.title}</p>
+          )}
+        </div>
+
+        <span className="hidden md:inline text-xs text-muted-foreground">Page Up / Page Down to turn pages</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={layout === "page" ? "Horizontal layout" : "Page layout"}
+          onClick={() => setLayout(layout === "page" ? "horizontal" : "page")}
+        >
+          {layout === "page" ? <Columns2 className="h-5 w-5" /> : <FileText className="h-5 w-5" />}
+        </Button>
+        <Button variant="ghost" size="icon" title="Full screen" onClick={toggleFullscreen}>
+          {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {song && (
+          <PerformanceTabView
+            song={song}
+            layout={layout}
+            autoPlay={autoPlay}
+            onFinished={() => goTo(index + 1, true)}
+            onNextSong={() => goTo(index + 1)}
+            onPreviousSong={() => goTo(index - 1)}
+            onApiReady={(api) => (apiRef.current = api)}
+            onPlayingChange={setIsPlaying}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SetlistPerformance;
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import { ChevronRight, ListMusic, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { useSetlists } from "@/hooks/useSetlists";
+
+const Setlists = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const { setlists, isLoading, createSetlist, isCreating, deleteSetlist } = useSetlists();
+  const [name, setName] = useState("");
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      const id = await createSetlist(name.trim());
+      setName("");
+      navigate(`/setlists/${id}`);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <main className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Setlists
+        </h1>
+        <p className="text-muted-foreground mb-8">Put tabs in running order and play them on stage.</p>
+
+        <form onSubmit={handleCreate} className="flex gap-2 mb-8">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="New setlist name" />
+          <Button type="submit" disabled={!name.trim() || isCreating} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Create
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading setlists...</p>
+        ) : setlists.length === 0 ? (
+          <p className="text-muted-foreground">No setlists yet</p>
+        ) : (
+          <div className="grid gap-3">
+            {setlists.map((setlist) => (
+              <Card key={setlist.id} className="p-4 bg-card/50 backdrop-blur flex items-center gap-4">
+                <ListMusic className="h-5 w-5 text-primary shrink-0" />
+                <Link to={`/setlists/${setlist.id}`} className="flex-1 min-w-0 group">
+                  <p className="font-semibold group-hover:text-primary transition-colors">{setlist.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {setlist.item_count} {setlist.item_count === 1 ? "song" : "songs"}
+                  </p>
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete setlist"
+                  onClick={() => {
+                    if (confirm(`Delete "${setlist.name}"?`)) deleteSetlist(setlist.id);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Link to={`/setlists/${setlist.id}`}>
+                  <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                </Link>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default Setlists;
@@ -1,15 +1,16 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Navigate } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, ArrowLeft } from "lucide-react";
+import { Trash2, ArrowLeft, RefreshCw, Loader2, History, FileCode, FileText, Guitar } from "lucide-react";
 import { Link } from "react-router-dom";
 import {
   Select,
@@ -18,6 +19,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { GuitarProMetadata, getAnalysisSummary, getMetadataSummary } from "@/lib/guitarProMetadata";
+import TabRevisionsDialog from "@/components/TabRevisionsDialog";
+import AsciiTabImportDialog from "@/components/AsciiTabImportDialog";
+import TrackInstrumentsDialog from "@/components/TrackInstrumentsDialog";
 
 const INSTRUMENTS = [
   { name: "Violin", program: 40 },
@@ -53,6 +58,16 @@ const INSTRUMENTS = [
   { name: "Synth Pad", program: 88 },
 ];
 
+// Best effort: a failed removal only leaves an unused file in the bucket
+const removeUpload = (filePath: string) => {
+  supabase.storage
+    .from("guitar-files")
+    .remove([filePath])
+    .then(({ error }) => {
+      if (error) console.error("Failed to remove unused upload:", error);
+    });
+};
+
 interface GuitarEmbed {
   id: string;
   title: string;
@@ -61,17 +76,55 @@ interface GuitarEmbed {
   description: string | null;
   display_order: number;
   default_instrument: { name: string; program: number } | null;
+  artist: string | null;
+  tempo: number | null;
+  time_signature: string | null;
+  bar_count: number | null;
+  capo: number | null;
+  tracks: unknown;
+  track_instruments: unknown;
+  metadata_parsed_at: string | null;
+  difficulty: number | null;
+  lowest_fret: number | null;
+  highest_fret: number | null;
+  max_notes_per_second: number | null;
 }
 
 const GuitarManager = () => {
-  const { isAdmin, loading } = useAuth();
+  const { user, isAdmin, loading } = useAuth();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [file, setFile] = useState<File | null>(null);
   const [selectedInstrument, setSelectedInstrument] = useState<string>("40");
+  const [artist, setArtist] = useState("");
+  const [album, setAlbum] = useState("");
+  const [tabber, setTabber] = useState("");
+  const [metadata, setMetadata] = useState<GuitarProMetadata | null>(null);
+  const [uploadedPath, setUploadedPath] = useState<string | null>(null);
+  const [parsing, setParsing] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [revisionsEmbedId, setRevisionsEmbedId] = useState<string | null>(null);
+  const [instrumentsEmbedId, setInstrumentsEmbedId] = useState<string | null>(null);
+  const [asciiImportOpen, setAsciiImportOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Bumped on every file selection so a slow upload or parse can't overwrite a newer one
+  const selectionRef = useRef(0);
+  // Uploaded for the current selection but not saved as a tab yet
+  const pendingUploadRef = useRef<string | null>(null);
+
+  const discardPendingUpload = () => {
+    if (pendingUploadRef.current) removeUpload(pendingUploadRef.current);
+    pendingUploadRef.current = null;
+  };
+
+  // Leaving the page abandons the form
+  useEffect(() => {
+    const pendingUpload = pendingUploadRef;
+    return () => {
+      if (pendingUpload.current) removeUpload(pendingUpload.current);
+    };
+  }, []);
 
   const { data: embeds = [] } = useQuery({
     queryKey: ["guitar-embeds"],
@@ -104,6 +157,91 @@ const GuitarManager = () => {
     },
   });
 
+  const rescanMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.functions.invoke("parse-guitarpro", {
+        body: { embedId: id },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["guitar-embeds"] });
+      toast({ title: "Metadata extracted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadFile = async (selectedFile: File) => {
+    const fileExt = selectedFile.name.split(".").pop();
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("guitar-files")
+      .upload(fileName, selectedFile);
+
+    if (uploadError) throw uploadError;
+    return fileName;
+  };
+
+  // Upload right away so the edge function can read the file and pre-fill the form
+  const extractMetadata = async (selectedFile: File, selection: number) => {
+    setParsing(true);
+
+    try {
+      const filePath = await uploadFile(selectedFile);
+      if (selection !== selectionRef.current) {
+        removeUpload(filePath);
+        return;
+      }
+      pendingUploadRef.current = filePath;
+      setUploadedPath(filePath);
+
+      const { data, error } = await supabase.functions.invoke("parse-guitarpro", {
+        body: { fileName: filePath },
+      });
+      if (selection !== selectionRef.current) return;
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const parsed = data.metadata as GuitarProMetadata;
+      setMetadata(parsed);
+      if (parsed.title) setTitle((current) => current || parsed.title!);
+      if (parsed.artist) setArtist((current) => current || parsed.artist!);
+      if (parsed.album) setAlbum((current) => current || parsed.album!);
+      if (parsed.tabber) setTabber((current) => current || parsed.tabber!);
+
+      const firstPitched = parsed.tracks.find((t) => !t.is_percussion);
+      if (firstPitched && INSTRUMENTS.some((i) => i.program === firstPitched.program)) {
+        setSelectedInstrument(String(firstPitched.program));
+      }
+    } catch (error) {
+      if (selection !== selectionRef.current) return;
+      toast({
+        title: "Could not read file metadata",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      if (selection === selectionRef.current) setParsing(false);
+    }
+  };
+
+  // Drops the previous selection's upload and metadata
+  const startSelection = () => {
+    discardPendingUpload();
+    setMetadata(null);
+    setUploadedPath(null);
+    return ++selectionRef.current;
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
@@ -121,6 +259,12 @@ const GuitarManager = () => {
       }
       
       setFile(selectedFile);
+      extractMetadata(selectedFile, startSelection());
+    } else {
+      // Selection cleared
+      startSelection();
+      setParsing(false);
+      setFile(null);
     }
   };
 
@@ -139,16 +283,14 @@ const GuitarManager = () => {
     setUploading(true);
 
     try {
-      // Upload file to storage
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = `${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from("guitar-files")
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
+      // Upload file to storage, unless it was already uploaded for metadata extraction
+      let filePath = uploadedPath;
+      if (!filePath) {
+        filePath = await uploadFile(file);
+        // Reused if saving fails and the form is submitted again
+        pendingUploadRef.current = filePath;
+        setUploadedPath(filePath);
+      }
 
       // Get public URL
       const { data: { publicUrl } } = supabase.storage
@@ -159,7 +301,7 @@ const GuitarManager = () => {
       const instrument = INSTRUMENTS.find((i) => i.program === Number(selectedInstrument));
 
       // Insert into database
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from("guitar_embeds")
         .insert({
           title,
@@ -167,14 +309,50 @@ const GuitarManager = () => {
           description: description || null,
           display_order: embeds.length,
           default_instrument: instrument ? { name: instrument.name, program: instrument.program } : null,
-        });
+          artist: artist || null,
+          album: album || null,
+          tabber: tabber || null,
+          ...(metadata && {
+            tempo: metadata.tempo,
+            time_signature: metadata.time_signature,
+            bar_count: metadata.bar_count,
+            capo: metadata.capo,
+            track_names: metadata.track_names,
+            tracks: metadata.tracks as unknown as Json,
+            techniques: metadata.techniques,
+            lowest_fret: metadata.lowest_fret,
+            highest_fret: metadata.highest_fret,
+            positions: metadata.positions,
+            max_notes_per_second: metadata.max_notes_per_second,
+            difficulty: metadata.difficulty,
+            metadata_parsed_at: new Date().toISOString(),
+          }),
+        })
+        .select("id")
+        .single();
 
       if (insertError) throw insertError;
+      // The tab owns the file now
+      pendingUploadRef.current = null;
+
+      // The first upload starts the tab's version history
+      const { error: revisionError } = await supabase.from("guitar_embed_revisions").insert({
+        guitar_embed_id: inserted.id,
+        file_url: publicUrl,
+        uploaded_by: user?.id ?? null,
+        change_note: "Initial upload",
+      });
+      if (revisionError) console.error("Failed to record initial revision:", revisionError);
 
       toast({ title: "Guitar Pro file uploaded successfully!" });
       setTitle("");
       setDescription("");
       setSelectedInstrument("40");
+      setArtist("");
+      setAlbum("");
+      setTabber("");
+      setMetadata(null);
+      setUploadedPath(null);
       setFile(null);
       // Reset file input
       const fileInput = document.getElementById("gpFile") as HTMLInputElement;
@@ -210,9 +388,23 @@ const GuitarManager = () => {
           </Button>
         </Link>
 
-        <h1 className="text-4xl font-bold mb-8 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-          Guitar Pro Manager
-        </h1>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Guitar Pro Manager
+          </h1>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setAsciiImportOpen(true)}>
+              <FileText className="h-4 w-4" />
+              Import ASCII tab
+            </Button>
+            <Link to="/admin/guitar/editor">
+              <Button variant="outline" className="gap-2">
+                <FileCode className="h-4 w-4" />
+                Write in alphaTex
+              </Button>
+            </Link>
+          </div>
+        </div>
 
         <Card className="p-6 mb-8 bg-card/50 backdrop-blur">
           <h2 className="text-2xl font-bold mb-4">Upload Guitar Pro File</h2>
@@ -235,6 +427,20 @@ const GuitarManager = () => {
                 placeholder="Optional description"
               />
             </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label htmlFor="artist">Artist</Label>
+                <Input id="artist" value={artist} onChange={(e) => setArtist(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="album">Album</Label>
+                <Input id="album" value={album} onChange={(e) => setAlbum(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="tabber">Tabbed by</Label>
+                <Input id="tabber" value={tabber} onChange={(e) => setTabber(e.target.value)} />
+              </div>
+            </div>
             <div>
               <Label htmlFor="instrument">Default Instrument *</Label>
               <Select value={selectedInstrument} onValueChange={setSelectedInstrument}>
@@ -263,11 +469,23 @@ const GuitarManager = () => {
                   Selected: {file.name} ({(file.size / 1024).toFixed(2)} KB)
                 </p>
               )}
+              {parsing && (
+                <p className="text-sm text-muted-foreground mt-2 flex items-center gap-2">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Reading file metadata...
+                </p>
+              )}
+              {metadata && (
+                <div className="text-sm text-muted-foreground mt-2 space-y-1">
+                  <p>{[...getMetadataSummary(metadata), ...getAnalysisSummary(metadata)].join(" · ")}</p>
+                  <p>Tracks: {metadata.track_names.join(", ")}</p>
+                </div>
+              )}
               <p className="text-xs text-muted-foreground mt-1">
                 Upload a Guitar Pro file (.gp3, .gp4, .gp5, .gpx, .gp)
               </p>
             </div>
-            <Button type="submit" disabled={uploading}>
+            <Button type="submit" disabled={uploading || parsing}>
               {uploading ? "Uploading..." : "Upload File"}
             </Button>
           </form>
@@ -286,28 +504,90 @@ const GuitarManager = () => {
                 >
                   <div className="flex-1">
                     <p className="font-semibold">{embed.title}</p>
+                    {embed.artist && (
+                      <p className="text-sm">{embed.artist}</p>
+                    )}
                     {embed.description && (
                       <p className="text-sm text-muted-foreground">{embed.description}</p>
                     )}
                     {embed.file_url && (
                       <p className="text-xs text-muted-foreground mt-1">
-                        Guitar Pro file uploaded
+                        {embed.metadata_parsed_at
+                          ? [...getMetadataSummary(embed), ...getAnalysisSummary(embed)].join(" · ") ||
+                            "Guitar Pro file uploaded"
+                          : "Guitar Pro file uploaded · metadata not extracted"}
                       </p>
                     )}
                   </div>
-                  <Button
-                    variant="destructive"
-                    size="icon"
-                    onClick={() => deleteMutation.mutate(embed.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    {embed.file_url && (
+                      <Link to={`/admin/guitar/editor/${embed.id}`}>
+                        <Button variant="outline" size="icon" title="Edit as alphaTex">
+                          <FileCode className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                    )}
+                    {embed.file_url && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Versions"
+                        onClick={() => setRevisionsEmbedId(embed.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {embed.file_url && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Track instruments"
+                        onClick={() => setInstrumentsEmbedId(embed.id)}
+                      >
+                        <Guitar className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {embed.file_url && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Extract metadata from file"
+                        disabled={rescanMutation.isPending}
+                        onClick={() => rescanMutation.mutate(embed.id)}
+                      >
+                        <RefreshCw
+                          className={`h-4 w-4 ${rescanMutation.isPending && rescanMutation.variables === embed.id ? "animate-spin" : ""}`}
+                        />
+                      </Button>
+                    )}
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(embed.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               ))}
             </div>
           )}
         </Card>
       </div>
+
+      <TabRevisionsDialog
+        open={!!revisionsEmbedId}
+        onOpenChange={(open) => !open && setRevisionsEmbedId(null)}
+        embed={embeds.find((e) => e.id === revisionsEmbedId) ?? null}
+      />
+
+      <TrackInstrumentsDialog
+        open={!!instrumentsEmbedId}
+        onOpenChange={(open) => !open && setInstrumentsEmbedId(null)}
+        embed={embeds.find((e) => e.id === instrumentsEmbedId) ?? null}
+      />
+
+      <AsciiTabImportDialog open={asciiImportOpen} onOpenChange={setAsciiImportOpen} />
     </main>
   );
 };
@@ -11,6 +11,7 @@ import { Loader2, Upload, Trash2, Check, ChevronDown, ChevronUp } from "lucide-r
 import { Navigate } from "react-router-dom";
 import AlphaTabPlayer from "@/components/AlphaTabPlayer";
 import { INSTRUMENTS } from "@/constants/instruments";
+import { alphaTab, DEFAULT_SOUNDFONT_URL, resolveSoundFontUrl } from "@/lib/alphaTab";
 import { Progress } from "@/components/ui/progress";
 
 declare global {
@@ -94,10 +95,10 @@ const SoundfontManager = () => {
 
       if (error && error.code !== 'PGRST116') throw error;
       if (data) {
-        setCurrentSoundfont(data.value as string);
+        setCurrentSoundfont(resolveSoundFontUrl(data.value as string));
       } else {
         // Default soundfont
-        setCurrentSoundfont("https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/soundfont/sonivox.sf2");
+        setCurrentSoundfont(DEFAULT_SOUNDFONT_URL);
       }
     } catch (error: any) {
       console.error("Error loading soundfont setting:", error);
@@ -200,7 +201,7 @@ const SoundfontManager = () => {
 
   const handleSetDefault = async () => {
     try {
-      const defaultUrl = "https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/soundfont/sonivox.sf2";
+      const defaultUrl = DEFAULT_SOUNDFONT_URL;
       
       // Known working instruments in sonivox.sf2 (incomplete GM set)
       const sonivoxInstruments = [
@@ -268,7 +269,7 @@ const SoundfontManager = () => {
     let currentProgramCandidate: number | null = null;
 
     // Save original AlphaTab Logger
-    const at = window.alphaTab;
+    const at = alphaTab;
     const originalAtLogger = at?.Logger?.log; // The ILogger object, not logDelegate
     const originalLogLevel = at?.Logger?.logLevel;
 
@@ -444,7 +445,7 @@ const SoundfontManager = () => {
       });
 
       // Test each instrument one by one
-      const MidiEventType = window.alphaTab?.midi?.MidiEventType;
+      const MidiEventType = alphaTab.midi.MidiEventType;
       
       for (let program = 0; program < 128; program++) {
         const instrumentName = INSTRUMENTS.find(i => i.program === program)?.name || `Program ${program}`;
@@ -787,7 +788,7 @@ const SoundfontManager = () => {
                 <p className="font-medium">Default Soundfont (sonivox.sf2)</p>
                 <p className="text-sm text-muted-foreground">Web-optimized, ~30MB, hosted on CDN</p>
               </div>
-              {currentSoundfont === "https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/soundfont/sonivox.sf2" ? (
+              {currentSoundfont === DEFAULT_SOUNDFONT_URL ? (
                 <div className="flex items-center gap-2 text-primary">
                   <Check className="h-5 w-5" />
                   <span className="text-sm font-medium">Active</span>
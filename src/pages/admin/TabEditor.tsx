@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, Navigate, useLocation, useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, AlertCircle, FilePlus, FolderOpen, Loader2, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useTabRevisions } from "@/hooks/useTabRevisions";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import AlphaTabPlayer from "@/components/AlphaTabPlayer";
+import { getInstrumentByProgram } from "@/constants/instruments";
+import type { AlphaTabApi } from "@/lib/alphaTab";
+import {
+  AlphaTexParseResult,
+  NEW_TAB_TEMPLATE,
+  convertToAlphaTex,
+  exportGuitarPro,
+  getTextOffset,
+  parseAlphaTex,
+} from "@/lib/alphaTexEditor";
+
+// Must match the leading-6 / py-2 classes of the text pane
+const LINE_HEIGHT = 24;
+const PADDING_TOP = 8;
+const PARSE_DELAY = 400;
+
+const TabEditor = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isAdmin, loading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { addRevision, isAdding } = useTabRevisions(id);
+
+  const location = useLocation();
+  // Importers hand over their alphaTex as router state
+  const [text, setText] = useState<string>(id ? "" : location.state?.alphaTex ?? NEW_TAB_TEMPLATE);
+  const [result, setResult] = useState<AlphaTexParseResult | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [changeNote, setChangeNote] = useState("");
+  // The player is created once from the first valid text, later edits re-render its score
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const apiRef = useRef<AlphaTabApi | null>(null);
+  const textRef = useRef(text);
+  textRef.current = text;
+
+  const { data: source, isLoading: sourceLoading, error: sourceError } = useQuery({
+    queryKey: ["tab-editor-source", id],
+    queryFn: async () => {
+      const { data: embed, error } = await supabase
+        .from("guitar_embeds")
+        .select("id, title, file_url")
+        .eq("id", id!)
+        .single();
+      if (error) throw error;
+      if (!embed.file_url) throw new Error("This tab has no file to convert");
+
+      const response = await fetch(embed.file_url);
+      if (!response.ok) throw new Error(`HTTP ${response.status} when fetching file`);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      return { embed, tex: convertToAlphaTex(bytes) };
+    },
+    enabled: !!id && isAdmin,
+    // Refetching would replace the text being edited
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (source) setText(source.tex);
+  }, [source]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setResult(text ? parseAlphaTex(text) : null), PARSE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  useEffect(() => {
+    if (!result?.score) return;
+    if (apiRef.current) {
+      apiRef.current.renderScore(result.score);
+    } else {
+      setPreviewFile((current) => current ?? new File([textRef.current], "draft.alphatex"));
+    }
+  }, [result]);
+
+  const problem = result?.problem ?? null;
+  const lineCount = useMemo(() => text.split("\n").length, [text]);
+
+  const goToProblem = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !problem) return;
+    const offset = getTextOffset(text, problem.line, problem.column);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    textarea.scrollTop = Math.max(0, (problem.line - 3) * LINE_HEIGHT);
+  };
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    try {
+      setText(convertToAlphaTex(new Uint8Array(await selected.arrayBuffer())));
+    } catch (error) {
+      toast({
+        title: "Could not convert file",
+        description: error?.message ?? "AlphaTab could not read this file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const score = result?.score;
+      if (!score) throw new Error("Fix the errors before saving");
+
+      const filePath = `${Date.now()}-${Math.random().toString(36).substring(7)}.gp`;
+      const { error: uploadError } = await supabase.storage
+        .from("guitar-files")
+        .upload(filePath, new Blob([exportGuitarPro(score)]));
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from("guitar-files")
+        .getPublicUrl(filePath);
+
+      const { count } = await supabase
+        .from("guitar_embeds")
+        .select("id", { count: "exact", head: true });
+      const instrument = getInstrumentByProgram(score.tracks[0]?.playbackInfo.program ?? -1);
+
+      const { data: inserted, error: insertError } = await supabase
+        .from("guitar_embeds")
+        .insert({
+          title: score.title || "Untitled",
+          file_url: publicUrl,
+          display_order: count ?? 0,
+          default_instrument: instrument ? { name: instrument.name, program: instrument.program } : null,
+          artist: score.artist || null,
+          album: score.album || null,
+          tabber: score.tab || null,
+        })
+        .select("id")
+        .single();
+      if (insertError) throw insertError;
+
+      const { error: revisionError } = await supabase.from("guitar_embed_revisions").insert({
+        guitar_embed_id: inserted.id,
+        file_url: publicUrl,
+        uploaded_by: user?.id ?? null,
+        change_note: "Written in the alphaTex editor",
+      });
+      if (revisionError) console.error("Failed to record initial revision:", revisionError);
+
+      const { data, error } = await supabase.functions.invoke("parse-guitarpro", {
+        body: { embedId: inserted.id },
+      });
+      if (error || data?.error) console.warn("Failed to extract tab metadata:", error ?? data.error);
+
+      return { id: inserted.id as string, title: score.title || "Untitled", file_url: publicUrl };
+    },
+    onSuccess: (embed) => {
+      queryClient.invalidateQueries({ queryKey: ["guitar-embeds"] });
+      // Keep editing the current text rather than converting the saved file back
+      queryClient.setQueryData(["tab-editor-source", embed.id], { embed, tex: text });
+      toast({ title: "Tab created", description: "Further saves add new versions of it" });
+      navigate(`/admin/guitar/editor/${embed.id}`, { replace: true });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveRevision = async () => {
+    if (!result?.score) return;
+    try {
+      await addRevision({
+        file: new Blob([exportGuitarPro(result.score)]),
+        fileName: "edit.gp",
+        changeNote: changeNote || "Edited in the alphaTex editor",
+      });
+      setChangeNote("");
+    } catch {
+      // useTabRevisions already reported it
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const canSave = !!result?.score && !createMutation.isPending && !isAdding;
+
+  return (
+    <main className="min-h-screen bg-background pt-24 pb-16">
+      <div className="container mx-auto px-4">
+        <Link to="/admin/guitar">
+          <Button variant="ghost" className="mb-6 gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Guitar Pro Manager
+          </Button>
+        </Link>
+
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              alphaTex Editor
+            </h1>
+            <p className="text-muted-foreground">
+              {source ? `Editing "${source.embed.title}"` : "Write a new tab as alphaTex"}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gp,.gp3,.gp4,.gp5,.gpx,.xml,.musicxml,.mxl"
+              className="hidden"
+              onChange={handleOpenFile}
+            />
+            <Button variant="outline" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+              <FolderOpen className="h-4 w-4" />
+              Convert a file
+            </Button>
+            <Button variant="outline" className="gap-2" disabled={!canSave} onClick={() => createMutation.mutate()}>
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FilePlus className="h-4 w-4" />}
+              Save as new tab
+            </Button>
+          </div>
+        </div>
+
+        {id && sourceError && (
+          <Card className="p-4 mb-6 border-destructive/50 text-sm text-destructive">
+            Could not open this tab: {(sourceError as Error).message}
+          </Card>
+        )}
+
+        {id && (
+          <Card className="p-4 mb-6 bg-card/50 backdrop-blur flex flex-wrap items-center gap-2">
+            <Input
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="What changed? (optional)"
+              className="flex-1 min-w-[200px]"
+            />
+            <Button className="gap-2" disabled={!canSave || !source} onClick={saveRevision}>
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save as new version
+            </Button>
+          </Card>
+        )}
+
+        <div className="grid gap-6 xl:grid-cols-2">
+          <Card className="p-4 bg-card/50 backdrop-blur space-y-3">
+            {id && sourceLoading ? (
+              <div className="h-[600px] flex items-center justify-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Converting the score to alphaTex...
+              </div>
+            ) : (
+              <div className="relative flex h-[600px] rounded-md border border-input bg-background overflow-hidden font-mono text-sm">
+                <div className="w-12 shrink-0 border-r border-border bg-muted/40 text-right text-muted-foreground select-none overflow-hidden">
+                  <div style={{ transform: `translateY(${PADDING_TOP - scrollTop}px)` }}>
+                    {Array.from({ length: lineCount }, (_, i) => (
+                      <div
+                        key={i}
+                        className={`pr-2 leading-6 ${problem?.line === i + 1 ? "bg-destructive/20 text-destructive font-semibold" : ""}`}
+                      >
+                        {i + 1}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="relative flex-1 min-w-0">
+                  {problem && (
+                    <div
+                      className="absolute inset-x-0 bg-destructive/10 pointer-events-none"
+                      style={{ top: PADDING_TOP + (problem.line - 1) * LINE_HEIGHT - scrollTop, height: LINE_HEIGHT }}
+                    />
+                  )}
+                  <textarea
+                    ref={textareaRef}
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                    wrap="off"
+                    spellCheck={false}
+                    aria-label="alphaTex source"
+                    className="relative h-full w-full resize-none bg-transparent px-3 py-2 leading-6 outline-none"
+                  />
+                </div>
+              </div>
+            )}
+
+            {problem ? (
+              <div className="flex items-start gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p className="flex-1">
+                  Line {problem.line}, column {problem.column}: {problem.message}
+                </p>
+                <Button variant="outline" size="sm" onClick={goToProblem}>
+                  Go to error
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {result?.score
+                  ? `${result.score.tracks.length} track${result.score.tracks.length === 1 ? "" : "s"}, ${result.score.masterBars.length} bars`
+                  : "Checking..."}
+              </p>
+            )}
+          </Card>
+
+          <div className="min-w-0">
+            {previewFile ? (
+              <AlphaTabPlayer
+                file={previewFile}
+                title={result?.score?.title || source?.embed.title}
+                onApiReady={(api) => (apiRef.current = api)}
+              />
+            ) : (
+              <Card className="p-6 h-full flex items-center justify-center text-sm text-muted-foreground">
+                The preview appears once the alphaTex is valid.
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default TabEditor;
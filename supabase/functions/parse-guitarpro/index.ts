@@ -0,0 +1,333 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.0';
+import * as alphaTab from 'https://esm.sh/@coderline/alphatab@1.6.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'guitar-files';
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const TICKS_PER_QUARTER = 960;
+// Onsets the fastest passage is measured over, so a single flam or grace note doesn't count
+const DENSITY_WINDOW = 8;
+// Hand positions used for less than this share of the fretted beats are left out
+const POSITION_MIN_SHARE = 0.1;
+// Extra difficulty per technique; the total is capped in estimateDifficulty
+const TECHNIQUE_WEIGHTS: Record<string, number> = {
+  tapping: 1.5,
+  bend: 0.75,
+  harmonic: 0.75,
+  slide: 0.25,
+  legato: 0.25,
+  palm_mute: 0.25,
+  vibrato: 0.25,
+};
+
+interface TrackMetadata {
+  name: string;
+  program: number;
+  tuning: string[];
+  tuning_name: string | null;
+  capo: number;
+  is_percussion: boolean;
+}
+
+interface TabAnalysis {
+  techniques: string[];
+  lowest_fret: number | null;
+  highest_fret: number | null;
+  positions: number[];
+  max_notes_per_second: number | null;
+  difficulty: number | null;
+}
+
+interface GuitarProMetadata extends TabAnalysis {
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  tabber: string | null;
+  tempo: number | null;
+  time_signature: string | null;
+  bar_count: number;
+  capo: number | null;
+  track_names: string[];
+  tracks: TrackMetadata[];
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Convert a MIDI note number to a name like E4
+function pitchName(value: number): string {
+  return `${NOTE_NAMES[((value % 12) + 12) % 12]}${Math.floor(value / 12) - 1}`;
+}
+
+function textOrNull(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+// Storage path of a file from its public URL
+function fileNameFromUrl(fileUrl: string): string | null {
+  const marker = `/${BUCKET}/`;
+  const index = fileUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(fileUrl.slice(index + marker.length).split('?')[0]);
+}
+
+function extractMetadata(score: alphaTab.model.Score): GuitarProMetadata {
+  const firstBar = score.masterBars[0];
+
+  const tracks: TrackMetadata[] = score.tracks.map((track, index) => {
+    const staff = track.staves[0];
+    const isPercussion = !!staff?.isPercussion || track.playbackInfo?.primaryChannel === 9;
+    const tuning: number[] = isPercussion ? [] : staff?.tuning ?? [];
+    const knownTuning = tuning.length ? alphaTab.model.Tuning.findTuning(tuning) : null;
+
+    return {
+      name: textOrNull(track.name) ?? `Track ${index + 1}`,
+      program: track.playbackInfo?.program ?? 0,
+      tuning: tuning.map(pitchName),
+      tuning_name: knownTuning?.name ?? null,
+      capo: staff?.capo ?? 0,
+      is_percussion: isPercussion,
+    };
+  });
+
+  const firstPitched = tracks.find((t) => !t.is_percussion && t.tuning.length > 0);
+
+  return {
+    title: textOrNull(score.title),
+    artist: textOrNull(score.artist),
+    album: textOrNull(score.album),
+    tabber: textOrNull(score.tab),
+    tempo: score.tempo ? Math.round(score.tempo) : null,
+    time_signature: firstBar ? `${firstBar.timeSignatureNumerator}/${firstBar.timeSignatureDenominator}` : null,
+    bar_count: score.masterBars.length,
+    capo: firstPitched ? firstPitched.capo : null,
+    track_names: tracks.map((t) => t.name),
+    tracks,
+    ...analyzeScore(score),
+  };
+}
+
+function isFrettedStaff(staff: alphaTab.model.Staff): boolean {
+  return !staff.isPercussion && staff.tuning?.length > 0;
+}
+
+// Seconds at every tempo change in score order, ignoring repeats
+function buildTempoMap(score: alphaTab.model.Score): { tick: number; seconds: number; bpm: number }[] {
+  const map = [{ tick: 0, seconds: 0, bpm: score.tempo || 120 }];
+  for (const masterBar of score.masterBars) {
+    const duration = masterBar.calculateDuration();
+    const automations = [...(masterBar.tempoAutomations ?? [])].sort((a, b) => a.ratioPosition - b.ratioPosition);
+    for (const automation of automations) {
+      if (!(automation.value > 0)) continue;
+      const tick = masterBar.start + automation.ratioPosition * duration;
+      const last = map[map.length - 1];
+      const seconds = last.seconds + ((tick - last.tick) / TICKS_PER_QUARTER) * (60 / last.bpm);
+      map.push({ tick, seconds, bpm: automation.value });
+    }
+  }
+  return map;
+}
+
+function tickToSeconds(map: { tick: number; seconds: number; bpm: number }[], tick: number): number {
+  let segment = map[0];
+  for (const entry of map) {
+    if (entry.tick > tick) break;
+    segment = entry;
+  }
+  return segment.seconds + ((tick - segment.tick) / TICKS_PER_QUARTER) * (60 / segment.bpm);
+}
+
+// Fastest run of DENSITY_WINDOW consecutive onsets, in notes per second
+function fastestDensity(onsets: number[]): number {
+  const sorted = [...new Set(onsets)].sort((a, b) => a - b);
+  if (sorted.length < 2) return 0;
+  const window = Math.min(DENSITY_WINDOW, sorted.length);
+  let fastest = 0;
+  for (let i = 0; i + window - 1 < sorted.length; i++) {
+    const elapsed = sorted[i + window - 1] - sorted[i];
+    if (elapsed > 0) fastest = Math.max(fastest, (window - 1) / elapsed);
+  }
+  return fastest;
+}
+
+function collectTechniques(beat: alphaTab.model.Beat, note: alphaTab.model.Note, techniques: Set<string>) {
+  const model = alphaTab.model;
+  if (note.bendType !== model.BendType.None) techniques.add('bend');
+  if (note.slideInType !== model.SlideInType.None || note.slideOutType !== model.SlideOutType.None) {
+    techniques.add('slide');
+  }
+  if (note.isHammerPullOrigin) techniques.add('legato');
+  if (beat.tap || note.isLeftHandTapped) techniques.add('tapping');
+  if (note.harmonicType !== model.HarmonicType.None) techniques.add('harmonic');
+  if (note.isPalmMute) techniques.add('palm_mute');
+  if (note.vibrato !== model.VibratoType.None || beat.vibrato !== model.VibratoType.None) techniques.add('vibrato');
+}
+
+// Rough 1-10 rating: speed counts most, then techniques, wide stretches and high frets
+function estimateDifficulty(density: number, techniques: Set<string>, maxStretch: number, highestFret: number): number {
+  let difficulty = 1 + Math.min(4, density / 3);
+  const techniqueScore = [...techniques].reduce((sum, technique) => sum + (TECHNIQUE_WEIGHTS[technique] ?? 0), 0);
+  difficulty += Math.min(3, techniqueScore);
+  difficulty += Math.min(1.5, Math.max(0, maxStretch - 4) * 0.5);
+  if (highestFret > 12) difficulty += 0.5;
+  return Math.max(1, Math.min(10, Math.round(difficulty)));
+}
+
+// Techniques, fret range, hand positions, speed and difficulty of the stringed tracks
+function analyzeScore(score: alphaTab.model.Score): TabAnalysis {
+  const tempoMap = buildTempoMap(score);
+  const techniques = new Set<string>();
+  const positionCounts = new Map<number, number>();
+  let frettedBeats = 0;
+  let lowestFret = Infinity;
+  let highestFret = -Infinity;
+  let maxStretch = 0;
+  let density = 0;
+
+  for (const track of score.tracks) {
+    for (const staff of track.staves) {
+      if (!isFrettedStaff(staff)) continue;
+      const onsets: number[] = [];
+
+      for (const bar of staff.bars) {
+        const barStart = score.masterBars[bar.index].start;
+        for (const voice of bar.voices) {
+          for (const beat of voice.beats) {
+            const played = beat.notes.filter((note) => !note.isTieDestination);
+            if (played.length === 0) continue;
+            if (beat.graceType === alphaTab.model.GraceType.None) {
+              onsets.push(tickToSeconds(tempoMap, barStart + beat.playbackStart));
+            }
+
+            const fretted: number[] = [];
+            for (const note of played) {
+              collectTechniques(beat, note, techniques);
+              if (note.isDead) continue;
+              lowestFret = Math.min(lowestFret, note.fret);
+              highestFret = Math.max(highestFret, note.fret);
+              if (note.fret > 0) fretted.push(note.fret);
+            }
+            if (fretted.length === 0) continue;
+
+            const position = Math.min(...fretted);
+            positionCounts.set(position, (positionCounts.get(position) ?? 0) + 1);
+            frettedBeats++;
+            maxStretch = Math.max(maxStretch, Math.max(...fretted) - position);
+          }
+        }
+      }
+      density = Math.max(density, fastestDensity(onsets));
+    }
+  }
+
+  const hasNotes = highestFret >= 0;
+  return {
+    techniques: [...techniques].sort(),
+    lowest_fret: hasNotes ? lowestFret : null,
+    highest_fret: hasNotes ? highestFret : null,
+    positions: [...positionCounts]
+      .filter(([, count]) => count >= frettedBeats * POSITION_MIN_SHARE)
+      .map(([position]) => position)
+      .sort((a, b) => a - b),
+    max_notes_per_second: hasNotes ? Math.round(density * 10) / 10 : null,
+    difficulty: hasNotes ? estimateDifficulty(density, techniques, maxStretch, highestFret) : null,
+  };
+}
+
+async function parseGuitarProFile(supabase: SupabaseClient, fileName: string): Promise<GuitarProMetadata> {
+  const { data, error } = await supabase.storage.from(BUCKET).download(fileName);
+  if (error || !data) {
+    throw new Error(`Failed to download ${fileName}: ${error?.message ?? 'no data'}`);
+  }
+
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  const settings = new alphaTab.Settings();
+  const score = alphaTab.importer.ScoreLoader.loadScoreFromBytes(bytes, settings);
+  return extractMetadata(score);
+}
+
+async function isAdminRequest(supabase: SupabaseClient, req: Request): Promise<boolean> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return false;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  return !!isAdmin;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    if (!(await isAdminRequest(supabase, req))) {
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    // Either parse an uploaded file ({ fileName }) and return its metadata, or
+    // parse the file of an existing embed ({ embedId }) and store the result on it.
+    const { fileName, embedId } = await req.json();
+
+    if (!fileName && !embedId) {
+      return jsonResponse({ error: 'fileName or embedId is required' }, 400);
+    }
+
+    let path = fileName as string | undefined;
+    if (embedId) {
+      const { data: embed, error } = await supabase
+        .from('guitar_embeds')
+        .select('file_url')
+        .eq('id', embedId)
+        .single();
+
+      if (error || !embed?.file_url) {
+        return jsonResponse({ error: 'Guitar embed or its file was not found' }, 404);
+      }
+      path = fileNameFromUrl(embed.file_url) ?? undefined;
+      if (!path) {
+        return jsonResponse({ error: 'File is not stored in the guitar-files bucket' }, 400);
+      }
+    }
+
+    console.log('Parsing Guitar Pro file:', path);
+    const metadata = await parseGuitarProFile(supabase, path!);
+    console.log(`Parsed ${metadata.bar_count} bars, ${metadata.tracks.length} tracks`);
+
+    if (embedId) {
+      // Artist, album and tabber may have been entered by an admin; a file that
+      // lacks them keeps the stored values
+      const { title: _title, artist, album, tabber, ...columns } = metadata;
+      const credits = Object.fromEntries(
+        Object.entries({ artist, album, tabber }).filter(([, value]) => value !== null)
+      );
+      const { error } = await supabase
+        .from('guitar_embeds')
+        .update({ ...columns, ...credits, metadata_parsed_at: new Date().toISOString() })
+        .eq('id', embedId);
+
+      if (error) throw error;
+    }
+
+    return jsonResponse({ success: true, metadata });
+  } catch (error) {
+    console.error('Error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
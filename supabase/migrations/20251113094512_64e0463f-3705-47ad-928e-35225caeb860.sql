@@ -0,0 +1,42 @@
+-- Per-user track mixer settings for multi-track Guitar Pro scores
+CREATE TABLE public.track_mixes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  guitar_embed_id UUID NOT NULL REFERENCES public.guitar_embeds(id) ON DELETE CASCADE,
+  mix JSONB NOT NULL DEFAULT '{"tracks": []}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, guitar_embed_id)
+);
+
+COMMENT ON COLUMN public.track_mixes.mix IS 'Mixer state: {"tracks": [{"index", "name", "mute", "solo", "volume" (0-100), "pan" (-100..100)}]}';
+
+-- Enable RLS
+ALTER TABLE public.track_mixes ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own mixes
+CREATE POLICY "Users can view own track mixes"
+ON public.track_mixes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own track mixes"
+ON public.track_mixes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own track mixes"
+ON public.track_mixes
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own track mixes"
+ON public.track_mixes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_track_mixes_updated_at
+BEFORE UPDATE ON public.track_mixes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
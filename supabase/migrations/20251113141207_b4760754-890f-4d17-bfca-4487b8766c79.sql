@@ -0,0 +1,51 @@
+-- Private bookmarks and notes on guitar tabs
+CREATE TABLE public.tab_annotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  guitar_embed_id UUID NOT NULL REFERENCES public.guitar_embeds(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('bookmark', 'note')),
+  bar_number INTEGER NOT NULL CHECK (bar_number > 0),
+  beat_index INTEGER CHECK (beat_index IS NULL OR beat_index >= 0),
+  title TEXT,
+  body TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Bookmarks need a name, notes need text
+ALTER TABLE public.tab_annotations ADD CONSTRAINT tab_annotation_content CHECK (
+  (kind = 'bookmark' AND length(title) > 0 AND length(title) <= 100)
+  OR (kind = 'note' AND length(body) > 0 AND length(body) <= 1000)
+);
+
+CREATE INDEX idx_tab_annotations_user_embed ON public.tab_annotations(user_id, guitar_embed_id);
+
+-- Enable RLS
+ALTER TABLE public.tab_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Annotations are private to their owner
+CREATE POLICY "Users can view own tab annotations"
+ON public.tab_annotations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own tab annotations"
+ON public.tab_annotations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tab annotations"
+ON public.tab_annotations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tab annotations"
+ON public.tab_annotations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_tab_annotations_updated_at
+BEFORE UPDATE ON public.tab_annotations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,15 @@
+-- Structured metadata extracted from the uploaded Guitar Pro file
+ALTER TABLE public.guitar_embeds
+ADD COLUMN artist TEXT,
+ADD COLUMN album TEXT,
+ADD COLUMN tabber TEXT,
+ADD COLUMN tempo INTEGER,
+ADD COLUMN time_signature TEXT,
+ADD COLUMN bar_count INTEGER,
+ADD COLUMN capo INTEGER,
+ADD COLUMN track_names TEXT[] NOT NULL DEFAULT '{}',
+-- Per-track details: [{ "name", "program", "tuning": ["E4", ...], "tuning_name", "capo", "is_percussion" }]
+ADD COLUMN tracks JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN metadata_parsed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_guitar_embeds_artist ON public.guitar_embeds(artist);
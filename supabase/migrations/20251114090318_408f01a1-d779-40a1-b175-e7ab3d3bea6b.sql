@@ -0,0 +1,42 @@
+-- Per-user tab player preferences (zoom, layout, speed, metronome, sizes, ...)
+CREATE TABLE public.player_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+  tab_overrides JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.player_preferences.preferences IS 'Player settings: {"zoom", "layout", "speed", "metronome", "countIn", "autoScroll", "containerWidth", "containerHeight", "scaleControls"}';
+COMMENT ON COLUMN public.player_preferences.tab_overrides IS 'Settings that replace the global ones for single tabs, keyed by guitar_embeds.id';
+
+-- Enable RLS
+ALTER TABLE public.player_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own preferences
+CREATE POLICY "Users can view own player preferences"
+ON public.player_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own player preferences"
+ON public.player_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own player preferences"
+ON public.player_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own player preferences"
+ON public.player_preferences
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_player_preferences_updated_at
+BEFORE UPDATE ON public.player_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,5 @@
+-- Recorded backing track for a tab, with sync points tying bars to timestamps in the recording
+ALTER TABLE public.guitar_embeds
+ADD COLUMN backing_track_url TEXT,
+-- [{ "barIndex", "barPosition", "barOccurence", "millisecondOffset" }]
+ADD COLUMN backing_track_sync_points JSONB NOT NULL DEFAULT '[]'::jsonb;
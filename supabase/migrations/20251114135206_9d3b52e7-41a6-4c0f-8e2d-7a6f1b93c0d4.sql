@@ -0,0 +1,40 @@
+-- Every file uploaded for a tab. guitar_embeds.file_url points at the current one,
+-- so rolling back only changes that pointer and comments stay on the embed.
+CREATE TABLE public.guitar_embed_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guitar_embed_id UUID NOT NULL REFERENCES public.guitar_embeds(id) ON DELETE CASCADE,
+  file_url TEXT NOT NULL,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  change_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_guitar_embed_revisions_embed ON public.guitar_embed_revisions(guitar_embed_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.guitar_embed_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can see and manage revisions
+CREATE POLICY "Admins can view guitar embed revisions"
+ON public.guitar_embed_revisions
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create guitar embed revisions"
+ON public.guitar_embed_revisions
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete guitar embed revisions"
+ON public.guitar_embed_revisions
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The files uploaded so far become the first revision of their tab
+INSERT INTO public.guitar_embed_revisions (guitar_embed_id, file_url, uploaded_by, change_note, created_at)
+SELECT id, file_url, created_by, 'Initial upload', COALESCE(created_at, NOW())
+FROM public.guitar_embeds
+WHERE file_url IS NOT NULL;
@@ -0,0 +1,71 @@
+-- User-owned setlists: ordered tabs with per-song playback overrides
+CREATE TABLE public.setlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE public.setlist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  setlist_id UUID NOT NULL REFERENCES public.setlists(id) ON DELETE CASCADE,
+  guitar_embed_id UUID NOT NULL REFERENCES public.guitar_embeds(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Overrides; NULL keeps the tab's own setting
+  speed INTEGER CHECK (speed BETWEEN 25 AND 200),
+  transpose INTEGER NOT NULL DEFAULT 0 CHECK (transpose BETWEEN -12 AND 12),
+  instrument JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.setlist_items.speed IS 'Playback speed in percent of the tab tempo';
+COMMENT ON COLUMN public.setlist_items.instrument IS 'Synth instrument: {"name", "program"}';
+
+CREATE INDEX idx_setlists_user ON public.setlists(user_id);
+CREATE INDEX idx_setlist_items_setlist ON public.setlist_items(setlist_id, position);
+
+-- Enable RLS
+ALTER TABLE public.setlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.setlist_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own setlists
+CREATE POLICY "Users can view own setlists"
+ON public.setlists
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own setlists"
+ON public.setlists
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own setlists"
+ON public.setlists
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own setlists"
+ON public.setlists
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Items belong to whoever owns the setlist
+CREATE POLICY "Users can manage items of own setlists"
+ON public.setlist_items
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.setlists s WHERE s.id = setlist_id AND s.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.setlists s WHERE s.id = setlist_id AND s.user_id = auth.uid()));
+
+-- Add updated_at triggers
+CREATE TRIGGER update_setlists_updated_at
+BEFORE UPDATE ON public.setlists
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_setlist_items_updated_at
+BEFORE UPDATE ON public.setlist_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
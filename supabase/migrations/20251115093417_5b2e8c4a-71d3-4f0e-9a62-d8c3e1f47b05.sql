@@ -0,0 +1,4 @@
+-- Synth instrument per score track, taking precedence over default_instrument for the listed tracks
+ALTER TABLE public.guitar_embeds
+-- [{ "index", "name", "program" }]
+ADD COLUMN track_instruments JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,14 @@
+-- Playing analysis of the stringed tracks, filled in with the other metadata by parse-guitarpro
+ALTER TABLE public.guitar_embeds
+-- Any of "bend", "slide", "legato", "tapping", "harmonic", "palm_mute", "vibrato"
+ADD COLUMN techniques TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN lowest_fret INTEGER,
+ADD COLUMN highest_fret INTEGER,
+-- Lowest fretted fret of the hand positions most of the tab is played in
+ADD COLUMN positions INTEGER[] NOT NULL DEFAULT '{}',
+-- Fastest passage at the marked tempo
+ADD COLUMN max_notes_per_second NUMERIC(5, 1),
+-- Estimated from speed, techniques, stretches and fret height, 1 (easy) to 10
+ADD COLUMN difficulty INTEGER CHECK (difficulty BETWEEN 1 AND 10);
+
+CREATE INDEX idx_guitar_embeds_difficulty ON public.guitar_embeds(difficulty);
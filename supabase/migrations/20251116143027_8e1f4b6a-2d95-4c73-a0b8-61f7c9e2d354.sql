@@ -0,0 +1,49 @@
+-- Practice sessions recorded by the tab player for signed-in users
+CREATE TABLE public.practice_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  guitar_embed_id UUID NOT NULL REFERENCES public.guitar_embeds(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  practiced_on DATE NOT NULL,
+  duration_seconds INTEGER NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  bars_played INTEGER[] NOT NULL DEFAULT '{}',
+  max_stable_bpm INTEGER CHECK (max_stable_bpm IS NULL OR max_stable_bpm > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.practice_sessions.practiced_on IS 'Local date of the player, so streaks follow the user''s own days';
+COMMENT ON COLUMN public.practice_sessions.bars_played IS 'Distinct bar numbers (1-based) heard during the session';
+COMMENT ON COLUMN public.practice_sessions.max_stable_bpm IS 'Highest tempo held for several uninterrupted passes through a loop';
+
+CREATE INDEX idx_practice_sessions_user_date ON public.practice_sessions(user_id, practiced_on);
+
+-- Enable RLS
+ALTER TABLE public.practice_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Practice history is private to its owner
+CREATE POLICY "Users can view own practice sessions"
+ON public.practice_sessions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own practice sessions"
+ON public.practice_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own practice sessions"
+ON public.practice_sessions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own practice sessions"
+ON public.practice_sessions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_practice_sessions_updated_at
+BEFORE UPDATE ON public.practice_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
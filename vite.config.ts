@@ -1,8 +1,29 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+const alphaTabDist = path.resolve(__dirname, "./node_modules/@coderline/alphatab/dist");
+
+// Serves alphaTab's fonts, soundfont and worker scripts from our own origin. The
+// package's Vite plugin needs Vite 6, so this copies them into public/ (ignored by
+// git) and points the worker and audio worklet at the copies.
+const alphaTabAssets = (): Plugin => ({
+  name: "alphatab-assets",
+  buildStart() {
+    const publicDir = path.resolve(__dirname, "./public");
+    fs.cpSync(path.join(alphaTabDist, "font"), path.join(publicDir, "font"), { recursive: true });
+    fs.cpSync(path.join(alphaTabDist, "soundfont"), path.join(publicDir, "soundfont"), { recursive: true });
+    for (const file of ["alphaTab.core.mjs", "alphaTab.worker.mjs", "alphaTab.worklet.mjs"]) {
+      fs.cpSync(path.join(alphaTabDist, file), path.join(publicDir, "alphatab", file));
+    }
+  },
+  transform(code, id) {
+    if (path.normalize(id.split("?")[0]) !== path.join(alphaTabDist, "alphaTab.mjs")) return;
+    return code.replace(/import\.meta\.url/g, 'new URL("/alphatab/", self.location.href).href');
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -10,7 +31,11 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), alphaTabAssets(), mode === "development" && componentTagger()].filter(Boolean),
+  optimizeDeps: {
+    // Pre-bundling would move alphaTab.mjs away from the URL its transform relies on
+    exclude: ["@coderline/alphatab"],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),